@@ -8,11 +8,16 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Questions from "./pages/Questions";
+import QuestionDetail from "./pages/QuestionDetail";
+import JobTargets from "./pages/JobTargets";
+import InterviewLoops from "./pages/InterviewLoops";
+import LoopRun from "./pages/LoopRun";
 import Practice from "./pages/Practice";
 import VoiceInterview from "./pages/VoiceInterview";
 import MockSessions from "./pages/MockSessions";
 import Performance from "./pages/Performance";
 import ActivityHistory from "./pages/ActivityHistory";
+import SessionDetail from "./pages/SessionDetail";
 import Settings from "./pages/Settings";
 import Onboarding from "./pages/Onboarding";
 import DashboardLayout from "./components/layout/DashboardLayout";
@@ -34,11 +39,16 @@ const App = () => (
             <Route element={<DashboardLayout />}>
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/questions" element={<Questions />} />
+              <Route path="/questions/:id" element={<QuestionDetail />} />
+              <Route path="/job-targets" element={<JobTargets />} />
               <Route path="/practice" element={<Practice />} />
               <Route path="/voice-interview" element={<VoiceInterview />} />
+              <Route path="/loops" element={<InterviewLoops />} />
+              <Route path="/loops/run/:id" element={<LoopRun />} />
               <Route path="/mock-sessions" element={<MockSessions />} />
               <Route path="/performance" element={<Performance />} />
               <Route path="/activity" element={<ActivityHistory />} />
+              <Route path="/sessions/:id" element={<SessionDetail />} />
               <Route path="/settings" element={<Settings />} />
             </Route>
             <Route path="*" element={<NotFound />} />
@@ -7,6 +7,12 @@ import {
   Smartphone,
   Monitor,
   UserX,
+  Users,
+  ClipboardPaste,
+  Keyboard,
+  SquareTerminal,
+  Minimize,
+  MonitorSmartphone,
   Shield,
   ShieldAlert,
   ShieldX,
@@ -33,6 +39,12 @@ const AlertBanner: React.FC<{
     looking_away: EyeOff,
     phone_detected: Smartphone,
     person_missing: UserX,
+    multiple_people: Users,
+    paste: ClipboardPaste,
+    typing_burst: Keyboard,
+    devtools_open: SquareTerminal,
+    fullscreen_exit: Minimize,
+    second_display: MonitorSmartphone,
   };
 
   const Icon = icons[type];
@@ -112,6 +124,7 @@ export const CheatingAlert: React.FC<CheatingAlertProps> = ({
     { active: metrics.isCurrentlyLookingAway, icon: EyeOff, label: 'Looking Away', color: 'text-warning' },
     { active: metrics.isPhoneDetected, icon: Smartphone, label: 'Phone Detected', color: 'text-destructive' },
     { active: metrics.isPersonMissing, icon: UserX, label: 'Not Visible', color: 'text-destructive' },
+    { active: metrics.isMultiplePeople, icon: Users, label: 'Someone Else', color: 'text-destructive' },
   ].filter(issue => issue.active);
 
   return (
@@ -172,7 +185,7 @@ export const CheatingAlert: React.FC<CheatingAlertProps> = ({
         )}
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-4 gap-2 text-center">
+        <div className="grid grid-cols-5 gap-2 text-center">
           <div className="glass rounded-lg p-2">
             <Monitor className="w-4 h-4 text-muted-foreground mx-auto mb-1" />
             <p className="text-sm font-mono font-bold text-foreground">{metrics.tabSwitchCount}</p>
@@ -193,6 +206,11 @@ export const CheatingAlert: React.FC<CheatingAlertProps> = ({
             <p className="text-sm font-mono font-bold text-foreground">{metrics.personMissingCount}</p>
             <p className="text-xs text-muted-foreground">Missing</p>
           </div>
+          <div className="glass rounded-lg p-2">
+            <Users className="w-4 h-4 text-muted-foreground mx-auto mb-1" />
+            <p className="text-sm font-mono font-bold text-foreground">{metrics.multiplePeopleCount}</p>
+            <p className="text-xs text-muted-foreground">Others</p>
+          </div>
         </div>
 
         {/* Event History */}
@@ -239,7 +257,8 @@ export const CheatingAlertCompact: React.FC<{ metrics: CheatingMetrics }> = ({ m
   const hasActiveIssues = !metrics.isTabVisible || 
     metrics.isCurrentlyLookingAway || 
     metrics.isPhoneDetected || 
-    metrics.isPersonMissing;
+    metrics.isPersonMissing ||
+    metrics.isMultiplePeople;
 
   if (!hasActiveIssues && metrics.totalViolations === 0) {
     return null;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sparkles,
+  Trophy,
+  TrendingDown,
+  AlertCircle,
+  Dumbbell,
+  CheckCircle2,
+  XCircle,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getStarCoverage, type SessionDebrief } from '@/lib/debrief';
+
+interface DebriefReportProps {
+  debrief: SessionDebrief;
+  // Interviewer questions in turn order, used to label the 1-based turn numbers
+  questions: string[];
+}
+
+const STAR_KEYS = [
+  { key: 'situation', label: 'S' },
+  { key: 'task', label: 'T' },
+  { key: 'action', label: 'A' },
+  { key: 'result', label: 'R' },
+] as const;
+
+const getScoreColor = (score: number) => {
+  if (score >= 8) return 'text-neon-green';
+  if (score >= 6) return 'text-warning';
+  return 'text-destructive';
+};
+
+export const DebriefReport: React.FC<DebriefReportProps> = ({ debrief, questions }) => {
+  const getQuestion = (turn: number) => questions[turn - 1] || `Question ${turn}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-primary" />
+            AI Debrief
+          </h2>
+          <div className="flex items-center gap-6 text-right">
+            <div>
+              <p className={cn('text-2xl font-bold', getScoreColor(debrief.overall_score))}>
+                {debrief.overall_score.toFixed(1)}
+              </p>
+              <p className="text-xs text-muted-foreground">Content</p>
+            </div>
+            {debrief.delivery_score !== null && (
+              <div>
+                <p className={cn('text-2xl font-bold', getScoreColor(Number(debrief.delivery_score)))}>
+                  {Number(debrief.delivery_score).toFixed(1)}
+                </p>
+                <p className="text-xs text-muted-foreground">Delivery</p>
+              </div>
+            )}
+          </div>
+        </div>
+        <p className="text-muted-foreground">{debrief.summary}</p>
+      </div>
+
+      {/* Strongest / weakest */}
+      <div className="grid md:grid-cols-2 gap-4">
+        {debrief.strongest_answer && (
+          <div className="glass rounded-2xl p-6 border border-neon-green/30">
+            <h3 className="font-semibold text-neon-green flex items-center gap-2 mb-2">
+              <Trophy className="w-4 h-4" />
+              Strongest Answer
+            </h3>
+            <p className="text-sm text-foreground mb-2">{getQuestion(debrief.strongest_answer.turn)}</p>
+            <p className="text-sm text-muted-foreground">{debrief.strongest_answer.reason}</p>
+          </div>
+        )}
+        {debrief.weakest_answer && (
+          <div className="glass rounded-2xl p-6 border border-destructive/30">
+            <h3 className="font-semibold text-destructive flex items-center gap-2 mb-2">
+              <TrendingDown className="w-4 h-4" />
+              Weakest Answer
+            </h3>
+            <p className="text-sm text-foreground mb-2">{getQuestion(debrief.weakest_answer.turn)}</p>
+            <p className="text-sm text-muted-foreground">{debrief.weakest_answer.reason}</p>
+          </div>
+        )}
+      </div>
+
+      {/* STAR completeness */}
+      {debrief.answers.length > 0 && (
+        <div className="glass rounded-2xl p-6">
+          <h3 className="font-semibold text-foreground mb-4">STAR Completeness</h3>
+          <div className="space-y-4">
+            {debrief.answers.map((answer) => (
+              <div key={answer.turn} className="p-4 rounded-xl bg-muted/30">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <p className="text-sm font-medium text-foreground">
+                    {answer.turn}. {getQuestion(answer.turn)}
+                  </p>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {getStarCoverage(answer)}/4
+                  </span>
+                </div>
+                <div className="flex gap-2 mb-2">
+                  {STAR_KEYS.map(({ key, label }) => (
+                    <Badge
+                      key={key}
+                      variant="outline"
+                      className={cn(
+                        'gap-1',
+                        answer[key]
+                          ? 'bg-neon-green/20 text-neon-green border-neon-green/30'
+                          : 'bg-muted text-muted-foreground border-border'
+                      )}
+                    >
+                      {answer[key] ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                      {label}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">{answer.note}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Challenged claims */}
+      {debrief.challenged_claims.length > 0 && (
+        <div className="glass rounded-2xl p-6">
+          <h3 className="font-semibold text-foreground flex items-center gap-2 mb-4">
+            <AlertCircle className="w-4 h-4 text-warning" />
+            Vague Claims Challenged
+          </h3>
+          <div className="space-y-3">
+            {debrief.challenged_claims.map((claim, index) => (
+              <div key={index} className="p-4 rounded-xl bg-warning/10 border border-warning/20">
+                <p className="text-sm text-foreground italic mb-1">"{claim.claim}"</p>
+                <p className="text-sm text-muted-foreground">{claim.challenge}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Drills */}
+      <div className="glass rounded-2xl p-6">
+        <h3 className="font-semibold text-foreground flex items-center gap-2 mb-4">
+          <Dumbbell className="w-4 h-4 text-primary" />
+          Drills For Next Time
+        </h3>
+        <div className="grid md:grid-cols-3 gap-4">
+          {debrief.drills.map((drill, index) => (
+            <div key={index} className="p-4 rounded-xl bg-primary/10 border border-primary/20">
+              <p className="text-sm font-medium text-foreground mb-1">{drill.title}</p>
+              <p className="text-sm text-muted-foreground">{drill.description}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebriefReport;
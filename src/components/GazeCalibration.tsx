@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Crosshair, Loader2, RotateCcw, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useGazeTracking } from '@/hooks/useGazeTracking';
+import {
+  CALIBRATION_TARGETS,
+  getCalibrationPoint,
+  isCalibrationUsable,
+  saveGazeCalibration,
+  type CalibrationTarget,
+  type GazeAngles,
+  type GazeCalibration as GazeCalibrationData,
+} from '@/lib/gaze';
+
+interface GazeCalibrationProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCalibrated?: (calibration: GazeCalibrationData) => void;
+}
+
+// Time to move the eyes to a new target before sampling starts
+const SETTLE_MS = 1000;
+const CAPTURE_MS = 1500;
+// Frames with a face needed per target; fewer means the face was lost
+const MIN_SAMPLES = 3;
+
+const TARGET_POSITIONS: Record<Exclude<CalibrationTarget, 'camera'>, string> = {
+  topLeft: 'top-6 left-6',
+  topRight: 'top-6 right-6',
+  bottomRight: 'bottom-6 right-6',
+  bottomLeft: 'bottom-6 left-6',
+};
+
+export const GazeCalibration: React.FC<GazeCalibrationProps> = ({ open, onOpenChange, onCalibrated }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [stage, setStage] = useState<'intro' | 'running' | 'saving' | 'error'>('intro');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cameraError, setCameraError] = useState(false);
+
+  const samplesRef = useRef<GazeAngles[]>([]);
+  const isCapturingRef = useRef(false);
+  const pointsRef = useRef<Partial<Record<CalibrationTarget, GazeAngles>>>({});
+
+  const { status } = useGazeTracking(videoRef, {
+    enabled: open,
+    onSample: (gaze) => {
+      if (isCapturingRef.current && gaze) samplesRef.current.push(gaze);
+    },
+  });
+
+  // Own camera stream, so calibration works before an interview starts
+  useEffect(() => {
+    if (!open) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setStage('intro');
+    setStepIndex(0);
+    setError(null);
+    setCameraError(false);
+
+    navigator.mediaDevices.getUserMedia({ video: true })
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch((err) => {
+        console.error('Error accessing camera for calibration:', err);
+        setCameraError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, [open]);
+
+  const close = () => onOpenChange(false);
+
+  const fail = (message: string) => {
+    setError(message);
+    setStage('error');
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  };
+
+  const finish = async () => {
+    const { topLeft, topRight, bottomRight, bottomLeft, camera } = pointsRef.current;
+    const calibration: GazeCalibrationData = {
+      camera: camera!,
+      corners: { topLeft: topLeft!, topRight: topRight!, bottomRight: bottomRight!, bottomLeft: bottomLeft! },
+      calibratedAt: new Date().toISOString(),
+    };
+
+    if (!isCalibrationUsable(calibration)) {
+      fail('Your gaze barely moved between the corners. Follow each dot with your eyes and try again.');
+      return;
+    }
+
+    setStage('saving');
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+
+    try {
+      if (user) await saveGazeCalibration(user.id, calibration);
+      toast({ title: 'Calibration saved', description: 'Eye contact is now measured against your camera.' });
+      onCalibrated?.(calibration);
+      close();
+    } catch (err) {
+      console.error('Error saving gaze calibration:', err);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save your calibration.',
+      });
+      setStage('intro');
+    }
+  };
+
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+  const failRef = useRef(fail);
+  failRef.current = fail;
+
+  // Each target: give the eyes a moment to get there, then sample
+  useEffect(() => {
+    if (stage !== 'running') return;
+
+    samplesRef.current = [];
+    const settle = setTimeout(() => {
+      isCapturingRef.current = true;
+      setIsCapturing(true);
+    }, SETTLE_MS);
+
+    const capture = setTimeout(() => {
+      isCapturingRef.current = false;
+      setIsCapturing(false);
+
+      if (samplesRef.current.length < MIN_SAMPLES) {
+        failRef.current('We lost track of your face. Sit facing the camera in good light and try again.');
+        return;
+      }
+
+      pointsRef.current[CALIBRATION_TARGETS[stepIndex].id] = getCalibrationPoint(samplesRef.current);
+      if (stepIndex < CALIBRATION_TARGETS.length - 1) {
+        setStepIndex(stepIndex + 1);
+      } else {
+        finishRef.current();
+      }
+    }, SETTLE_MS + CAPTURE_MS);
+
+    return () => {
+      clearTimeout(settle);
+      clearTimeout(capture);
+      isCapturingRef.current = false;
+    };
+  }, [stage, stepIndex]);
+
+  const start = () => {
+    pointsRef.current = {};
+    setError(null);
+    setStepIndex(0);
+    setStage('running');
+    // Full screen puts the corners where the screen's corners are
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+  };
+
+  if (!open) return null;
+
+  const target = CALIBRATION_TARGETS[stepIndex];
+  const isRunning = stage === 'running';
+  const isUnavailable = status === 'unavailable' || cameraError;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 bg-background">
+      {/* Self view, just under where a webcam usually sits; it is the
+          target for the last step */}
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2">
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className={cn(
+            'w-40 h-28 rounded-xl object-cover -scale-x-100 border-2 transition-colors',
+            isRunning && target.id === 'camera' ? 'border-neon-cyan' : 'border-border'
+          )}
+        />
+      </div>
+
+      {isRunning && target.id !== 'camera' && (
+        <div className={cn('absolute', TARGET_POSITIONS[target.id])}>
+          <div
+            className={cn(
+              'w-6 h-6 rounded-full bg-neon-cyan transition-transform',
+              isCapturing ? 'scale-75 ring-4 ring-neon-cyan/40' : 'animate-pulse'
+            )}
+          />
+        </div>
+      )}
+
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="glass rounded-2xl p-6 max-w-md text-center space-y-4 pointer-events-auto">
+          {isRunning ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Step {stepIndex + 1} of {CALIBRATION_TARGETS.length}
+              </p>
+              <p className="text-lg font-semibold text-foreground">{target.label}</p>
+              <p className="text-sm text-muted-foreground">Keep your head still and move only your eyes.</p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-semibold text-foreground flex items-center justify-center gap-2">
+                <Crosshair className="w-5 h-5 text-primary" />
+                Eye Contact Calibration
+              </h2>
+              {isUnavailable ? (
+                <p className="text-sm text-muted-foreground">
+                  {cameraError
+                    ? 'We need your camera to calibrate. Allow camera access and try again.'
+                    : "Eye tracking isn't available on this device. Eye contact will keep using the posture estimate."}
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {error || 'Sit as you would for an interview. Look at a dot in each corner of the screen, then into your camera, so we can tell when you are making eye contact.'}
+                </p>
+              )}
+              <div className="flex items-center justify-center gap-3">
+                <Button variant="glass" onClick={close}>
+                  <X className="w-4 h-4" />
+                  Cancel
+                </Button>
+                {!isUnavailable && (
+                  <Button variant="hero" onClick={start} disabled={status !== 'ready' || stage === 'saving'}>
+                    {status !== 'ready' || stage === 'saving' ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : stage === 'error' ? (
+                      <RotateCcw className="w-4 h-4" />
+                    ) : (
+                      <Crosshair className="w-4 h-4" />
+                    )}
+                    {stage === 'saving' ? 'Saving...' : stage === 'error' ? 'Try Again' : 'Start'}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GazeCalibration;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, Download, Clock, Flag, Hourglass } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { downloadBlob } from '@/lib/questionExport';
+import {
+  PROCTORING_EVENT_TYPES,
+  exportProctoringReport,
+  getEventLabel,
+  getEventOffset,
+  type IntegritySummary,
+  type ProctoringEvent,
+  type ProctoringEventType,
+} from '@/lib/proctoring';
+import { getProctoringPolicy } from '@/lib/proctoringPolicies';
+
+interface IntegrityReportProps {
+  summary: IntegritySummary;
+  events: ProctoringEvent[];
+  // When the session started; event offsets are measured from here
+  sessionStart: string;
+}
+
+const LANE_COLORS: Record<ProctoringEventType, string> = {
+  tab_switch: 'bg-destructive',
+  phone_detected: 'bg-neon-magenta',
+  person_missing: 'bg-neon-cyan',
+  multiple_people: 'bg-neon-purple',
+  looking_away: 'bg-warning',
+  paste: 'bg-neon-blue',
+  typing_burst: 'bg-neon-blue',
+  devtools_open: 'bg-destructive',
+  fullscreen_exit: 'bg-warning',
+  second_display: 'bg-neon-magenta',
+};
+
+const LEVELS = {
+  low: { label: 'Low risk', className: 'text-neon-green border-neon-green/30' },
+  medium: { label: 'Some concerns', className: 'text-warning border-warning/30' },
+  high: { label: 'High risk', className: 'text-destructive border-destructive/30' },
+};
+
+const formatSeconds = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}`;
+};
+
+export const IntegrityReport: React.FC<IntegrityReportProps> = ({ summary, events, sessionStart }) => {
+  const level = LEVELS[summary.level];
+  // Quizzes and voice interviews flag different things; skip empty lanes
+  const lanes = PROCTORING_EVENT_TYPES.filter((type) => events.some((e) => e.event_type === type.id));
+  // Events can run past the recorded duration if the session ended mid-episode
+  const timelineSeconds = Math.max(
+    summary.durationSeconds,
+    ...events.map((e) => getEventOffset(e, sessionStart) + (e.duration_ms || 0) / 1000),
+    1
+  );
+
+  const handleExport = () => {
+    const { blob, filename } = exportProctoringReport(events, sessionStart);
+    downloadBlob(blob, filename);
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          Integrity Report
+          <Badge variant="outline" className={level.className}>{level.label}</Badge>
+          {summary.policy && (
+            <Badge variant="outline" className="text-muted-foreground">
+              {getProctoringPolicy(summary.policy).name} policy
+            </Badge>
+          )}
+          {summary.escalated && (
+            <Badge variant="outline" className="text-destructive border-destructive/30">Escalated</Badge>
+          )}
+        </h3>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={events.length === 0}>
+          <Download className="w-4 h-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Integrity Score', value: `${summary.score}/100`, icon: ShieldCheck },
+          { label: 'Events', value: summary.totalEvents, icon: Flag },
+          { label: 'Flagged Time', value: formatSeconds(summary.flaggedSeconds), icon: Clock },
+          {
+            label: 'Longest',
+            value: summary.longestEvent ? formatSeconds(summary.longestEvent.seconds) : '—',
+            icon: Hourglass,
+          },
+        ].map((stat) => (
+          <div key={stat.label} className="p-3 rounded-xl bg-muted/30">
+            <div className="flex items-center gap-2 text-muted-foreground text-xs mb-1">
+              <stat.icon className="w-3 h-3" />
+              {stat.label}
+            </div>
+            <p className="text-xl font-bold text-foreground">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Timeline: one lane per event type, bars placed by start and length */}
+      {lanes.length > 0 ? (
+        <div className="space-y-2">
+          {lanes.map((type) => (
+            <div key={type.id} className="flex items-center gap-3">
+              <span className="w-32 shrink-0 text-xs text-muted-foreground">
+                {type.label} ({summary.counts[type.id] || 0})
+              </span>
+              <div className="relative flex-1 h-5 rounded-md bg-muted/30 overflow-hidden">
+                {events
+                  .filter((e) => e.event_type === type.id)
+                  .map((e) => {
+                    const offset = getEventOffset(e, sessionStart);
+                    const seconds = (e.duration_ms || 0) / 1000;
+                    return (
+                      <div
+                        key={e.id}
+                        title={`${formatSeconds(offset)} · ${seconds.toFixed(1)}s · ${e.message}`}
+                        className={cn('absolute top-0 h-full rounded-sm opacity-80', LANE_COLORS[type.id])}
+                        style={{
+                          left: `${(offset / timelineSeconds) * 100}%`,
+                          width: `max(${(seconds / timelineSeconds) * 100}%, 3px)`,
+                        }}
+                      />
+                    );
+                  })}
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-between pl-[8.75rem] text-xs text-muted-foreground">
+            <span>0:00</span>
+            <span>{formatSeconds(timelineSeconds / 2)}</span>
+            <span>{formatSeconds(timelineSeconds)}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No integrity events were flagged.</p>
+      )}
+
+      {summary.longestEvent && (
+        <p className="text-sm text-muted-foreground">
+          Longest flag: {getEventLabel(summary.longestEvent.type).toLowerCase()} for{' '}
+          {summary.longestEvent.seconds}s at {formatSeconds(summary.longestEvent.offsetSeconds)}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default IntegrityReport;
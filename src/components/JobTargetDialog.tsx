@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Briefcase, Save, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  JOB_LEVELS,
+  createJobTarget,
+  updateJobTarget,
+  type JobTarget,
+  type JobTargetInput,
+} from '@/lib/jobTargets';
+
+interface JobTargetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing target to edit; leave empty to create one
+  target?: JobTarget | null;
+  onSaved: (target: JobTarget) => void;
+}
+
+const emptyInput: JobTargetInput = {
+  company: '',
+  title: '',
+  level: 'mid',
+  job_description: '',
+};
+
+export const JobTargetDialog: React.FC<JobTargetDialogProps> = ({
+  open,
+  onOpenChange,
+  target,
+  onSaved,
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [input, setInput] = useState<JobTargetInput>(emptyInput);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setInput(target
+      ? {
+          company: target.company,
+          title: target.title,
+          level: target.level,
+          job_description: target.job_description || '',
+        }
+      : emptyInput);
+  }, [open, target]);
+
+  const updateField = <K extends keyof JobTargetInput>(field: K, value: JobTargetInput[K]) => {
+    setInput((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (!input.company.trim() || !input.title.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing details',
+        description: 'Add the company and job title.',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = target
+        ? await updateJobTarget(target.id, input)
+        : await createJobTarget(user.id, input);
+
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving job target:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save the job target.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Briefcase className="w-5 h-5 text-primary" />
+            {target ? 'Edit Job Target' : 'New Job Target'}
+          </DialogTitle>
+          <DialogDescription>
+            Paste the job posting to get questions tailored to it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="target-company">Company</Label>
+              <Input
+                id="target-company"
+                value={input.company}
+                onChange={(e) => updateField('company', e.target.value)}
+                placeholder="Acme Corp"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Level</Label>
+              <Select value={input.level} onValueChange={(value) => updateField('level', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {JOB_LEVELS.map((level) => (
+                    <SelectItem key={level.id} value={level.id}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="target-title">Job title</Label>
+            <Input
+              id="target-title"
+              value={input.title}
+              onChange={(e) => updateField('title', e.target.value)}
+              placeholder="Senior Product Manager"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="target-description">Job description</Label>
+            <Textarea
+              id="target-description"
+              value={input.job_description || ''}
+              onChange={(e) => updateField('job_description', e.target.value)}
+              placeholder="Optional, but questions are much more specific with it"
+              className="min-h-[180px]"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Target
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JobTargetDialog;
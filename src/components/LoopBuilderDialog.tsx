@@ -0,0 +1,378 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat, Save, Loader2, Plus, Trash2, ArrowUp, ArrowDown, Mic, GraduationCap, Coffee } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { INTERVIEW_PERSONAS } from '@/lib/interviewPersonas';
+import { getDecks, type QuestionDeck } from '@/lib/questionBank';
+import {
+  DEFAULT_PROCTORING_POLICY_ID,
+  PROCTORING_POLICIES,
+  getProctoringPolicy,
+  type ProctoringPolicyId,
+} from '@/lib/proctoringPolicies';
+import {
+  MAX_LOOP_ROUNDS,
+  createLoop,
+  createLoopRound,
+  getLoopMinutes,
+  getStarterRounds,
+  updateLoop,
+  type InterviewLoop,
+  type LoopRound,
+  type LoopRoundType,
+} from '@/lib/interviewLoops';
+
+interface LoopBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing loop to edit; leave empty to create one
+  loop?: InterviewLoop | null;
+  onSaved: (loop: InterviewLoop) => void;
+}
+
+// Select needs a non-empty value for "no filter"
+const ANY = 'any';
+
+export const LoopBuilderDialog: React.FC<LoopBuilderDialogProps> = ({
+  open,
+  onOpenChange,
+  loop,
+  onSaved,
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [rounds, setRounds] = useState<LoopRound[]>([]);
+  const [proctoringPolicy, setProctoringPolicy] = useState<ProctoringPolicyId>(DEFAULT_PROCTORING_POLICY_ID);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [decks, setDecks] = useState<QuestionDeck[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const load = async () => {
+      try {
+        const [categoriesRes, ownDecks] = await Promise.all([
+          supabase.from('question_categories').select('id, name').order('name'),
+          getDecks(user.id),
+        ]);
+        if (categoriesRes.error) throw categoriesRes.error;
+
+        setCategories(categoriesRes.data || []);
+        setDecks(ownDecks);
+
+        if (loop) {
+          setName(loop.name);
+          setRounds(loop.rounds);
+          setProctoringPolicy(getProctoringPolicy(loop.proctoring_policy).id);
+        } else {
+          const behavioral = (categoriesRes.data || []).find((c) => /behavio/i.test(c.name));
+          setName('Full interview loop');
+          setRounds(getStarterRounds(behavioral?.id || null));
+          setProctoringPolicy(DEFAULT_PROCTORING_POLICY_ID);
+        }
+      } catch (error) {
+        console.error('Error loading loop options:', error);
+      }
+    };
+
+    load();
+  }, [open, loop, user]);
+
+  const updateRound = (id: string, changes: Partial<LoopRound>) => {
+    setRounds((prev) => prev.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+  };
+
+  const changeRoundType = (round: LoopRound, type: LoopRoundType) => {
+    if (type === round.type) return;
+    setRounds((prev) => prev.map((r) => (r.id === round.id
+      ? createLoopRound(type, { id: r.id, minutes: r.minutes, breakMinutes: r.breakMinutes })
+      : r)));
+  };
+
+  const moveRound = (index: number, offset: number) => {
+    setRounds((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (!name.trim() || rounds.length === 0 || rounds.some((r) => !r.title.trim())) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing details',
+        description: 'Name the loop and give every round a title.',
+      });
+      return;
+    }
+
+    const cleaned = rounds.map((r) => ({
+      ...r,
+      title: r.title.trim(),
+      focus: r.focus?.trim() || undefined,
+      minutes: Math.min(Math.max(Math.round(r.minutes) || 1, 1), 120),
+      breakMinutes: Math.min(Math.max(Math.round(r.breakMinutes) || 0, 0), 30),
+    }));
+
+    setIsSaving(true);
+    try {
+      const saved = loop
+        ? await updateLoop(loop.id, name, cleaned, proctoringPolicy)
+        : await createLoop(user.id, name, cleaned, proctoringPolicy);
+
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving interview loop:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save the loop.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-primary" />
+            {loop ? 'Edit Interview Loop' : 'New Interview Loop'}
+          </DialogTitle>
+          <DialogDescription>
+            Rounds run in order with a break after each one. Total time: {getLoopMinutes(rounds)} min
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="loop-name">Name</Label>
+            <Input
+              id="loop-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Onsite at Acme"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Proctoring</Label>
+            <Select value={proctoringPolicy} onValueChange={(value) => setProctoringPolicy(value as ProctoringPolicyId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROCTORING_POLICIES.map((policy) => (
+                  <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{getProctoringPolicy(proctoringPolicy).description}</p>
+          </div>
+
+          {rounds.map((round, index) => (
+            <div key={round.id} className="glass rounded-xl p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="w-6 h-6 rounded-full bg-primary/20 text-primary text-xs font-bold flex items-center justify-center shrink-0">
+                  {index + 1}
+                </span>
+                <Input
+                  value={round.title}
+                  onChange={(e) => updateRound(round.id, { title: e.target.value })}
+                  placeholder="Round title"
+                  className="flex-1"
+                />
+                <Select value={round.type} onValueChange={(value) => changeRoundType(round, value as LoopRoundType)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="voice">
+                      <span className="flex items-center gap-2"><Mic className="w-4 h-4" /> Voice interview</span>
+                    </SelectItem>
+                    <SelectItem value="quiz">
+                      <span className="flex items-center gap-2"><GraduationCap className="w-4 h-4" /> Quiz</span>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" title="Move up" disabled={index === 0} onClick={() => moveRound(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === rounds.length - 1}
+                  onClick={() => moveRound(index, 1)}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove round"
+                  className="text-destructive"
+                  onClick={() => setRounds((prev) => prev.filter((r) => r.id !== round.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Minutes</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={120}
+                    value={round.minutes}
+                    onChange={(e) => updateRound(round.id, { minutes: Number(e.target.value) })}
+                  />
+                </div>
+                {round.type === 'voice' ? (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Interviewer</Label>
+                    <Select value={round.personaId} onValueChange={(value) => updateRound(round.id, { personaId: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INTERVIEW_PERSONAS.map((persona) => (
+                          <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Deck</Label>
+                    <Select
+                      value={round.deckId || ANY}
+                      onValueChange={(value) => updateRound(round.id, { deckId: value === ANY ? null : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>All questions</SelectItem>
+                        {decks.map((deck) => (
+                          <SelectItem key={deck.id} value={deck.id}>{deck.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {round.type === 'voice' ? (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Case or topic (optional)</Label>
+                  <Input
+                    value={round.focus || ''}
+                    onChange={(e) => updateRound(round.id, { focus: e.target.value })}
+                    placeholder="e.g. Estimate the market for electric scooters in Berlin"
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Category</Label>
+                    <Select
+                      value={round.categoryId || ANY}
+                      onValueChange={(value) => updateRound(round.id, { categoryId: value === ANY ? null : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any category</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between h-10">
+                    <Label className="text-sm">Adaptive difficulty</Label>
+                    <Switch
+                      checked={!!round.adaptive}
+                      onCheckedChange={(checked) => updateRound(round.id, { adaptive: checked })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {index < rounds.length - 1 && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Coffee className="w-4 h-4" />
+                  Break after this round
+                  <Input
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={round.breakMinutes}
+                    onChange={(e) => updateRound(round.id, { breakMinutes: Number(e.target.value) })}
+                    className="w-20 h-8"
+                  />
+                  min
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={rounds.length >= MAX_LOOP_ROUNDS}
+              onClick={() => setRounds((prev) => [...prev, createLoopRound('voice')])}
+            >
+              <Plus className="w-4 h-4" /> Voice Round
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={rounds.length >= MAX_LOOP_ROUNDS}
+              onClick={() => setRounds((prev) => [...prev, createLoopRound('quiz')])}
+            >
+              <Plus className="w-4 h-4" /> Quiz Round
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Loop
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LoopBuilderDialog;
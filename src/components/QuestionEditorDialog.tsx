@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PenLine, Save, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createQuestion,
+  updateQuestion,
+  type QuestionDifficulty,
+  type QuestionInput,
+} from '@/lib/questionBank';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface QuestionEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  // Existing question to edit; leave empty to create one
+  question?: Pick<
+    Tables<'interview_questions'>,
+    'id' | 'question_text' | 'category_id' | 'difficulty' | 'tips' | 'sample_answer'
+  > | null;
+  onSaved: (question: Tables<'interview_questions'>) => void;
+}
+
+const NO_CATEGORY = 'none';
+const MIN_QUESTION_LENGTH = 10;
+
+const emptyInput: QuestionInput = {
+  question_text: '',
+  category_id: null,
+  difficulty: 'medium',
+  tips: '',
+  sample_answer: '',
+};
+
+export const QuestionEditorDialog: React.FC<QuestionEditorDialogProps> = ({
+  open,
+  onOpenChange,
+  categories,
+  question,
+  onSaved,
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [input, setInput] = useState<QuestionInput>(emptyInput);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setInput(question
+      ? {
+          question_text: question.question_text,
+          category_id: question.category_id,
+          difficulty: question.difficulty as QuestionDifficulty,
+          tips: question.tips || '',
+          sample_answer: question.sample_answer || '',
+        }
+      : emptyInput);
+  }, [open, question]);
+
+  const updateField = <K extends keyof QuestionInput>(field: K, value: QuestionInput[K]) => {
+    setInput((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (input.question_text.trim().length < MIN_QUESTION_LENGTH) {
+      toast({
+        variant: 'destructive',
+        title: 'Question too short',
+        description: `Write at least ${MIN_QUESTION_LENGTH} characters.`,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = question
+        ? await updateQuestion(question.id, input)
+        : await createQuestion(user.id, input);
+
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: question ? 'Question updated' : 'Question added',
+        description: question ? 'Your changes have been saved.' : 'Your question is now in your library.',
+      });
+    } catch (error) {
+      console.error('Error saving question:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save the question.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PenLine className="w-5 h-5 text-primary" />
+            {question ? 'Edit Question' : 'New Question'}
+          </DialogTitle>
+          <DialogDescription>
+            Questions you write are private to you unless you share a deck that contains them
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="question-text">Question</Label>
+            <Textarea
+              id="question-text"
+              value={input.question_text}
+              onChange={(e) => updateField('question_text', e.target.value)}
+              placeholder="Tell me about a time you disagreed with your manager."
+              className="min-h-[80px]"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={input.category_id || NO_CATEGORY}
+                onValueChange={(value) => updateField('category_id', value === NO_CATEGORY ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>General</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select
+                value={input.difficulty}
+                onValueChange={(value) => updateField('difficulty', value as QuestionDifficulty)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">Easy</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="hard">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="question-sample-answer">Sample answer</Label>
+            <Textarea
+              id="question-sample-answer"
+              value={input.sample_answer || ''}
+              onChange={(e) => updateField('sample_answer', e.target.value)}
+              placeholder="Optional"
+              className="min-h-[100px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="question-tips">Tips</Label>
+            <Textarea
+              id="question-tips"
+              value={input.tips || ''}
+              onChange={(e) => updateField('tips', e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Question
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionEditorDialog;
@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileUp, Loader2, CheckCircle2, AlertTriangle, Copy, ChevronLeft } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  getLibraryQuestionTexts,
+  guessColumnMapping,
+  insertQuestionsInBatches,
+  parseImportFile,
+  type ColumnMapping,
+  type ImportTable,
+} from '@/lib/questionImport';
+import type { DeckSummary } from '@/lib/questionBank';
+
+interface QuestionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  decks: DeckSummary[];
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const NOT_MAPPED = 'none';
+const NO_DECK = 'none';
+const PREVIEW_ROWS = 50;
+
+export const QuestionImportDialog: React.FC<QuestionImportDialogProps> = ({
+  open,
+  onOpenChange,
+  decks,
+  onImported,
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [deckId, setDeckId] = useState(NO_DECK);
+  const [progress, setProgress] = useState({ inserted: 0, total: 0 });
+  const [existingQuestionTexts, setExistingQuestionTexts] = useState<string[]>([]);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setStep('upload');
+    setFileName('');
+    setTable(null);
+    setMapping(null);
+    setSkipDuplicates(true);
+    setDeckId(NO_DECK);
+    setProgress({ inserted: 0, total: 0 });
+  }, [open]);
+
+  const rows = useMemo(
+    () => (table && mapping ? buildImportRows(table, mapping, existingQuestionTexts) : []),
+    [table, mapping, existingQuestionTexts]
+  );
+
+  const invalidCount = rows.filter((r) => !r.question).length;
+  const duplicateCount = rows.filter((r) => r.question && r.duplicate).length;
+  const toImport = rows
+    .filter((r) => r.question && !(skipDuplicates && r.duplicate))
+    .map((r) => r.question!);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsParsing(true);
+    try {
+      const [parsed, existing] = await Promise.all([parseImportFile(file), getLibraryQuestionTexts()]);
+      if (parsed.rows.length === 0) {
+        throw new Error('No questions found in this file.');
+      }
+
+      setExistingQuestionTexts(existing);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.columns));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not read file',
+        description: error instanceof Error ? error.message : 'The file could not be parsed.',
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || toImport.length === 0) return;
+
+    setStep('importing');
+    setProgress({ inserted: 0, total: toImport.length });
+
+    try {
+      await insertQuestionsInBatches(user.id, toImport, {
+        deckId: deckId === NO_DECK ? null : deckId,
+        onProgress: (inserted, total) => setProgress({ inserted, total }),
+      });
+      setStep('done');
+      onImported();
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Import stopped',
+        description: 'Some questions may have been imported. Check your library before retrying.',
+      });
+      onImported();
+      setStep('preview');
+    }
+  };
+
+  const getColumnSample = (column: string) => {
+    if (!table) return '';
+    const index = table.columns.indexOf(column);
+    return table.rows.find((row) => row[index]?.trim())?.[index] || '';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => step !== 'importing' && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-primary" />
+            Import Questions
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'CSV, JSON, or an Anki deck (.apkg or "Notes in Plain Text" export)'}
+            {step === 'map' && `Match the columns in ${fileName} to question fields`}
+            {step === 'preview' && 'Check the questions before they are added to your library'}
+            {step === 'importing' && 'Adding questions to your library...'}
+            {step === 'done' && 'Import complete'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-border rounded-xl p-10 cursor-pointer hover:bg-muted/30 transition-colors">
+            {isParsing ? (
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            ) : (
+              <FileUp className="w-8 h-8 text-muted-foreground" />
+            )}
+            <span className="text-sm text-muted-foreground">
+              {isParsing ? 'Reading file...' : 'Click to choose a file'}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.json,.txt,.tsv,.apkg"
+              className="hidden"
+              disabled={isParsing}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'map' && table && mapping && (
+          <div className="space-y-3">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.id} className="grid grid-cols-[140px_1fr] items-center gap-3">
+                <span className="text-sm font-medium text-foreground">
+                  {field.label}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </span>
+                <Select
+                  value={mapping[field.id] ?? NOT_MAPPED}
+                  onValueChange={(value) => setMapping({ ...mapping, [field.id]: value === NOT_MAPPED ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                    {table.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        <span>{column}</span>
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {getColumnSample(column).slice(0, 40)}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Difficulty must be easy, medium or hard; rows without one are imported as medium.
+            </p>
+            <div className="flex justify-between pt-2">
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                <ChevronLeft className="w-4 h-4 mr-1" /> Back
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={!mapping.question_text}>
+                Preview {table.rows.length} rows
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="glass rounded-xl p-3 text-center">
+                <p className="text-2xl font-bold text-neon-green">{rows.length - invalidCount - duplicateCount}</p>
+                <p className="text-xs text-muted-foreground">New</p>
+              </div>
+              <div className="glass rounded-xl p-3 text-center">
+                <p className="text-2xl font-bold text-warning">{duplicateCount}</p>
+                <p className="text-xs text-muted-foreground">Duplicates</p>
+              </div>
+              <div className="glass rounded-xl p-3 text-center">
+                <p className="text-2xl font-bold text-destructive">{invalidCount}</p>
+                <p className="text-xs text-muted-foreground">Invalid</p>
+              </div>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto rounded-xl border border-border divide-y divide-border">
+              {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                <div key={row.line} className="p-3 flex items-start gap-3 text-sm">
+                  <span className="text-xs text-muted-foreground font-mono w-10 shrink-0">#{row.line}</span>
+                  {row.question ? (
+                    <div className="flex-1 min-w-0">
+                      <p className={cn('text-foreground', row.duplicate && skipDuplicates && 'line-through opacity-60')}>
+                        {row.question.question_text}
+                      </p>
+                      <p className="text-xs text-muted-foreground capitalize">{row.question.difficulty}</p>
+                    </div>
+                  ) : (
+                    <p className="flex-1 text-destructive">{row.errors.join('; ')}</p>
+                  )}
+                  {row.duplicate && <Copy className="w-4 h-4 text-warning shrink-0" aria-label="Duplicate" />}
+                  {!row.question && <AlertTriangle className="w-4 h-4 text-destructive shrink-0" />}
+                </div>
+              ))}
+              {rows.length > PREVIEW_ROWS && (
+                <p className="p-3 text-xs text-muted-foreground text-center">
+                  and {rows.length - PREVIEW_ROWS} more rows
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <Checkbox checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(checked === true)} />
+                Skip duplicates
+              </label>
+              {decks.length > 0 && (
+                <Select value={deckId} onValueChange={setDeckId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DECK}>Don't add to a deck</SelectItem>
+                    {decks.map((deck) => (
+                      <SelectItem key={deck.id} value={deck.id}>Add to {deck.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('map')}>
+                <ChevronLeft className="w-4 h-4 mr-1" /> Back
+              </Button>
+              <Button onClick={handleImport} disabled={toImport.length === 0}>
+                Import {toImport.length} question{toImport.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress.total ? (progress.inserted / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground text-center">
+              {progress.inserted} of {progress.total} imported
+            </p>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="flex flex-col items-center gap-3 py-6">
+            <CheckCircle2 className="w-10 h-10 text-neon-green" />
+            <p className="text-foreground">
+              Imported {progress.inserted} question{progress.inserted === 1 ? '' : 's'}
+            </p>
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionImportDialog;
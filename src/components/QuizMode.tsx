@@ -1,9 +1,51 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAnswerRecorder } from '@/hooks/useAnswerRecorder';
+import { useCheatingDetection } from '@/hooks/useCheatingDetection';
+import { CheatingAlertCompact } from '@/components/CheatingAlert';
+import { gradeResponse, getAverageScore, type ResponseScores } from '@/lib/grading';
+import { getAutoRecordPreference, uploadAnswerAudio } from '@/lib/answerAudio';
+import { createSpeechTracker, toSpeechColumns } from '@/lib/speechMetrics';
+import {
+  createSpeechToText,
+  getSpeechToTextSettings,
+  DEFAULT_SPEECH_TO_TEXT_SETTINGS,
+  type SpeechToText,
+} from '@/lib/speechToText';
+import {
+  computeCategoryWeakness,
+  nextDifficulty,
+  selectNextQuestion,
+  type AnswerOutcome,
+  type CategoryWeakness,
+  type Difficulty,
+} from '@/lib/adaptiveQuiz';
+import {
+  abandonQuizSessions,
+  createQuizSession,
+  getCategoryScoreHistory,
+  getOpenQuizSessions,
+  getQuizQuestions,
+  getSavedQuizAnswers,
+  hasQuizProgress,
+  saveQuizProgress,
+  type OpenQuizSession,
+  type QuizProgress,
+} from '@/lib/quizSession';
+import type { LoopRoundLink } from '@/lib/interviewLoops';
+import { saveProctoringReport } from '@/lib/proctoring';
+import {
+  getDetectionOptions,
+  getEscalationNotice,
+  getProctoringPolicy,
+  getProctoringPolicyPreference,
+  getViolationWarning,
+  type ProctoringPolicyId,
+} from '@/lib/proctoringPolicies';
 import {
   RotateCcw,
   ChevronLeft,
@@ -19,35 +61,16 @@ import {
   Target,
   TrendingUp,
   StopCircle,
+  Star,
+  History,
+  Play,
+  Gauge,
+  ArrowRight,
+  Maximize,
+  Minimize,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-// Type declarations for Web Speech API
-interface SpeechRecognitionEvent extends Event {
-  results: SpeechRecognitionResultList;
-  resultIndex: number;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-}
-
-interface SpeechRecognitionInstance extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start: () => void;
-  stop: () => void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
-}
-
-declare global {
-  interface Window {
-    SpeechRecognition?: new () => SpeechRecognitionInstance;
-    webkitSpeechRecognition?: new () => SpeechRecognitionInstance;
-  }
-}
+import { formatDistanceToNow } from 'date-fns';
 
 interface Question {
   id: string;
@@ -69,6 +92,9 @@ interface QuizResponse {
   response: string;
   timeTaken: number;
   submitted: boolean;
+  responseId?: string;
+  scores?: ResponseScores;
+  isGrading?: boolean;
 }
 
 interface QuizModeProps {
@@ -76,13 +102,34 @@ interface QuizModeProps {
   categories: Category[];
   selectedCategory: string | null;
   difficultyFilter: 'all' | 'easy' | 'medium' | 'hard';
+  // Pick each question from the grade of the last answer instead of walking
+  // the filtered list; the difficulty filter sets the starting level
+  adaptive?: boolean;
+  // Set when the quiz is a round of an interview loop
+  loopRound?: LoopRoundLink;
+  // The quiz ends by itself once this much time has passed
+  timeLimitSeconds?: number;
+  // Replaces "New Quiz" on the results screen, e.g. to continue a loop
+  onFinished?: () => void;
+  // Set by a loop; otherwise the user's own policy applies
+  proctoringPolicy?: ProctoringPolicyId;
 }
 
+const ADAPTIVE_QUIZ_LENGTH = 10;
+
+// Elapsed time is saved this often on top of every answer, skip and move
+const PROGRESS_SAVE_INTERVAL_MS = 15000;
+
 export const QuizMode: React.FC<QuizModeProps> = ({
   questions,
   categories,
   selectedCategory,
   difficultyFilter,
+  adaptive = false,
+  loopRound,
+  timeLimitSeconds,
+  onFinished,
+  proctoringPolicy,
 }) => {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -97,13 +144,55 @@ export const QuizMode: React.FC<QuizModeProps> = ({
   const [quizComplete, setQuizComplete] = useState(false);
   const [showResults, setShowResults] = useState(false);
 
+  // Unfinished quizzes found on mount, offered for resuming
+  const [openSessions, setOpenSessions] = useState<OpenQuizSession[]>([]);
+  const [isCheckingSessions, setIsCheckingSessions] = useState(true);
+  const [isResuming, setIsResuming] = useState(false);
+  // The question order is fixed once the first question is answered or
+  // skipped, or when a quiz is resumed; until then it follows the filters
+  const [lockedQuestions, setLockedQuestions] = useState<Question[] | null>(null);
+
+  // Adaptive mode
+  const [isAdaptive, setIsAdaptive] = useState(adaptive);
+  const [targetDifficulty, setTargetDifficulty] = useState<Difficulty>(
+    difficultyFilter !== 'all' ? difficultyFilter : 'medium'
+  );
+  const [weakness, setWeakness] = useState<CategoryWeakness | null>(null);
+
   // Timer
   const [timeElapsed, setTimeElapsed] = useState(0);
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [questionStartTime, setQuestionStartTime] = useState(0);
 
   // Voice recognition
-  const [recognition, setRecognition] = useState<SpeechRecognitionInstance | null>(null);
+  const [recognition, setRecognition] = useState<SpeechToText | null>(null);
+  const speechTrackerRef = useRef(createSpeechTracker());
+
+  // Spoken answers are recorded when the user has auto-record turned on
+  const answerRecorder = useAnswerRecorder();
+  const [autoRecord, setAutoRecord] = useState(false);
+
+  // Integrity signals for typed answers, saved with the session at the end
+  const [policy, setPolicy] = useState(() => getProctoringPolicy(proctoringPolicy));
+  const {
+    metrics: integrityMetrics,
+    reportPaste,
+    reportTyping,
+    resetMetrics: resetIntegrityMetrics,
+    getEventLog: getIntegrityLog,
+  } = useCheatingDetection({
+    ...getDetectionOptions(policy),
+    onViolation: (event, violationCount) => {
+      const warning = getViolationWarning(policy, event, violationCount);
+      if (warning) toast({ variant: 'destructive', ...warning });
+    },
+    onEscalate: () => {
+      toast({ variant: 'destructive', ...getEscalationNotice(policy) });
+      if (policy.autoEnd && !quizComplete) completeQuizRef.current();
+    },
+  });
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const sessionStartedAtRef = useRef(new Date().toISOString());
 
   // Filter questions
   const filteredQuestions = questions.filter((q) => {
@@ -112,91 +201,272 @@ export const QuizMode: React.FC<QuizModeProps> = ({
     return true;
   });
 
-  const currentQuestion = filteredQuestions[currentIndex];
+  // Adaptive quizzes choose the difficulty themselves
+  const adaptivePool = useMemo(
+    () => questions.filter((q) => !selectedCategory || q.category_id === selectedCategory),
+    [questions, selectedCategory]
+  );
+
+  const quizQuestions = lockedQuestions || (isAdaptive ? [] : filteredQuestions);
+  const currentQuestion = quizQuestions[currentIndex];
+  const totalQuestions = isAdaptive
+    ? Math.max(quizQuestions.length, Math.min(ADAPTIVE_QUIZ_LENGTH, adaptivePool.length))
+    : quizQuestions.length;
+  const questionIdsKey = quizQuestions.map((q) => q.id).join(',');
+
+  const progressRef = useRef<QuizProgress | null>(null);
+  progressRef.current = {
+    questionIds: quizQuestions.map((q) => q.id),
+    currentIndex,
+    answeredCount: responses.filter((r) => r.submitted).length,
+    skipped: responses
+      .filter((r) => !r.submitted)
+      .map((r) => ({ questionId: r.questionId, timeTaken: r.timeTaken })),
+    elapsedSeconds: timeElapsed,
+    adaptive: isAdaptive ? { targetDifficulty } : undefined,
+  };
 
-  // Initialize session
+  // Keyed on the id so a token refresh doesn't re-run the session setup
+  const userId = user?.id;
+  // Fixed for the life of the quiz
+  const loopRoundRef = useRef(loopRound);
+
+  const startNewSession = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      sessionStartedAtRef.current = new Date().toISOString();
+      setSessionId(await createQuizSession(userId, progressRef.current, loopRoundRef.current));
+    } catch (error) {
+      console.error('Error creating session:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to start quiz session.',
+      });
+    }
+  }, [userId, toast]);
+
+  // Offer to resume an unfinished quiz instead of always starting over
   useEffect(() => {
-    const createSession = async () => {
-      if (!user) return;
+    if (!userId) {
+      setIsCheckingSessions(false);
+      return;
+    }
 
+    const checkOpenSessions = async () => {
       try {
-        const { data, error } = await supabase
-          .from('interview_sessions')
-          .insert({
-            user_id: user.id,
-            session_type: 'quiz',
-            status: 'in_progress',
-            started_at: new Date().toISOString(),
-          })
-          .select('id')
-          .single();
+        const sessions = await getOpenQuizSessions(userId, loopRoundRef.current);
+        // Quizzes closed before the first answer have nothing to resume
+        await abandonQuizSessions(sessions.filter((s) => !hasQuizProgress(s)));
 
-        if (error) throw error;
-        setSessionId(data.id);
+        const resumable = sessions.filter(hasQuizProgress);
+        if (resumable.length > 0) {
+          setOpenSessions(resumable);
+          return;
+        }
       } catch (error) {
-        console.error('Error creating session:', error);
-        toast({
-          variant: 'destructive',
-          title: 'Error',
-          description: 'Failed to start quiz session.',
-        });
+        console.error('Error loading unfinished quizzes:', error);
+      } finally {
+        setIsCheckingSessions(false);
       }
+
+      startNewSession();
     };
 
-    createSession();
-  }, [user, toast]);
+    checkOpenSessions();
+  }, [userId, startNewSession]);
 
-  // Initialize speech recognition
   useEffect(() => {
-    const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognitionAPI) {
-      const recognitionInstance = new SpeechRecognitionAPI();
-      recognitionInstance.continuous = true;
-      recognitionInstance.interimResults = true;
-      recognitionInstance.lang = 'en-US';
-
-      recognitionInstance.onresult = (event: SpeechRecognitionEvent) => {
-        let finalTranscript = '';
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          if (event.results[i].isFinal) {
-            finalTranscript += event.results[i][0].transcript + ' ';
-          }
-        }
-        if (finalTranscript) {
-          setUserResponse((prev) => prev + finalTranscript);
-        }
-      };
+    if (!isAdaptive) return;
+    if (!userId) {
+      setWeakness({});
+      return;
+    }
 
-      recognitionInstance.onerror = (event: SpeechRecognitionErrorEvent) => {
-        console.error('Speech recognition error:', event.error);
-        setIsRecording(false);
-      };
+    getCategoryScoreHistory(userId)
+      .then((scores) => setWeakness(computeCategoryWeakness(scores)))
+      .catch((error) => {
+        console.error('Error loading category scores:', error);
+        setWeakness({});
+      });
+  }, [isAdaptive, userId]);
 
-      setRecognition(recognitionInstance);
+  // Adaptive quizzes start from the weakest categories at the starting level
+  useEffect(() => {
+    if (!isAdaptive || !sessionId || lockedQuestions || !weakness) return;
+
+    const first = selectNextQuestion({ pool: adaptivePool, history: [], targetDifficulty, weakness });
+    if (first) setLockedQuestions([first]);
+  }, [isAdaptive, sessionId, lockedQuestions, weakness, adaptivePool, targetDifficulty]);
+
+  const resumeSession = async (session: OpenQuizSession) => {
+    setIsResuming(true);
+    try {
+      const { progress } = session;
+      const [savedQuestions, savedAnswers] = await Promise.all([
+        getQuizQuestions(progress.questionIds),
+        getSavedQuizAnswers(session.id),
+      ]);
+
+      // Questions removed since the quiz started shift the saved position
+      const currentId = progress.questionIds[progress.currentIndex];
+      const index = savedQuestions.findIndex((q) => q.id === currentId);
+
+      setLockedQuestions(savedQuestions);
+      setIsAdaptive(!!progress.adaptive);
+      if (progress.adaptive) setTargetDifficulty(progress.adaptive.targetDifficulty);
+      setResponses([
+        ...savedAnswers.map((answer) => ({ ...answer, submitted: true, scores: answer.scores || undefined })),
+        ...progress.skipped.map((skip) => ({ ...skip, response: '', submitted: false })),
+      ]);
+      setCurrentIndex(index >= 0 ? index : Math.min(progress.currentIndex, Math.max(savedQuestions.length - 1, 0)));
+      setTimeElapsed(progress.elapsedSeconds);
+      setQuestionStartTime(progress.elapsedSeconds);
+      sessionStartedAtRef.current = session.startedAt;
+      setSessionId(session.id);
+      setOpenSessions([]);
+
+      // Only one quiz stays open
+      await abandonQuizSessions(openSessions.filter((s) => s.id !== session.id));
+    } catch (error) {
+      console.error('Error resuming quiz:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to resume your quiz.',
+      });
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  const abandonAndStartNew = async () => {
+    setIsResuming(true);
+    try {
+      await abandonQuizSessions(openSessions);
+      setOpenSessions([]);
+      await startNewSession();
+    } catch (error) {
+      console.error('Error abandoning quiz:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to close your unfinished quiz.',
+      });
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  // Only what happens once the quiz is running counts
+  useEffect(() => {
+    if (sessionId) resetIntegrityMetrics();
+  }, [sessionId, resetIntegrityMetrics]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    const request = document.fullscreenElement
+      ? document.exitFullscreen()
+      : document.documentElement.requestFullscreen();
+    request.catch((error) => console.error('Error toggling full screen:', error));
+  };
+
+  const handleResponseChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    // Pastes are reported on their own; everything else counts as typing
+    const inserted = e.target.value.length - userResponse.length;
+    if ((e.nativeEvent as InputEvent).inputType !== 'insertFromPaste') reportTyping(inserted);
+    setUserResponse(e.target.value);
+  };
+
+  const persistProgress = useCallback(() => {
+    if (!sessionId || !progressRef.current) return;
+
+    saveQuizProgress(sessionId, progressRef.current).catch((error) => {
+      console.error('Error saving quiz progress:', error);
+    });
+  }, [sessionId]);
+
+  // Save on every move, answer or skip, and periodically for the timer
+  useEffect(() => {
+    if (!quizComplete) persistProgress();
+  }, [persistProgress, quizComplete, currentIndex, responses.length, questionIdsKey]);
+
+  useEffect(() => {
+    if (!sessionId || quizComplete) return;
+
+    const interval = setInterval(persistProgress, PROGRESS_SAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [sessionId, quizComplete, persistProgress]);
+
+  useEffect(() => {
+    if (!user) return;
+    getAutoRecordPreference(user.id).then(setAutoRecord);
+  }, [user]);
+
+  useEffect(() => {
+    if (proctoringPolicy) {
+      setPolicy(getProctoringPolicy(proctoringPolicy));
+    } else if (user) {
+      getProctoringPolicyPreference(user.id).then(setPolicy);
     }
+  }, [user, proctoringPolicy]);
+
+  // Initialize speech recognition with the user's chosen backend and language
+  useEffect(() => {
+    let recognitionInstance: SpeechToText | null = null;
+    let cancelled = false;
+
+    const init = async () => {
+      const settings = user ? await getSpeechToTextSettings(user.id) : DEFAULT_SPEECH_TO_TEXT_SETTINGS;
+      if (cancelled) return;
+
+      recognitionInstance = createSpeechToText(settings.provider, {
+        lang: settings.lang,
+        onResult: ({ transcript, isFinal }) => {
+          speechTrackerRef.current.recordActivity();
+          if (isFinal) {
+            setUserResponse((prev) => prev + transcript.trim() + ' ');
+          }
+        },
+        onError: (error) => {
+          console.error('Speech recognition error:', error);
+          setIsRecording(false);
+        },
+      });
+
+      setRecognition(recognitionInstance);
+    };
+
+    init();
 
     return () => {
-      if (recognition) {
-        recognition.stop();
-      }
+      cancelled = true;
+      recognitionInstance?.release();
     };
-  }, []);
+  }, [user]);
 
   // Timer logic
   useEffect(() => {
     let interval: NodeJS.Timeout;
 
-    if (isTimerRunning) {
+    if (isTimerRunning && sessionId) {
       interval = setInterval(() => {
         setTimeElapsed((prev) => prev + 1);
       }, 1000);
     }
 
     return () => clearInterval(interval);
-  }, [isTimerRunning]);
+  }, [isTimerRunning, sessionId]);
 
   // Start timer when question changes
   useEffect(() => {
+    speechTrackerRef.current.reset();
     setQuestionStartTime(timeElapsed);
     setIsTimerRunning(true);
   }, [currentIndex]);
@@ -217,6 +487,47 @@ export const QuizMode: React.FC<QuizModeProps> = ({
     } else {
       recognition.start();
       setIsRecording(true);
+      if (autoRecord) {
+        answerRecorder.start();
+      }
+    }
+  };
+
+  const toOutcome = (response: QuizResponse): AnswerOutcome => {
+    const question = quizQuestions.find((q) => q.id === response.questionId);
+    return {
+      questionId: response.questionId,
+      categoryId: question?.category_id || null,
+      difficulty: question?.difficulty || 'medium',
+      score: getAverageScore(response.scores),
+      skipped: !response.submitted,
+    };
+  };
+
+  // Step the difficulty from the answer just given and pick the next question
+  const advanceAdaptive = (outcome: AnswerOutcome) => {
+    const nextTarget = nextDifficulty(targetDifficulty, outcome);
+    const next = currentIndex + 1 < ADAPTIVE_QUIZ_LENGTH
+      ? selectNextQuestion({
+          pool: adaptivePool,
+          history: [...responses.map(toOutcome), outcome],
+          targetDifficulty: nextTarget,
+          weakness: weakness || {},
+        })
+      : null;
+
+    setTargetDifficulty(nextTarget);
+    if (!next) {
+      completeQuiz();
+      return;
+    }
+
+    setLockedQuestions([...quizQuestions, next]);
+    setCurrentIndex((prev) => prev + 1);
+    setUserResponse('');
+    if (isRecording && recognition) {
+      recognition.stop();
+      setIsRecording(false);
     }
   };
 
@@ -231,17 +542,27 @@ export const QuizMode: React.FC<QuizModeProps> = ({
     }
 
     setIsSubmitting(true);
+    setLockedQuestions(quizQuestions);
     const timeTaken = timeElapsed - questionStartTime;
+    const audio = answerRecorder.stop();
 
     try {
       // Save to database
-      const { error } = await supabase.from('interview_responses').insert({
-        session_id: sessionId,
-        question_id: currentQuestion.id,
-        question_text: currentQuestion.question_text,
-        response_text: userResponse.trim(),
-        duration_seconds: timeTaken,
-      });
+      const { data, error } = await supabase
+        .from('interview_responses')
+        .insert({
+          session_id: sessionId,
+          question_id: currentQuestion.id,
+          question_text: currentQuestion.question_text,
+          response_text: userResponse.trim(),
+          duration_seconds: timeTaken,
+          // Typed answers have no delivery to measure
+          ...(speechTrackerRef.current.hasActivity()
+            ? toSpeechColumns(speechTrackerRef.current.getMetrics(userResponse.trim()))
+            : {}),
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
@@ -253,16 +574,49 @@ export const QuizMode: React.FC<QuizModeProps> = ({
           response: userResponse.trim(),
           timeTaken,
           submitted: true,
+          responseId: data.id,
+          isGrading: true,
         },
       ]);
 
+      audio
+        .then((blob) => blob && user && uploadAnswerAudio(user.id, data.id, blob))
+        .catch((uploadError) => {
+          console.error('Failed to upload answer audio:', uploadError);
+        });
+
+      // Grade in the background so the user can move on immediately
+      const grading = gradeResponse(data.id)
+        .then((scores) => {
+          setResponses((prev) =>
+            prev.map((r) => (r.responseId === data.id ? { ...r, scores, isGrading: false } : r))
+          );
+          return scores;
+        })
+        .catch((gradeError) => {
+          console.error('Error grading response:', gradeError);
+          setResponses((prev) =>
+            prev.map((r) => (r.responseId === data.id ? { ...r, isGrading: false } : r))
+          );
+          return null;
+        });
+
       toast({
         title: 'Response Saved',
-        description: 'Moving to next question...',
+        description: isAdaptive ? 'Grading to pick your next question...' : 'Moving to next question...',
       });
 
-      // Move to next question
-      if (currentIndex < filteredQuestions.length - 1) {
+      // Move to next question. Adaptive quizzes need the grade first.
+      if (isAdaptive) {
+        const scores = await grading;
+        advanceAdaptive({
+          questionId: currentQuestion.id,
+          categoryId: currentQuestion.category_id,
+          difficulty: currentQuestion.difficulty,
+          score: getAverageScore(scores),
+          skipped: false,
+        });
+      } else if (currentIndex < quizQuestions.length - 1) {
         setCurrentIndex((prev) => prev + 1);
         setUserResponse('');
         if (isRecording && recognition) {
@@ -285,6 +639,8 @@ export const QuizMode: React.FC<QuizModeProps> = ({
   };
 
   const skipQuestion = () => {
+    answerRecorder.stop();
+    setLockedQuestions(quizQuestions);
     setResponses((prev) => [
       ...prev,
       {
@@ -295,7 +651,15 @@ export const QuizMode: React.FC<QuizModeProps> = ({
       },
     ]);
 
-    if (currentIndex < filteredQuestions.length - 1) {
+    if (isAdaptive && currentQuestion) {
+      advanceAdaptive({
+        questionId: currentQuestion.id,
+        categoryId: currentQuestion.category_id,
+        difficulty: currentQuestion.difficulty,
+        score: null,
+        skipped: true,
+      });
+    } else if (currentIndex < quizQuestions.length - 1) {
       setCurrentIndex((prev) => prev + 1);
       setUserResponse('');
     } else {
@@ -308,10 +672,20 @@ export const QuizMode: React.FC<QuizModeProps> = ({
       recognition.stop();
       setIsRecording(false);
     }
+    answerRecorder.release();
+    const integrityLog = getIntegrityLog();
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
     
     setIsTimerRunning(false);
     setQuizComplete(true);
 
+    if (sessionId && user) {
+      saveProctoringReport(sessionId, user.id, sessionStartedAtRef.current, timeElapsed, integrityLog, policy)
+        .catch((error) => console.error('Failed to save proctoring report:', error));
+    }
+
     if (sessionId) {
       try {
         const { error } = await supabase
@@ -342,6 +716,39 @@ export const QuizMode: React.FC<QuizModeProps> = ({
     }
   };
 
+  // Time-boxed quizzes end on their own
+  const isTimeUp = !!timeLimitSeconds && timeElapsed >= timeLimitSeconds;
+  const completeQuizRef = useRef(completeQuiz);
+  completeQuizRef.current = completeQuiz;
+
+  useEffect(() => {
+    if (!isTimeUp || quizComplete || !sessionId) return;
+
+    toast({ title: "Time's up", description: 'This round has ended.' });
+    completeQuizRef.current();
+  }, [isTimeUp, quizComplete, sessionId, toast]);
+
+  // Once every answer has been graded, store the average as the session score
+  const isGradingPending = responses.some((r) => r.isGrading);
+  const gradedScores = responses
+    .map((r) => getAverageScore(r.scores))
+    .filter((score): score is number => score !== null);
+  const sessionScore = gradedScores.length > 0
+    ? Math.round((gradedScores.reduce((a, b) => a + b, 0) / gradedScores.length) * 10) / 10
+    : null;
+
+  useEffect(() => {
+    if (!quizComplete || isGradingPending || !sessionId || sessionScore === null) return;
+
+    supabase
+      .from('interview_sessions')
+      .update({ overall_score: sessionScore })
+      .eq('id', sessionId)
+      .then(({ error }) => {
+        if (error) console.error('Error saving session score:', error);
+      });
+  }, [quizComplete, isGradingPending, sessionId, sessionScore]);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -361,6 +768,12 @@ export const QuizMode: React.FC<QuizModeProps> = ({
     }
   };
 
+  const getScoreColor = (score: number) => {
+    if (score >= 8) return 'text-neon-green';
+    if (score >= 6) return 'text-warning';
+    return 'text-destructive';
+  };
+
   const getCategoryName = (categoryId: string | null) => {
     if (!categoryId) return 'General';
     const category = categories.find((c) => c.id === categoryId);
@@ -404,7 +817,25 @@ export const QuizMode: React.FC<QuizModeProps> = ({
             </div>
           </div>
 
-          <div className="glass rounded-xl p-4 mb-6">
+          <div className="glass rounded-xl p-4 mb-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground flex items-center gap-2">
+                <Star className="w-4 h-4 text-neon-purple" />
+                Average answer score
+              </span>
+              {isGradingPending ? (
+                <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Grading...
+                </span>
+              ) : sessionScore !== null ? (
+                <span className={cn('font-mono font-bold', getScoreColor(sessionScore))}>
+                  {sessionScore.toFixed(1)}/10
+                </span>
+              ) : (
+                <span className="text-sm text-muted-foreground">Not graded</span>
+              )}
+            </div>
             <div className="flex items-center justify-between">
               <span className="text-muted-foreground">Average per question</span>
               <span className="font-mono text-foreground">{formatTime(avgTime)}</span>
@@ -420,19 +851,31 @@ export const QuizMode: React.FC<QuizModeProps> = ({
               <TrendingUp className="w-4 h-4 mr-2" />
               {showResults ? 'Hide' : 'View'} Responses
             </Button>
-            <Button
-              className="flex-1"
-              onClick={() => window.location.reload()}
-            >
-              <RotateCcw className="w-4 h-4 mr-2" />
-              New Quiz
-            </Button>
+            {onFinished ? (
+              // The round's score has to be saved before moving on
+              <Button className="flex-1" disabled={isGradingPending} onClick={onFinished}>
+                {isGradingPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <ArrowRight className="w-4 h-4 mr-2" />
+                )}
+                Continue
+              </Button>
+            ) : (
+              <Button
+                className="flex-1"
+                onClick={() => window.location.reload()}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                New Quiz
+              </Button>
+            )}
           </div>
 
           {showResults && (
             <div className="mt-6 space-y-4 text-left max-h-64 overflow-y-auto">
               {responses.map((r, idx) => {
-                const q = filteredQuestions.find((fq) => fq.id === r.questionId);
+                const q = quizQuestions.find((fq) => fq.id === r.questionId);
                 return (
                   <div key={idx} className="glass rounded-xl p-4">
                     <p className="text-sm font-medium text-foreground mb-2 line-clamp-2">
@@ -443,6 +886,33 @@ export const QuizMode: React.FC<QuizModeProps> = ({
                     ) : (
                       <p className="text-sm text-warning italic">Skipped</p>
                     )}
+                    {r.isGrading && (
+                      <p className="flex items-center gap-2 text-xs text-muted-foreground mt-3">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Grading answer...
+                      </p>
+                    )}
+                    {r.scores && (
+                      <div className="mt-3 space-y-2">
+                        <div className="grid grid-cols-3 gap-2">
+                          {([
+                            ['Clarity', r.scores.clarity_score],
+                            ['Confidence', r.scores.confidence_score],
+                            ['Relevance', r.scores.relevance_score],
+                          ] as const).map(([label, score]) => (
+                            <div key={label} className="rounded-lg bg-muted/50 px-2 py-1 text-center">
+                              <p className={cn('text-sm font-mono font-bold', score !== null && getScoreColor(Number(score)))}>
+                                {score !== null ? Number(score).toFixed(1) : '-'}
+                              </p>
+                              <p className="text-[10px] text-muted-foreground">{label}</p>
+                            </div>
+                          ))}
+                        </div>
+                        {r.scores.ai_feedback && (
+                          <p className="text-xs text-muted-foreground">{r.scores.ai_feedback}</p>
+                        )}
+                      </div>
+                    )}
                     <p className="text-xs text-muted-foreground mt-2">
                       Time: {formatTime(r.timeTaken)}
                     </p>
@@ -456,7 +926,82 @@ export const QuizMode: React.FC<QuizModeProps> = ({
     );
   }
 
-  if (filteredQuestions.length === 0) {
+  if (isCheckingSessions) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (openSessions.length > 0) {
+    const [latest] = openSessions;
+    const total = latest.progress.questionIds.length;
+
+    return (
+      <div className="h-full flex items-center justify-center animate-fade-in">
+        <div className="glass rounded-2xl p-8 max-w-lg w-full text-center">
+          <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-primary to-neon-purple flex items-center justify-center mx-auto mb-6">
+            <History className="w-8 h-8 text-primary-foreground" />
+          </div>
+
+          <h2 className="text-2xl font-bold text-foreground mb-2">Unfinished Quiz</h2>
+          <p className="text-muted-foreground mb-6">
+            You left a quiz {formatDistanceToNow(new Date(latest.lastActivityAt), { addSuffix: true })}.
+            Pick up where you stopped or abandon it and start fresh.
+          </p>
+
+          <div className="glass rounded-xl p-4 mb-6 space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Progress</span>
+              <span className="text-foreground">
+                Question {Math.min(latest.progress.currentIndex + 1, total)} of {total}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Answered</span>
+              <span className="font-mono text-foreground">{latest.progress.answeredCount}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Skipped</span>
+              <span className="font-mono text-foreground">{latest.progress.skipped.length}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Time spent</span>
+              <span className="font-mono text-foreground">{formatTime(latest.progress.elapsedSeconds)}</span>
+            </div>
+          </div>
+
+          {openSessions.length > 1 && (
+            <p className="text-xs text-muted-foreground mb-4">
+              {openSessions.length - 1} older unfinished quiz{openSessions.length > 2 ? 'zes' : ''} will be closed.
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <Button variant="glass" className="flex-1" disabled={isResuming} onClick={abandonAndStartNew}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Abandon & Start New
+            </Button>
+            <Button className="flex-1" disabled={isResuming} onClick={() => resumeSession(latest)}>
+              {isResuming ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Resume
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isAdaptive && !lockedQuestions && adaptivePool.length > 0) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (quizQuestions.length === 0) {
     return (
       <div className="h-full flex items-center justify-center">
         <div className="glass rounded-2xl p-8 text-center">
@@ -473,8 +1018,14 @@ export const QuizMode: React.FC<QuizModeProps> = ({
         <div className="flex items-center gap-4">
           <div className="glass rounded-xl px-4 py-2 flex items-center gap-2">
             <Timer className="w-4 h-4 text-primary" />
-            <span className="font-mono text-lg font-bold text-foreground">
-              {formatTime(timeElapsed)}
+            <span
+              className={cn(
+                'font-mono text-lg font-bold text-foreground',
+                timeLimitSeconds && timeLimitSeconds - timeElapsed <= 60 && 'text-destructive'
+              )}
+              title={timeLimitSeconds ? 'Time left in this round' : undefined}
+            >
+              {formatTime(timeLimitSeconds ? Math.max(timeLimitSeconds - timeElapsed, 0) : timeElapsed)}
             </span>
           </div>
 
@@ -488,12 +1039,29 @@ export const QuizMode: React.FC<QuizModeProps> = ({
               <span className="font-mono text-foreground">{skippedCount}</span>
             </div>
           </div>
+
+          {isAdaptive && (
+            <div className="glass rounded-xl px-4 py-2 flex items-center gap-2" title="Difficulty adjusts to your last answer">
+              <Gauge className="w-4 h-4 text-neon-purple" />
+              <span className="text-sm text-foreground">Adaptive</span>
+            </div>
+          )}
+
+          {policy.showAlerts && <CheatingAlertCompact metrics={integrityMetrics} />}
         </div>
 
         <div className="flex items-center gap-4">
           <div className="text-sm text-muted-foreground">
-            Question {currentIndex + 1} of {filteredQuestions.length}
+            Question {currentIndex + 1} of {totalQuestions}
           </div>
+          <Button
+            variant="glass"
+            size="sm"
+            onClick={toggleFullscreen}
+            title={isFullscreen ? 'Exit full screen' : 'Full screen'}
+          >
+            {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+          </Button>
           <Button
             variant="destructive"
             size="sm"
@@ -510,7 +1078,7 @@ export const QuizMode: React.FC<QuizModeProps> = ({
         <div className="h-2 bg-muted rounded-full overflow-hidden">
           <div
             className="h-full bg-gradient-to-r from-primary to-neon-purple transition-all duration-300"
-            style={{ width: `${((currentIndex + 1) / filteredQuestions.length) * 100}%` }}
+            style={{ width: `${((currentIndex + 1) / totalQuestions) * 100}%` }}
           />
         </div>
       </div>
@@ -563,7 +1131,8 @@ export const QuizMode: React.FC<QuizModeProps> = ({
 
           <Textarea
             value={userResponse}
-            onChange={(e) => setUserResponse(e.target.value)}
+            onChange={handleResponseChange}
+            onPaste={(e) => reportPaste(e.clipboardData.getData('text').length)}
             placeholder="Type or speak your answer here..."
             className="flex-1 min-h-[150px] resize-none bg-background/50 border-border/50"
           />
@@ -575,7 +1144,7 @@ export const QuizMode: React.FC<QuizModeProps> = ({
             </Button>
 
             <div className="flex items-center gap-3">
-              {currentIndex > 0 && (
+              {currentIndex > 0 && !isAdaptive && (
                 <Button
                   variant="glass"
                   onClick={() => {
@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  RESUME_FILE_TYPES,
+  deleteResume,
+  extractResumeText,
+  getResume,
+  parseResumeText,
+  saveResume,
+  setResumeInterviewUse,
+  type Resume,
+} from '@/lib/resume';
+import { FileText, Upload, Loader2, Trash2, Quote } from 'lucide-react';
+import { format } from 'date-fns';
+
+type UploadStage = 'reading' | 'parsing' | null;
+
+export const ResumeSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [resume, setResume] = useState<Resume | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [uploadStage, setUploadStage] = useState<UploadStage>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getResume(user.id)
+      .then(setResume)
+      .catch((error) => console.error('Error loading resume:', error))
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file || !user) return;
+
+    try {
+      setUploadStage('reading');
+      const text = await extractResumeText(file);
+
+      setUploadStage('parsing');
+      const parsed = await parseResumeText(text);
+      setResume(await saveResume(user.id, file.name, text, parsed));
+
+      toast({
+        title: 'Resume parsed',
+        description: `Found ${parsed.roles.length} roles and ${parsed.claims.length} claims to practice.`,
+      });
+    } catch (error) {
+      console.error('Error uploading resume:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not read resume',
+        description: error instanceof Error ? error.message : 'Please try another file.',
+      });
+    } finally {
+      setUploadStage(null);
+    }
+  };
+
+  const handleToggleInterviewUse = async (enabled: boolean) => {
+    if (!user || !resume) return;
+
+    setResume({ ...resume, use_in_interviews: enabled });
+    try {
+      await setResumeInterviewUse(user.id, enabled);
+    } catch (error) {
+      console.error('Error updating resume setting:', error);
+      setResume({ ...resume, use_in_interviews: !enabled });
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the setting.' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user) return;
+
+    try {
+      await deleteResume(user.id);
+      setResume(null);
+      toast({ title: 'Resume deleted' });
+    } catch (error) {
+      console.error('Error deleting resume:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to delete your resume.' });
+    }
+  };
+
+  return (
+    <Card className="glass border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-primary" />
+          Resume
+        </CardTitle>
+        <CardDescription>
+          Let the voice interviewer ask about your actual experience
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                {resume ? (
+                  <>
+                    <p className="font-medium text-foreground">{resume.file_name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Parsed {format(new Date(resume.parsed_at), 'MMM d, yyyy')}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">PDF, Word (.docx) or plain text, up to 5 MB</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploadStage !== null}
+                >
+                  {uploadStage ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  {uploadStage === 'reading' && 'Reading...'}
+                  {uploadStage === 'parsing' && 'Analyzing...'}
+                  {!uploadStage && (resume ? 'Replace' : 'Upload Resume')}
+                </Button>
+                {resume && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="text-destructive" title="Delete resume">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete your resume?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The file text and everything parsed from it are removed. Interviews go back to general questions.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={RESUME_FILE_TYPES}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleUpload(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+            </div>
+
+            {resume && (
+              <>
+                <Separator className="bg-border/50" />
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Use in Interviews</p>
+                    <p className="text-sm text-muted-foreground">
+                      Share these facts with the AI interviewer so it can probe specific bullets
+                    </p>
+                  </div>
+                  <Switch checked={resume.use_in_interviews} onCheckedChange={handleToggleInterviewUse} />
+                </div>
+
+                <Separator className="bg-border/50" />
+
+                <div className="space-y-4">
+                  {resume.parsed.summary && (
+                    <p className="text-sm text-foreground">{resume.parsed.summary}</p>
+                  )}
+
+                  {resume.parsed.roles.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">ROLES</p>
+                      {resume.parsed.roles.map((role, i) => (
+                        <div key={i} className="text-sm">
+                          <span className="text-foreground font-medium">{role.title}</span>
+                          <span className="text-muted-foreground"> · {role.company}</span>
+                          {role.dates && <span className="text-xs text-muted-foreground"> ({role.dates})</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {resume.parsed.projects.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">PROJECTS</p>
+                      {resume.parsed.projects.map((project, i) => (
+                        <p key={i} className="text-sm">
+                          <span className="text-foreground font-medium">{project.name}</span>
+                          <span className="text-muted-foreground"> · {project.description}</span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {resume.parsed.claims.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">CLAIMS THE INTERVIEWER MAY PROBE</p>
+                      {resume.parsed.claims.map((claim, i) => (
+                        <div key={i} className="flex items-start gap-2 text-sm">
+                          <Quote className="w-3 h-3 text-primary mt-1 shrink-0" />
+                          <span className="text-foreground">
+                            {claim.claim}
+                            {claim.context && <span className="text-muted-foreground"> · {claim.context}</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {resume.parsed.skills.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {resume.parsed.skills.map((skill) => (
+                        <Badge key={skill} variant="outline">{skill}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResumeSettings;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { Gauge, MessageCircle, Pause, HelpCircle } from 'lucide-react';
+import { TARGET_WPM, type SpeechMetrics } from '@/lib/speechMetrics';
+
+interface SpeechCoachProps {
+  metrics: SpeechMetrics | null;
+  isListening: boolean;
+}
+
+const getPaceStatus = (wpm: number | null): { label: string; color: string } => {
+  if (wpm === null) return { label: 'Listening', color: 'text-muted-foreground' };
+  if (wpm < TARGET_WPM.min) return { label: 'Slow', color: 'text-warning' };
+  if (wpm > TARGET_WPM.max) return { label: 'Fast', color: 'text-warning' };
+  return { label: 'Good pace', color: 'text-neon-green' };
+};
+
+const Stat = ({
+  label,
+  value,
+  icon: Icon,
+  warn,
+}: {
+  label: string;
+  value: number | string;
+  icon: React.ElementType;
+  warn: boolean;
+}) => (
+  <div className={cn(
+    'flex items-center gap-1.5 px-2 py-1 rounded-lg border text-xs',
+    warn
+      ? 'text-warning bg-warning/10 border-warning/20'
+      : 'text-neon-green bg-neon-green/10 border-neon-green/20'
+  )}>
+    <Icon className="w-3 h-3" />
+    <span>{value} {label}</span>
+  </div>
+);
+
+// Live speech delivery for the answer in progress
+export const SpeechCoach: React.FC<SpeechCoachProps> = ({ metrics, isListening }) => {
+  if (!metrics || metrics.wordCount === 0) {
+    return (
+      <div className="glass rounded-xl p-3 flex items-center gap-2">
+        <Gauge className="w-4 h-4 text-muted-foreground" />
+        <p className="text-xs text-muted-foreground">
+          {isListening ? 'Speech analysis starts when you answer' : 'Speech analysis is paused'}
+        </p>
+      </div>
+    );
+  }
+
+  const pace = getPaceStatus(metrics.wordsPerMinute);
+  const topFiller = Object.entries(metrics.fillers).sort((a, b) => b[1] - a[1])[0];
+
+  return (
+    <div className="glass rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-xs font-medium text-foreground">Speech</span>
+          <p className={cn('text-xs', pace.color)}>{pace.label}</p>
+        </div>
+        <div className="text-right">
+          <span className={cn('font-mono text-lg font-bold', pace.color)}>
+            {metrics.wordsPerMinute !== null ? Math.round(metrics.wordsPerMinute) : '--'}
+          </span>
+          <span className="text-xs text-muted-foreground ml-1">wpm</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        <Stat label="fillers" value={metrics.fillerCount} icon={MessageCircle} warn={metrics.fillerCount > 2} />
+        <Stat label="pauses" value={metrics.longPauseCount ?? 0} icon={Pause} warn={(metrics.longPauseCount ?? 0) > 1} />
+        <Stat label="hedges" value={metrics.hedgeCount} icon={HelpCircle} warn={metrics.hedgeCount > 2} />
+      </div>
+
+      {topFiller && topFiller[1] > 1 && (
+        <p className="text-xs text-warning">Watch out for "{topFiller[0]}" ({topFiller[1]}x)</p>
+      )}
+    </div>
+  );
+};
+
+export default SpeechCoach;
@@ -5,8 +5,10 @@ import { Button } from '@/components/ui/button';
 import {
   LayoutDashboard,
   BookOpen,
+  Briefcase,
   Mic,
   Video,
+  Repeat,
   Calendar,
   BarChart3,
   History,
@@ -26,8 +28,10 @@ interface SidebarProps {
 const navItems = [
   { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
   { icon: BookOpen, label: 'Question Library', path: '/questions' },
+  { icon: Briefcase, label: 'Job Targets', path: '/job-targets' },
   { icon: Mic, label: 'Practice Mode', path: '/practice' },
   { icon: Video, label: 'Voice Interview', path: '/voice-interview' },
+  { icon: Repeat, label: 'Interview Loops', path: '/loops' },
   { icon: Calendar, label: 'Mock Sessions', path: '/mock-sessions' },
   { icon: BarChart3, label: 'Performance', path: '/performance' },
   { icon: History, label: 'Activity History', path: '/activity' },
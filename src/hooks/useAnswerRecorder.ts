@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+const getSupportedMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+};
+
+// A recorder and the chunks it has produced. Each answer gets its own, so a
+// late chunk from the previous answer can't end up in the next upload.
+interface Recording {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+}
+
+// Records one answer at a time from its own microphone stream, so it works
+// whether or not the camera is on. The stream is opened on the first start()
+// and kept until release() or unmount.
+export const useAnswerRecorder = () => {
+  const [isRecording, setIsRecording] = useState(false);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+
+  const isSupported = typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia;
+
+  const start = useCallback(async () => {
+    if (!isSupported || recordingRef.current?.recorder.state === 'recording') return;
+
+    try {
+      if (!streamRef.current) {
+        streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+
+      const mimeType = getSupportedMimeType();
+      const recorder = new MediaRecorder(streamRef.current, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+
+      recorder.start(1000);
+      recordingRef.current = { recorder, chunks };
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Failed to start answer recording:', error);
+    }
+  }, [isSupported]);
+
+  // Stop the current recording and resolve with the captured audio
+  const stop = useCallback((): Promise<Blob | null> => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    if (!recording || recording.recorder.state === 'inactive') {
+      return Promise.resolve(null);
+    }
+
+    const { recorder, chunks } = recording;
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }) : null);
+      };
+      recorder.stop();
+    });
+  }, []);
+
+  const release = useCallback(() => {
+    const recorder = recordingRef.current?.recorder;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => release();
+  }, [release]);
+
+  return {
+    isSupported,
+    isRecording,
+    start,
+    stop,
+    release,
+  };
+};
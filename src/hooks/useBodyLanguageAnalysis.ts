@@ -1,4 +1,6 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
+import { useGazeTracking } from '@/hooks/useGazeTracking';
+import { getEyeContactScore, type GazeCalibration } from '@/lib/gaze';
 
 export interface BodyLanguageMetrics {
   postureScore: number; // 0-100
@@ -21,6 +23,15 @@ interface PoseResults {
   poseLandmarks?: LandmarkPoint[];
 }
 
+interface UseBodyLanguageAnalysisOptions {
+  // The user's gaze calibration; eye contact is estimated without one
+  gazeCalibration?: GazeCalibration | null;
+}
+
+// Gaze arrives a few times a second; older than this and the pose
+// estimate is used instead
+const GAZE_STALE_MS = 1000;
+
 // Helper to safely get visibility with default
 const getVisibility = (landmark: LandmarkPoint | undefined): number => {
   return landmark?.visibility ?? 0;
@@ -39,7 +50,11 @@ const LANDMARKS = {
   RIGHT_HIP: 24,
 };
 
-export const useBodyLanguageAnalysis = (videoElement: HTMLVideoElement | null) => {
+export const useBodyLanguageAnalysis = (
+  videoElement: HTMLVideoElement | null,
+  options: UseBodyLanguageAnalysisOptions = {}
+) => {
+  const { gazeCalibration = null } = options;
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [metrics, setMetrics] = useState<BodyLanguageMetrics>({
     postureScore: 100,
@@ -62,6 +77,23 @@ export const useBodyLanguageAnalysis = (videoElement: HTMLVideoElement | null) =
   const slouchCountRef = useRef(0);
   const nervousMovementCountRef = useRef(0);
 
+  // Eye contact from iris landmarks and head pose, which the pose model
+  // can't see. Pose only knows where the nose is.
+  const videoRef = useRef(videoElement);
+  videoRef.current = videoElement;
+  const gazeScoreRef = useRef<{ score: number; at: number } | null>(null);
+  const gazeCalibrationRef = useRef(gazeCalibration);
+  gazeCalibrationRef.current = gazeCalibration;
+
+  useGazeTracking(videoRef, {
+    enabled: isAnalyzing,
+    onSample: (gaze) => {
+      gazeScoreRef.current = gaze
+        ? { score: getEyeContactScore(gaze, gazeCalibrationRef.current), at: Date.now() }
+        : null;
+    },
+  });
+
   const calculatePostureScore = useCallback((landmarks: LandmarkPoint[]): { score: number; isSlouching: boolean } => {
     const leftShoulder = landmarks[LANDMARKS.LEFT_SHOULDER];
     const rightShoulder = landmarks[LANDMARKS.RIGHT_SHOULDER];
@@ -207,7 +239,10 @@ export const useBodyLanguageAnalysis = (videoElement: HTMLVideoElement | null) =
     const landmarks = results.poseLandmarks;
     const { score: postureScore, isSlouching } = calculatePostureScore(landmarks);
     const { level: handLevel, movementMagnitude } = calculateHandMovement(landmarks, previousLandmarksRef.current);
-    const eyeScore = calculateEyeContactScore(landmarks);
+    const gazeScore = gazeScoreRef.current;
+    const eyeScore = gazeScore && Date.now() - gazeScore.at < GAZE_STALE_MS
+      ? gazeScore.score
+      : calculateEyeContactScore(landmarks);
 
     // Update tracking refs
     previousLandmarksRef.current = [...landmarks];
@@ -316,6 +351,7 @@ export const useBodyLanguageAnalysis = (videoElement: HTMLVideoElement | null) =
     postureHistoryRef.current = [];
     slouchCountRef.current = 0;
     nervousMovementCountRef.current = 0;
+    gazeScoreRef.current = null;
     setMetrics({
       postureScore: 100,
       isSlouchingNow: false,
@@ -2,69 +2,177 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 
 export interface CheatingEvent {
   id: string;
-  type: 'tab_switch' | 'looking_away' | 'phone_detected' | 'person_missing';
+  type:
+    | 'tab_switch'
+    | 'looking_away'
+    | 'phone_detected'
+    | 'person_missing'
+    | 'multiple_people'
+    | 'paste'
+    | 'typing_burst'
+    | 'devtools_open'
+    | 'fullscreen_exit'
+    | 'second_display';
   timestamp: Date;
   duration?: number;
   message: string;
+  // Measurements behind the event, e.g. how many characters were pasted
+  details?: Record<string, number>;
 }
 
+export type SuspicionWeights = Record<CheatingEvent['type'], number>;
+
+// How much each event counts toward suspicionLevel. Camera and tab events
+// count one each; a paste or open devtools says more about an answer.
+export const DEFAULT_SUSPICION_WEIGHTS: SuspicionWeights = {
+  tab_switch: 1,
+  looking_away: 1,
+  phone_detected: 1,
+  person_missing: 1,
+  multiple_people: 1,
+  paste: 2,
+  typing_burst: 1,
+  devtools_open: 3,
+  fullscreen_exit: 1,
+  second_display: 2,
+};
+
+// Need window-level listeners and polling, so they only run when watched
+const ENVIRONMENT_SIGNALS: CheatingEvent['type'][] = ['devtools_open', 'fullscreen_exit', 'second_display'];
+const DEFAULT_SIGNALS = (Object.keys(DEFAULT_SUSPICION_WEIGHTS) as CheatingEvent['type'][])
+  .filter((type) => !ENVIRONMENT_SIGNALS.includes(type));
+
 export interface CheatingMetrics {
   tabSwitchCount: number;
   lookAwayCount: number;
   phoneDetectedCount: number;
   personMissingCount: number;
+  multiplePeopleCount: number;
   totalViolations: number;
   isCurrentlyLookingAway: boolean;
   isTabVisible: boolean;
   isPhoneDetected: boolean;
   isPersonMissing: boolean;
+  isMultiplePeople: boolean;
   events: CheatingEvent[];
+  // Weighted sum of the events, which sets suspicionLevel
+  suspicionScore: number;
   suspicionLevel: 'low' | 'medium' | 'high';
+  // More violations than the warnings allowed
+  isEscalated: boolean;
 }
 
 interface UseCheatingDetectionOptions {
   eyeContactThreshold?: number; // Below this score = looking away
   lookAwayDurationMs?: number; // How long before counting as looking away
-  onViolation?: (event: CheatingEvent) => void;
+  // violationCount includes this event
+  onViolation?: (event: CheatingEvent, violationCount: number) => void;
+  // Signals to watch; the rest are ignored. Defaults to everything but
+  // devtools, leaving full screen and a second display.
+  signals?: CheatingEvent['type'][];
+  // Violations allowed before onEscalate fires once; null never escalates
+  warningsBeforeEscalation?: number | null;
+  onEscalate?: () => void;
+  // Overrides for DEFAULT_SUSPICION_WEIGHTS
+  weights?: Partial<SuspicionWeights>;
+  typingBurstChars?: number; // This many characters typed...
+  typingBurstWindowMs?: number; // ...within this window is a burst
 }
 
+const MEDIUM_SUSPICION_SCORE = 5;
+const HIGH_SUSPICION_SCORE = 10;
+// Docked devtools take at least this much from the window's inner size
+const DEVTOOLS_SIZE_GAP = 160;
+// Time for devtools to dock after their shortcut before the window is measured
+const DEVTOOLS_SETTLE_MS = 500;
+const ENVIRONMENT_CHECK_MS = 1000;
+// Displays change rarely; the change event covers most of it
+const DISPLAY_CHECK_MS = 5000;
+
+// Window Management API, not in the DOM typings yet
+interface ScreenDetails {
+  screens: unknown[];
+}
+type WindowWithScreenDetails = Window & { getScreenDetails?: () => Promise<ScreenDetails> };
+type ExtendedScreen = Screen & EventTarget & { isExtended?: boolean };
+
 export const useCheatingDetection = (options: UseCheatingDetectionOptions = {}) => {
   const {
     eyeContactThreshold = 40,
     lookAwayDurationMs = 2000,
     onViolation,
+    signals = DEFAULT_SIGNALS,
+    warningsBeforeEscalation = null,
+    onEscalate,
+    weights,
+    typingBurstChars = 80,
+    typingBurstWindowMs = 2000,
   } = options;
 
+  const weightsRef = useRef<SuspicionWeights>(DEFAULT_SUSPICION_WEIGHTS);
+  weightsRef.current = { ...DEFAULT_SUSPICION_WEIGHTS, ...weights };
+  const onViolationRef = useRef(onViolation);
+  onViolationRef.current = onViolation;
+  const onEscalateRef = useRef(onEscalate);
+  onEscalateRef.current = onEscalate;
+  const signalsRef = useRef(signals);
+  signalsRef.current = signals;
+  const warningsRef = useRef(warningsBeforeEscalation);
+  warningsRef.current = warningsBeforeEscalation;
+  const watchEnvironment = signals.some((type) => ENVIRONMENT_SIGNALS.includes(type));
+
   const [metrics, setMetrics] = useState<CheatingMetrics>({
     tabSwitchCount: 0,
     lookAwayCount: 0,
     phoneDetectedCount: 0,
     personMissingCount: 0,
+    multiplePeopleCount: 0,
     totalViolations: 0,
     isCurrentlyLookingAway: false,
     isTabVisible: true,
     isPhoneDetected: false,
     isPersonMissing: false,
+    isMultiplePeople: false,
     events: [],
+    suspicionScore: 0,
     suspicionLevel: 'low',
+    isEscalated: false,
   });
 
   const lookAwayStartRef = useRef<number | null>(null);
   const personMissingStartRef = useRef<number | null>(null);
+  const multiplePeopleStartRef = useRef<number | null>(null);
   const lastEyeScoreRef = useRef<number>(100);
+  // Recent keystrokes, for spotting text that arrives faster than typing
+  const typingWindowRef = useRef<{ at: number; chars: number }[]>([]);
+  const isTypingBurstRef = useRef(false);
+  // Every event since the last reset, oldest first. Unlike metrics.events
+  // this is never trimmed, so the whole session can be saved.
+  const eventLogRef = useRef<CheatingEvent[]>([]);
+  // Events still in progress, closed with their duration when they end
+  const openEpisodesRef = useRef<Partial<Record<CheatingEvent['type'], CheatingEvent>>>({});
+  // Counted outside state so onViolation and escalation see it straight away
+  const violationCountRef = useRef(0);
+  const isEscalatedRef = useRef(false);
 
   // Generate unique ID for events
   const generateEventId = () => `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
   // Add violation event
-  const addEvent = useCallback((type: CheatingEvent['type'], message: string, duration?: number) => {
+  const addEvent = useCallback((
+    type: CheatingEvent['type'],
+    message: string,
+    startedAt = Date.now(),
+    details?: CheatingEvent['details']
+  ) => {
     const event: CheatingEvent = {
       id: generateEventId(),
       type,
-      timestamp: new Date(),
-      duration,
+      timestamp: new Date(startedAt),
       message,
+      details,
     };
+    const weight = weightsRef.current[type];
 
     setMetrics((prev) => {
       const newEvents = [event, ...prev.events].slice(0, 50); // Keep last 50 events
@@ -72,6 +180,7 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
         ...prev,
         events: newEvents,
         totalViolations: prev.totalViolations + 1,
+        suspicionScore: prev.suspicionScore + weight,
       };
 
       // Update specific counters
@@ -88,13 +197,16 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
         case 'person_missing':
           newMetrics.personMissingCount = prev.personMissingCount + 1;
           break;
+        case 'multiple_people':
+          newMetrics.multiplePeopleCount = prev.multiplePeopleCount + 1;
+          break;
       }
 
       // Calculate suspicion level
-      const total = newMetrics.totalViolations;
-      if (total >= 10) {
+      const score = newMetrics.suspicionScore;
+      if (score >= HIGH_SUSPICION_SCORE) {
         newMetrics.suspicionLevel = 'high';
-      } else if (total >= 5) {
+      } else if (score >= MEDIUM_SUSPICION_SCORE) {
         newMetrics.suspicionLevel = 'medium';
       } else {
         newMetrics.suspicionLevel = 'low';
@@ -103,8 +215,53 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
       return newMetrics;
     });
 
-    onViolation?.(event);
-  }, [onViolation]);
+    violationCountRef.current += 1;
+    onViolationRef.current?.(event, violationCountRef.current);
+
+    const allowed = warningsRef.current;
+    if (allowed !== null && violationCountRef.current > allowed && !isEscalatedRef.current) {
+      isEscalatedRef.current = true;
+      setMetrics((prev) => ({ ...prev, isEscalated: true }));
+      onEscalateRef.current?.();
+    }
+    return event;
+  }, []);
+
+  // A one-off event with no duration, like a paste
+  const recordEvent = useCallback((
+    type: CheatingEvent['type'],
+    message: string,
+    details?: CheatingEvent['details']
+  ) => {
+    if (!signalsRef.current.includes(type)) return;
+    eventLogRef.current.push(addEvent(type, message, undefined, details));
+  }, [addEvent]);
+
+  // Start an episode unless one of the same type is already running, so a
+  // long look-away or a tab switch firing both blur and visibilitychange is
+  // logged once. Returns whether a new episode started.
+  const startEpisode = useCallback((
+    type: CheatingEvent['type'],
+    message: string,
+    startedAt?: number,
+    details?: CheatingEvent['details']
+  ) => {
+    if (openEpisodesRef.current[type] || !signalsRef.current.includes(type)) return false;
+
+    const event = addEvent(type, message, startedAt, details);
+    openEpisodesRef.current[type] = event;
+    eventLogRef.current.push(event);
+    return true;
+  }, [addEvent]);
+
+  const endEpisode = useCallback((type: CheatingEvent['type']) => {
+    const open = openEpisodesRef.current[type];
+    if (!open) return;
+
+    delete openEpisodesRef.current[type];
+    const duration = Date.now() - open.timestamp.getTime();
+    eventLogRef.current = eventLogRef.current.map((e) => (e.id === open.id ? { ...e, duration } : e));
+  }, []);
 
   // Tab visibility detection
   useEffect(() => {
@@ -114,18 +271,21 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
       setMetrics((prev) => ({ ...prev, isTabVisible: isVisible }));
 
       if (!isVisible) {
-        addEvent('tab_switch', 'User switched away from interview tab');
+        startEpisode('tab_switch', 'User switched away from interview tab');
+      } else {
+        endEpisode('tab_switch');
       }
     };
 
     // Also detect window blur/focus for additional coverage
     const handleWindowBlur = () => {
       setMetrics((prev) => ({ ...prev, isTabVisible: false }));
-      addEvent('tab_switch', 'Interview window lost focus');
+      startEpisode('tab_switch', 'Interview window lost focus');
     };
 
     const handleWindowFocus = () => {
       setMetrics((prev) => ({ ...prev, isTabVisible: true }));
+      endEpisode('tab_switch');
     };
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
@@ -137,7 +297,7 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
       window.removeEventListener('blur', handleWindowBlur);
       window.removeEventListener('focus', handleWindowFocus);
     };
-  }, [addEvent]);
+  }, [startEpisode, endEpisode]);
 
   // Update eye contact / looking away status
   const updateEyeContact = useCallback((eyeContactScore: number) => {
@@ -150,22 +310,24 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
       } else {
         const duration = Date.now() - lookAwayStartRef.current;
         if (duration >= lookAwayDurationMs) {
-          setMetrics((prev) => {
-            if (!prev.isCurrentlyLookingAway) {
-              addEvent('looking_away', `User looked away for ${Math.round(duration / 1000)}s`, duration);
-              return { ...prev, isCurrentlyLookingAway: true };
-            }
-            return prev;
-          });
+          const started = startEpisode(
+            'looking_away',
+            `User looked away for ${Math.round(duration / 1000)}s`,
+            lookAwayStartRef.current
+          );
+          if (started) {
+            setMetrics((prev) => ({ ...prev, isCurrentlyLookingAway: true }));
+          }
         }
       }
     } else {
       if (lookAwayStartRef.current) {
         lookAwayStartRef.current = null;
+        endEpisode('looking_away');
         setMetrics((prev) => ({ ...prev, isCurrentlyLookingAway: false }));
       }
     }
-  }, [eyeContactThreshold, lookAwayDurationMs, addEvent]);
+  }, [eyeContactThreshold, lookAwayDurationMs, startEpisode, endEpisode]);
 
   // Update person detection status (from body language analysis)
   const updatePersonDetection = useCallback((isPersonDetected: boolean) => {
@@ -175,22 +337,179 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
       } else {
         const duration = Date.now() - personMissingStartRef.current;
         if (duration >= 3000) { // 3 seconds missing
-          setMetrics((prev) => {
-            if (!prev.isPersonMissing) {
-              addEvent('person_missing', 'No person detected in camera view', duration);
-              return { ...prev, isPersonMissing: true };
-            }
-            return prev;
-          });
+          if (startEpisode('person_missing', 'No person detected in camera view', personMissingStartRef.current)) {
+            setMetrics((prev) => ({ ...prev, isPersonMissing: true }));
+          }
         }
       }
     } else {
       if (personMissingStartRef.current) {
         personMissingStartRef.current = null;
+        endEpisode('person_missing');
         setMetrics((prev) => ({ ...prev, isPersonMissing: false }));
       }
     }
-  }, [addEvent]);
+  }, [startEpisode, endEpisode]);
+
+  // Devtools, full screen and extra displays. Devtools are caught by their
+  // keyboard shortcuts. The window's size only says how long docked devtools
+  // stayed open: zoom and browser sidebars change it too, so on its own it
+  // proves nothing.
+  useEffect(() => {
+    if (!watchEnvironment) return;
+
+    let wasFullscreen = !!document.fullscreenElement;
+    let isCancelled = false;
+    let settleTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    // Gap between the window's outer and inner size, in the same units at any
+    // zoom level. Whatever is already docked when watching starts (a sidebar,
+    // say) is the baseline.
+    const initialPixelRatio = window.devicePixelRatio || 1;
+    const getSizeGap = () => {
+      const zoom = (window.devicePixelRatio || 1) / initialPixelRatio;
+      return Math.max(
+        window.outerWidth - window.innerWidth * zoom,
+        window.outerHeight - window.innerHeight * zoom
+      );
+    };
+    let baselineGap = getSizeGap();
+    const hasDevtoolsGap = () => getSizeGap() - baselineGap > DEVTOOLS_SIZE_GAP;
+
+    const checkDevtools = () => {
+      baselineGap = Math.min(baselineGap, getSizeGap());
+      if (!hasDevtoolsGap()) endEpisode('devtools_open');
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toUpperCase();
+      const isShortcut = event.key === 'F12'
+        || ((event.ctrlKey || event.metaKey) && (event.shiftKey || event.altKey) && ['I', 'J', 'C'].includes(key));
+      if (!isShortcut || openEpisodesRef.current.devtools_open) return;
+
+      // Docked devtools shrink the window, so the episode lasts until they
+      // close; undocked ones can't be seen and count once
+      if (settleTimeout) clearTimeout(settleTimeout);
+      settleTimeout = setTimeout(() => {
+        settleTimeout = null;
+        if (isCancelled) return;
+        if (hasDevtoolsGap()) {
+          startEpisode('devtools_open', 'Developer tools opened');
+        } else {
+          recordEvent('devtools_open', 'Developer tools shortcut pressed');
+        }
+      }, DEVTOOLS_SETTLE_MS);
+    };
+
+    const handleFullscreenChange = () => {
+      if (document.fullscreenElement) {
+        wasFullscreen = true;
+        endEpisode('fullscreen_exit');
+      } else if (wasFullscreen) {
+        startEpisode('fullscreen_exit', 'Left full screen');
+      }
+    };
+
+    // Counting screens needs the window-management permission, which is
+    // never prompted for here; without it isExtended still says "more than one"
+    const checkDisplays = async () => {
+      const screen = window.screen as ExtendedScreen;
+      const { getScreenDetails } = window as WindowWithScreenDetails;
+      let displays = screen.isExtended ? 2 : 1;
+
+      if (getScreenDetails && navigator.permissions) {
+        try {
+          const permission = await navigator.permissions.query({ name: 'window-management' as PermissionName });
+          if (permission.state === 'granted') {
+            displays = (await getScreenDetails.call(window)).screens.length;
+          }
+        } catch {
+          // Permission name not supported; keep the isExtended answer
+        }
+      }
+
+      if (isCancelled) return;
+      if (displays > 1) {
+        startEpisode('second_display', `${displays} displays connected`, undefined, { displays });
+      } else {
+        endEpisode('second_display');
+      }
+    };
+
+    const screen = window.screen as ExtendedScreen;
+    const interval = setInterval(checkDevtools, ENVIRONMENT_CHECK_MS);
+    const displayInterval = setInterval(checkDisplays, DISPLAY_CHECK_MS);
+    checkDevtools();
+    checkDisplays();
+    window.addEventListener('resize', checkDevtools);
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    screen.addEventListener?.('change', checkDisplays);
+
+    return () => {
+      isCancelled = true;
+      if (settleTimeout) clearTimeout(settleTimeout);
+      clearInterval(interval);
+      clearInterval(displayInterval);
+      window.removeEventListener('resize', checkDevtools);
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      screen.removeEventListener?.('change', checkDisplays);
+    };
+  }, [watchEnvironment, startEpisode, endEpisode, recordEvent]);
+
+  // Text pasted into an answer box
+  const reportPaste = useCallback((charCount: number) => {
+    if (charCount <= 0) return;
+    recordEvent('paste', `Pasted ${charCount} characters into the answer`, { characters: charCount });
+  }, [recordEvent]);
+
+  // Typed input, as characters added per change. Far more than anyone types
+  // in the window is logged once per burst.
+  const reportTyping = useCallback((insertedChars: number) => {
+    if (insertedChars <= 0) return;
+
+    const now = Date.now();
+    const recent = [
+      ...typingWindowRef.current.filter((entry) => now - entry.at <= typingBurstWindowMs),
+      { at: now, chars: insertedChars },
+    ];
+    typingWindowRef.current = recent;
+
+    const chars = recent.reduce((sum, entry) => sum + entry.chars, 0);
+    if (chars < typingBurstChars) {
+      isTypingBurstRef.current = false;
+    } else if (!isTypingBurstRef.current) {
+      isTypingBurstRef.current = true;
+      const seconds = Math.max((now - recent[0].at) / 1000, 0.1);
+      recordEvent('typing_burst', `${chars} characters typed in ${seconds.toFixed(1)}s`, {
+        characters: chars,
+        charsPerSecond: Math.round(chars / seconds),
+      });
+    }
+  }, [typingBurstChars, typingBurstWindowMs, recordEvent]);
+
+  // Someone else in frame (from the object detector's person count)
+  const updatePeopleCount = useCallback((peopleCount: number) => {
+    if (peopleCount > 1) {
+      if (!multiplePeopleStartRef.current) {
+        multiplePeopleStartRef.current = Date.now();
+      } else if (Date.now() - multiplePeopleStartRef.current >= 2000) { // 2 seconds with company
+        const started = startEpisode(
+          'multiple_people',
+          `${peopleCount} people detected in camera view`,
+          multiplePeopleStartRef.current
+        );
+        if (started) {
+          setMetrics((prev) => ({ ...prev, isMultiplePeople: true }));
+        }
+      }
+    } else if (multiplePeopleStartRef.current) {
+      multiplePeopleStartRef.current = null;
+      endEpisode('multiple_people');
+      setMetrics((prev) => ({ ...prev, isMultiplePeople: false }));
+    }
+  }, [startEpisode, endEpisode]);
 
   // Phone detection (based on hand position near face - simplified heuristic)
   const updatePhoneDetection = useCallback((
@@ -200,59 +519,80 @@ export const useCheatingDetection = (options: UseCheatingDetectionOptions = {})
     // Heuristic: if hand is near face and movements are calm, likely holding phone
     const likelyPhone = handNearFace && handMovementLevel === 'calm';
     
-    setMetrics((prev) => {
-      if (likelyPhone && !prev.isPhoneDetected) {
-        addEvent('phone_detected', 'Possible phone detected near face');
-        return { ...prev, isPhoneDetected: true };
-      } else if (!likelyPhone && prev.isPhoneDetected) {
-        return { ...prev, isPhoneDetected: false };
+    if (likelyPhone) {
+      if (startEpisode('phone_detected', 'Possible phone detected near face')) {
+        setMetrics((prev) => ({ ...prev, isPhoneDetected: true }));
       }
-      return prev;
-    });
-  }, [addEvent]);
+    } else if (openEpisodesRef.current.phone_detected) {
+      endEpisode('phone_detected');
+      setMetrics((prev) => ({ ...prev, isPhoneDetected: false }));
+    }
+  }, [startEpisode, endEpisode]);
 
   // Manual phone detection trigger (can be called from pose analysis)
   const reportPhoneDetected = useCallback(() => {
-    setMetrics((prev) => {
-      if (!prev.isPhoneDetected) {
-        addEvent('phone_detected', 'Phone or device detected in camera view');
-        return { ...prev, isPhoneDetected: true, phoneDetectedCount: prev.phoneDetectedCount + 1 };
-      }
-      return prev;
-    });
-  }, [addEvent]);
+    if (startEpisode('phone_detected', 'Phone or device detected in camera view')) {
+      setMetrics((prev) => ({ ...prev, isPhoneDetected: true }));
+    }
+  }, [startEpisode]);
 
   // Reset metrics
   const resetMetrics = useCallback(() => {
     lookAwayStartRef.current = null;
     personMissingStartRef.current = null;
+    multiplePeopleStartRef.current = null;
+    typingWindowRef.current = [];
+    isTypingBurstRef.current = false;
+    eventLogRef.current = [];
+    openEpisodesRef.current = {};
+    violationCountRef.current = 0;
+    isEscalatedRef.current = false;
     setMetrics({
       tabSwitchCount: 0,
       lookAwayCount: 0,
       phoneDetectedCount: 0,
       personMissingCount: 0,
+      multiplePeopleCount: 0,
       totalViolations: 0,
       isCurrentlyLookingAway: false,
       isTabVisible: true,
       isPhoneDetected: false,
       isPersonMissing: false,
+      isMultiplePeople: false,
       events: [],
+      suspicionScore: 0,
       suspicionLevel: 'low',
+      isEscalated: false,
     });
   }, []);
 
   // Clear phone detection flag
   const clearPhoneDetection = useCallback(() => {
-    setMetrics((prev) => ({ ...prev, isPhoneDetected: false }));
+    endEpisode('phone_detected');
+    setMetrics((prev) => (prev.isPhoneDetected ? { ...prev, isPhoneDetected: false } : prev));
+  }, [endEpisode]);
+
+  // The full event log, with episodes still in progress timed up to now
+  const getEventLog = useCallback((): CheatingEvent[] => {
+    const now = Date.now();
+    return eventLogRef.current.map((event) =>
+      openEpisodesRef.current[event.type]?.id === event.id
+        ? { ...event, duration: now - event.timestamp.getTime() }
+        : event
+    );
   }, []);
 
   return {
     metrics,
     updateEyeContact,
     updatePersonDetection,
+    updatePeopleCount,
     updatePhoneDetection,
     reportPhoneDetected,
     clearPhoneDetection,
+    reportPaste,
+    reportTyping,
     resetMetrics,
+    getEventLog,
   };
 };
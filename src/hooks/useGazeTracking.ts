@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import { getGazeAngles, type GazeAngles } from '@/lib/gaze';
+import type { FaceLandmarkerRequest, FaceLandmarkerResponse } from '@/workers/faceLandmarker.worker';
+
+export type GazeTrackingStatus = 'idle' | 'loading' | 'ready' | 'unavailable';
+
+interface UseGazeTrackingOptions {
+  enabled: boolean;
+  intervalMs?: number; // Time between frames sent to the landmarker
+  // Called for every analysed frame; null when no face was found
+  onSample?: (gaze: GazeAngles | null) => void;
+}
+
+// Face Landmarker (with iris landmarks) from the MediaPipe model zoo,
+// served from public/ like the object detector
+export const FACE_LANDMARKER_MODEL_PATH = '/models/face_landmarker.task';
+
+// Irises are only a few pixels wide, so frames are larger than for objects
+const FRAME_WIDTH = 480;
+// Weight of the newest frame; smooths out landmark jitter between frames
+const SMOOTHING = 0.5;
+
+export const useGazeTracking = (
+  videoRef: React.RefObject<HTMLVideoElement>,
+  options: UseGazeTrackingOptions
+) => {
+  const { enabled, intervalMs = 200, onSample } = options;
+
+  const [status, setStatus] = useState<GazeTrackingStatus>('idle');
+  const [gaze, setGaze] = useState<GazeAngles | null>(null);
+  const onSampleRef = useRef(onSample);
+  onSampleRef.current = onSample;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (typeof Worker === 'undefined' || typeof createImageBitmap === 'undefined') {
+      setStatus('unavailable');
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/faceLandmarker.worker.ts', import.meta.url), { type: 'module' });
+    const send = (message: FaceLandmarkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+    let isReady = false;
+    let isBusy = false;
+    let smoothed: GazeAngles | null = null;
+
+    const fail = (reason: unknown) => {
+      console.warn('Gaze tracking unavailable:', reason);
+      setStatus('unavailable');
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<FaceLandmarkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'ready') {
+        isReady = true;
+        setStatus('ready');
+      } else if (message.type === 'error') {
+        isBusy = false;
+        if (isReady) {
+          console.error('Gaze tracking error:', message.message);
+        } else {
+          fail(message.message);
+        }
+      } else {
+        isBusy = false;
+        const next = message.face ? getGazeAngles(message.face.landmarks, message.face.matrix) : null;
+        // Start over after losing the face so the old gaze doesn't drag on
+        smoothed = next && smoothed
+          ? {
+            horizontal: smoothed.horizontal + (next.horizontal - smoothed.horizontal) * SMOOTHING,
+            vertical: smoothed.vertical + (next.vertical - smoothed.vertical) * SMOOTHING,
+          }
+          : next;
+        setGaze(smoothed);
+        onSampleRef.current?.(smoothed);
+      }
+    };
+    worker.onerror = (event) => fail(event.message);
+
+    setStatus('loading');
+    send({ type: 'init', modelPath: FACE_LANDMARKER_MODEL_PATH });
+
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      if (!isReady || isBusy || document.hidden || !video || video.readyState < 2 || !video.videoWidth) return;
+
+      isBusy = true;
+      try {
+        const width = Math.min(video.videoWidth, FRAME_WIDTH);
+        const frame = await createImageBitmap(video, {
+          resizeWidth: width,
+          resizeHeight: Math.round((video.videoHeight * width) / video.videoWidth),
+          resizeQuality: 'medium',
+        });
+        send({ type: 'detect', frame }, [frame]);
+      } catch (error) {
+        isBusy = false;
+        console.error('Failed to capture frame for gaze tracking:', error);
+      }
+    }, intervalMs);
+
+    return () => {
+      clearInterval(interval);
+      worker.terminate();
+      setStatus('idle');
+      setGaze(null);
+    };
+  }, [enabled, intervalMs, videoRef]);
+
+  return { status, gaze };
+};
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ObjectDetectorRequest, ObjectDetectorResponse } from '@/workers/objectDetector.worker';
+
+export type ObjectDetectionStatus = 'idle' | 'loading' | 'ready' | 'unavailable';
+
+export interface ObjectDetectionResult {
+  people: number;
+  phones: number;
+  // A phone seen in enough consecutive frames to not be a one-off misread
+  phoneDetected: boolean;
+}
+
+interface UseObjectDetectionOptions {
+  enabled: boolean;
+  intervalMs?: number; // Time between frames sent to the detector
+  onResult?: (result: ObjectDetectionResult) => void;
+}
+
+// EfficientDet-Lite0 (int8, COCO labels) from the MediaPipe model zoo,
+// served from public/ so nothing is fetched from a CDN during an interview
+export const OBJECT_DETECTOR_MODEL_PATH = '/models/efficientdet_lite0.tflite';
+
+// Small frames are plenty for a phone or a face and keep inference cheap on CPU
+const FRAME_WIDTH = 320;
+const PHONE_FRAMES_REQUIRED = 2;
+
+export const useObjectDetection = (
+  videoRef: React.RefObject<HTMLVideoElement>,
+  options: UseObjectDetectionOptions
+) => {
+  const { enabled, intervalMs = 1000, onResult } = options;
+
+  const [status, setStatus] = useState<ObjectDetectionStatus>('idle');
+  const [result, setResult] = useState<ObjectDetectionResult | null>(null);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (typeof Worker === 'undefined' || typeof createImageBitmap === 'undefined') {
+      setStatus('unavailable');
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/objectDetector.worker.ts', import.meta.url), { type: 'module' });
+    const send = (message: ObjectDetectorRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+    let isReady = false;
+    // One frame in flight at a time; slow devices just analyse fewer frames
+    let isBusy = false;
+    let phoneStreak = 0;
+
+    const fail = (reason: unknown) => {
+      console.warn('Object detection unavailable:', reason);
+      setStatus('unavailable');
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<ObjectDetectorResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'ready') {
+        isReady = true;
+        setStatus('ready');
+      } else if (message.type === 'error') {
+        isBusy = false;
+        if (isReady) {
+          console.error('Object detection error:', message.message);
+        } else {
+          fail(message.message);
+        }
+      } else {
+        isBusy = false;
+        phoneStreak = message.phones > 0 ? phoneStreak + 1 : 0;
+
+        const next = {
+          people: message.people,
+          phones: message.phones,
+          phoneDetected: phoneStreak >= PHONE_FRAMES_REQUIRED,
+        };
+        setResult(next);
+        onResultRef.current?.(next);
+      }
+    };
+    worker.onerror = (event) => fail(event.message);
+
+    setStatus('loading');
+    send({ type: 'init', modelPath: OBJECT_DETECTOR_MODEL_PATH });
+
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      if (!isReady || isBusy || document.hidden || !video || video.readyState < 2 || !video.videoWidth) return;
+
+      isBusy = true;
+      try {
+        const width = Math.min(video.videoWidth, FRAME_WIDTH);
+        const frame = await createImageBitmap(video, {
+          resizeWidth: width,
+          resizeHeight: Math.round((video.videoHeight * width) / video.videoWidth),
+          resizeQuality: 'low',
+        });
+        send({ type: 'detect', frame }, [frame]);
+      } catch (error) {
+        isBusy = false;
+        console.error('Failed to capture frame for object detection:', error);
+      }
+    }, intervalMs);
+
+    return () => {
+      clearInterval(interval);
+      worker.terminate();
+      setStatus('idle');
+      setResult(null);
+    };
+  }, [enabled, intervalMs, videoRef]);
+
+  return { status, result };
+};
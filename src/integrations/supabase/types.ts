@@ -61,6 +61,89 @@ export type Database = {
           },
         ]
       }
+      flashcard_reviews: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_grade: string | null
+          last_reviewed_at: string | null
+          question_id: string
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: string | null
+          last_reviewed_at?: string | null
+          question_id: string
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: string | null
+          last_reviewed_at?: string | null
+          question_id?: string
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_reviews_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "interview_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_loops: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          proctoring_policy: string
+          rounds: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          proctoring_policy?: string
+          rounds?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          proctoring_policy?: string
+          rounds?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       interview_questions: {
         Row: {
           category_id: string | null
@@ -71,7 +154,10 @@ export type Database = {
           question_text: string
           role: string | null
           sample_answer: string | null
+          search_vector: unknown | null
           tips: string | null
+          updated_at: string
+          user_id: string | null
         }
         Insert: {
           category_id?: string | null
@@ -82,7 +168,10 @@ export type Database = {
           question_text: string
           role?: string | null
           sample_answer?: string | null
+          search_vector?: unknown | null
           tips?: string | null
+          updated_at?: string
+          user_id?: string | null
         }
         Update: {
           category_id?: string | null
@@ -93,7 +182,10 @@ export type Database = {
           question_text?: string
           role?: string | null
           sample_answer?: string | null
+          search_vector?: unknown | null
           tips?: string | null
+          updated_at?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -113,12 +205,19 @@ export type Database = {
           confidence_score: number | null
           created_at: string
           duration_seconds: number | null
+          filler_word_count: number | null
+          hedge_count: number | null
           id: string
+          long_pause_count: number | null
           question_id: string | null
           question_text: string
           relevance_score: number | null
           response_text: string | null
           session_id: string
+          time_to_answer_seconds: number | null
+          turn_index: number | null
+          word_count: number | null
+          words_per_minute: number | null
         }
         Insert: {
           ai_feedback?: string | null
@@ -127,12 +226,19 @@ export type Database = {
           confidence_score?: number | null
           created_at?: string
           duration_seconds?: number | null
+          filler_word_count?: number | null
+          hedge_count?: number | null
           id?: string
+          long_pause_count?: number | null
           question_id?: string | null
           question_text: string
           relevance_score?: number | null
           response_text?: string | null
           session_id: string
+          time_to_answer_seconds?: number | null
+          turn_index?: number | null
+          word_count?: number | null
+          words_per_minute?: number | null
         }
         Update: {
           ai_feedback?: string | null
@@ -141,12 +247,19 @@ export type Database = {
           confidence_score?: number | null
           created_at?: string
           duration_seconds?: number | null
+          filler_word_count?: number | null
+          hedge_count?: number | null
           id?: string
+          long_pause_count?: number | null
           question_id?: string | null
           question_text?: string
           relevance_score?: number | null
           response_text?: string | null
           session_id?: string
+          time_to_answer_seconds?: number | null
+          turn_index?: number | null
+          word_count?: number | null
+          words_per_minute?: number | null
         }
         Relationships: [
           {
@@ -168,11 +281,20 @@ export type Database = {
       interview_sessions: {
         Row: {
           created_at: string
+          debrief: Json | null
           duration_minutes: number | null
           ended_at: string | null
           id: string
+          integrity_summary: Json | null
+          last_activity_at: string
+          loop_id: string | null
+          loop_plan: Json | null
+          loop_round: number | null
           notes: string | null
           overall_score: number | null
+          parent_session_id: string | null
+          proctoring_policy: string | null
+          quiz_state: Json | null
           scheduled_at: string | null
           session_type: string
           started_at: string | null
@@ -182,11 +304,20 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          debrief?: Json | null
           duration_minutes?: number | null
           ended_at?: string | null
           id?: string
+          integrity_summary?: Json | null
+          last_activity_at?: string
+          loop_id?: string | null
+          loop_plan?: Json | null
+          loop_round?: number | null
           notes?: string | null
           overall_score?: number | null
+          parent_session_id?: string | null
+          proctoring_policy?: string | null
+          quiz_state?: Json | null
           scheduled_at?: string | null
           session_type?: string
           started_at?: string | null
@@ -196,11 +327,20 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          debrief?: Json | null
           duration_minutes?: number | null
           ended_at?: string | null
           id?: string
+          integrity_summary?: Json | null
+          last_activity_at?: string
+          loop_id?: string | null
+          loop_plan?: Json | null
+          loop_round?: number | null
           notes?: string | null
           overall_score?: number | null
+          parent_session_id?: string | null
+          proctoring_policy?: string | null
+          quiz_state?: Json | null
           scheduled_at?: string | null
           session_type?: string
           started_at?: string | null
@@ -208,7 +348,69 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "interview_sessions_loop_id_fkey"
+            columns: ["loop_id"]
+            isOneToOne: false
+            referencedRelation: "interview_loops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_sessions_parent_session_id_fkey"
+            columns: ["parent_session_id"]
+            isOneToOne: false
+            referencedRelation: "interview_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_targets: {
+        Row: {
+          company: string
+          created_at: string
+          deck_id: string | null
+          id: string
+          job_description: string | null
+          level: string
+          pack_generated_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company: string
+          created_at?: string
+          deck_id?: string | null
+          id?: string
+          job_description?: string | null
+          level?: string
+          pack_generated_at?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company?: string
+          created_at?: string
+          deck_id?: string | null
+          id?: string
+          job_description?: string | null
+          level?: string
+          pack_generated_at?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_targets_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "question_decks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       mock_interview_invites: {
         Row: {
@@ -248,6 +450,50 @@ export type Database = {
           },
         ]
       }
+      proctoring_events: {
+        Row: {
+          created_at: string
+          details: Json | null
+          duration_ms: number | null
+          event_type: string
+          id: string
+          message: string
+          occurred_at: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json | null
+          duration_ms?: number | null
+          event_type: string
+          id?: string
+          message: string
+          occurred_at: string
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json | null
+          duration_ms?: number | null
+          event_type?: string
+          id?: string
+          message?: string
+          occurred_at?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctoring_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "interview_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -308,6 +554,143 @@ export type Database = {
         }
         Relationships: []
       }
+      question_deck_items: {
+        Row: {
+          created_at: string
+          deck_id: string
+          id: string
+          question_id: string
+        }
+        Insert: {
+          created_at?: string
+          deck_id: string
+          id?: string
+          question_id: string
+        }
+        Update: {
+          created_at?: string
+          deck_id?: string
+          id?: string
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_deck_items_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "question_decks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_deck_items_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "interview_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_decks: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          share_token: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          share_token?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          share_token?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      question_notes: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          question_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id?: string
+          question_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          question_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_notes_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "interview_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resumes: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          parsed: Json
+          parsed_at: string
+          raw_text: string
+          updated_at: string
+          use_in_interviews: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          parsed?: Json
+          parsed_at?: string
+          raw_text: string
+          updated_at?: string
+          use_in_interviews?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          parsed?: Json
+          parsed_at?: string
+          raw_text?: string
+          updated_at?: string
+          use_in_interviews?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_devices: {
         Row: {
           browser: string | null
@@ -351,12 +734,15 @@ export type Database = {
           default_difficulty: string
           email_notifications: boolean
           feedback_alerts: boolean
+          gaze_calibration: Json | null
           id: string
           practice_reminders: boolean
+          proctoring_policy: string
           session_duration: number
-          show_cheating_alerts: boolean
           speech_pitch: number | null
           speech_rate: number | null
+          stt_language: string
+          stt_provider: string
           updated_at: string
           user_id: string
           voice_uri: string | null
@@ -368,12 +754,15 @@ export type Database = {
           default_difficulty?: string
           email_notifications?: boolean
           feedback_alerts?: boolean
+          gaze_calibration?: Json | null
           id?: string
           practice_reminders?: boolean
+          proctoring_policy?: string
           session_duration?: number
-          show_cheating_alerts?: boolean
           speech_pitch?: number | null
           speech_rate?: number | null
+          stt_language?: string
+          stt_provider?: string
           updated_at?: string
           user_id: string
           voice_uri?: string | null
@@ -385,12 +774,15 @@ export type Database = {
           default_difficulty?: string
           email_notifications?: boolean
           feedback_alerts?: boolean
+          gaze_calibration?: Json | null
           id?: string
           practice_reminders?: boolean
+          proctoring_policy?: string
           session_duration?: number
-          show_cheating_alerts?: boolean
           speech_pitch?: number | null
           speech_rate?: number | null
+          stt_language?: string
+          stt_provider?: string
           updated_at?: string
           user_id?: string
           voice_uri?: string | null
@@ -403,7 +795,81 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      close_stale_quiz_sessions: {
+        Args: { _max_idle?: unknown }
+        Returns: number
+      }
+      get_shared_deck: {
+        Args: { _share_token: string }
+        Returns: {
+          description: string
+          id: string
+          name: string
+          question_count: number
+        }[]
+      }
+      get_shared_deck_questions: {
+        Args: { _share_token: string }
+        Returns: {
+          category_id: string | null
+          created_at: string
+          difficulty: string
+          id: string
+          industry: string | null
+          question_text: string
+          role: string | null
+          sample_answer: string | null
+          tips: string | null
+          updated_at: string
+        }[]
+      }
+      question_facets: {
+        Args: never
+        Returns: {
+          facet: string
+          question_count: number
+          value: string
+        }[]
+      }
+      search_questions: {
+        Args: {
+          _category_id?: string
+          _difficulty?: string
+          _industry?: string
+          _limit?: number
+          _offset?: number
+          _owner_only?: boolean
+          _query?: string
+          _question_ids?: string[]
+          _role?: string
+        }
+        Returns: {
+          answer_headline: string
+          category_id: string
+          created_at: string
+          difficulty: string
+          id: string
+          industry: string
+          question_headline: string
+          question_text: string
+          rank: number
+          role: string
+          sample_answer: string
+          tips: string
+          total_count: number
+          user_id: string
+        }[]
+      }
+      similar_questions: {
+        Args: { _limit?: number; _question_id: string }
+        Returns: {
+          category_id: string
+          difficulty: string
+          id: string
+          question_text: string
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,191 @@
+// Question selection for adaptive quizzes. Everything here is pure: the quiz
+// passes in the pool, what has been asked so far and the user's history, and
+// gets back the next question. Tune the behaviour through AdaptiveSettings.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTY_LEVELS: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface AdaptiveQuestion {
+  id: string;
+  difficulty: string;
+  category_id: string | null;
+}
+
+// How one question in this quiz went. Score is the 0-10 average grade, or
+// null if the answer couldn't be graded.
+export interface AnswerOutcome {
+  questionId: string;
+  categoryId: string | null;
+  difficulty: string;
+  score: number | null;
+  skipped: boolean;
+}
+
+// A graded answer from an earlier session
+export interface CategoryScore {
+  categoryId: string | null;
+  score: number;
+}
+
+// 0 (strong) to 1 (weak) per category id; uncategorised questions use 'none'
+export type CategoryWeakness = Record<string, number>;
+
+export interface AdaptiveSettings {
+  // Scores at or above this step the difficulty up
+  stepUpScore: number;
+  // Scores below this, and skips, step it down
+  stepDownScore: number;
+  // How many times one question may come up in a quiz
+  maxRepeats: number;
+  // Answers it takes before a category's own average outweighs the neutral prior
+  weaknessPriorWeight: number;
+  // Relative weights of the selection criteria
+  difficultyWeight: number;
+  weaknessWeight: number;
+  repeatPenalty: number;
+  sameCategoryPenalty: number;
+}
+
+export const DEFAULT_ADAPTIVE_SETTINGS: AdaptiveSettings = {
+  stepUpScore: 8,
+  stepDownScore: 5,
+  maxRepeats: 1,
+  weaknessPriorWeight: 3,
+  difficultyWeight: 3,
+  weaknessWeight: 2,
+  repeatPenalty: 2,
+  sameCategoryPenalty: 0.5,
+};
+
+const NEUTRAL_WEAKNESS = 0.5;
+const NO_CATEGORY = 'none';
+
+const categoryKey = (categoryId: string | null) => categoryId || NO_CATEGORY;
+
+const levelOf = (difficulty: string) => {
+  const level = DIFFICULTY_LEVELS.indexOf(difficulty as Difficulty);
+  return level >= 0 ? level : 1;
+};
+
+export const toDifficulty = (difficulty: string): Difficulty => DIFFICULTY_LEVELS[levelOf(difficulty)];
+
+// Step the target difficulty after an answer. Ungraded answers leave it alone.
+export const nextDifficulty = (
+  current: Difficulty,
+  outcome: AnswerOutcome,
+  settings: AdaptiveSettings = DEFAULT_ADAPTIVE_SETTINGS
+): Difficulty => {
+  const level = levelOf(current);
+
+  if (outcome.skipped || (outcome.score !== null && outcome.score < settings.stepDownScore)) {
+    return DIFFICULTY_LEVELS[Math.max(level - 1, 0)];
+  }
+  if (outcome.score !== null && outcome.score >= settings.stepUpScore) {
+    return DIFFICULTY_LEVELS[Math.min(level + 1, DIFFICULTY_LEVELS.length - 1)];
+  }
+  return current;
+};
+
+// Lower average scores mean higher weakness. Each category is pulled toward
+// neutral until it has a few answers, so one bad answer doesn't dominate.
+export const computeCategoryWeakness = (
+  scores: CategoryScore[],
+  settings: AdaptiveSettings = DEFAULT_ADAPTIVE_SETTINGS
+): CategoryWeakness => {
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  for (const { categoryId, score } of scores) {
+    const key = categoryKey(categoryId);
+    const total = totals.get(key) || { sum: 0, count: 0 };
+    total.sum += 1 - Math.min(Math.max(score, 0), 10) / 10;
+    total.count += 1;
+    totals.set(key, total);
+  }
+
+  const prior = settings.weaknessPriorWeight;
+  return Object.fromEntries(
+    [...totals.entries()].map(([key, { sum, count }]) => [
+      key,
+      (sum + NEUTRAL_WEAKNESS * prior) / (count + prior),
+    ])
+  );
+};
+
+// Weakness seen in this quiz counts alongside the historical figure
+const liveWeakness = (
+  categoryId: string | null,
+  weakness: CategoryWeakness,
+  history: AnswerOutcome[],
+  settings: AdaptiveSettings
+) => {
+  const key = categoryKey(categoryId);
+  let sum = (weakness[key] ?? NEUTRAL_WEAKNESS) * settings.weaknessPriorWeight;
+  let count = settings.weaknessPriorWeight;
+
+  for (const outcome of history) {
+    if (categoryKey(outcome.categoryId) !== key) continue;
+    if (outcome.skipped) {
+      sum += 1;
+    } else if (outcome.score !== null) {
+      sum += 1 - outcome.score / 10;
+    } else {
+      continue;
+    }
+    count += 1;
+  }
+
+  return sum / count;
+};
+
+export interface SelectNextQuestionInput<Q extends AdaptiveQuestion> {
+  pool: Q[];
+  history: AnswerOutcome[];
+  targetDifficulty: Difficulty;
+  weakness: CategoryWeakness;
+  settings?: AdaptiveSettings;
+  // Breaks ties between equally good questions; inject for repeatable results
+  random?: () => number;
+}
+
+// Pick the question that best matches the target difficulty while leaning
+// toward weak categories. Questions asked maxRepeats times, and the question
+// just asked, are never picked. Returns null once the pool is used up.
+export const selectNextQuestion = <Q extends AdaptiveQuestion>({
+  pool,
+  history,
+  targetDifficulty,
+  weakness,
+  settings = DEFAULT_ADAPTIVE_SETTINGS,
+  random = Math.random,
+}: SelectNextQuestionInput<Q>): Q | null => {
+  const askedCounts = new Map<string, number>();
+  for (const outcome of history) {
+    askedCounts.set(outcome.questionId, (askedCounts.get(outcome.questionId) || 0) + 1);
+  }
+  const last = history[history.length - 1];
+  const targetLevel = levelOf(targetDifficulty);
+
+  let best: Q | null = null;
+  let bestScore = -Infinity;
+
+  for (const question of pool) {
+    const asked = askedCounts.get(question.id) || 0;
+    if (asked >= settings.maxRepeats || question.id === last?.questionId) continue;
+
+    const score =
+      -Math.abs(levelOf(question.difficulty) - targetLevel) * settings.difficultyWeight
+      + liveWeakness(question.category_id, weakness, history, settings) * settings.weaknessWeight
+      - asked * settings.repeatPenalty
+      - (last && categoryKey(last.categoryId) === categoryKey(question.category_id) ? settings.sameCategoryPenalty : 0)
+      // A little jitter so ties do not always go to the first question
+      + random() * 0.01;
+
+    if (score > bestScore) {
+      best = question;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const ANSWER_AUDIO_BUCKET = 'answer-recordings';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Whether the user wants answers recorded. Users without a preferences row
+// get the column default (on); if the lookup fails we do not record.
+export const getAutoRecordPreference = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('auto_record_sessions')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading auto-record preference:', error);
+    return false;
+  }
+
+  return data?.auto_record_sessions ?? true;
+};
+
+const getExtension = (mimeType: string) => {
+  if (mimeType.includes('mp4')) return 'm4a';
+  if (mimeType.includes('ogg')) return 'ogg';
+  return 'webm';
+};
+
+// Upload a recorded answer to the user's folder in the private bucket and
+// point the response's audio_url at it. The bucket is private, so audio_url
+// holds the storage path; use getAnswerAudioUrl to get a playable link.
+export const uploadAnswerAudio = async (userId: string, responseId: string, audio: Blob): Promise<string> => {
+  const filePath = `${userId}/${responseId}.${getExtension(audio.type)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ANSWER_AUDIO_BUCKET)
+    .upload(filePath, audio, { upsert: true, contentType: audio.type || 'audio/webm' });
+
+  if (uploadError) throw uploadError;
+
+  const { error: updateError } = await supabase
+    .from('interview_responses')
+    .update({ audio_url: filePath })
+    .eq('id', responseId);
+
+  if (updateError) throw updateError;
+
+  return filePath;
+};
+
+// Resolve a stored audio_url into a short-lived signed URL for playback
+export const getAnswerAudioUrl = async (audioUrl: string): Promise<string | null> => {
+  if (/^https?:\/\//.test(audioUrl)) return audioUrl;
+
+  const { data, error } = await supabase.storage
+    .from(ANSWER_AUDIO_BUCKET)
+    .createSignedUrl(audioUrl, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing answer audio URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+};
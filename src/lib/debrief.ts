@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DebriefAnswer {
+  turn: number;
+  situation: boolean;
+  task: boolean;
+  action: boolean;
+  result: boolean;
+  note: string;
+}
+
+export interface DebriefHighlight {
+  turn: number;
+  reason: string;
+}
+
+export interface DebriefClaim {
+  turn: number;
+  claim: string;
+  challenge: string;
+}
+
+export interface DebriefDrill {
+  title: string;
+  description: string;
+}
+
+export interface SessionDebrief {
+  summary: string;
+  overall_score: number;
+  delivery_score: number | null;
+  answers: DebriefAnswer[];
+  strongest_answer: DebriefHighlight | null;
+  weakest_answer: DebriefHighlight | null;
+  challenged_claims: DebriefClaim[];
+  drills: DebriefDrill[];
+  generated_at: string;
+}
+
+// Ask the interview-debrief edge function to review the whole transcript.
+// The function stores the report on the session and returns it along with
+// the updated overall score (content blended with delivery).
+export const generateDebrief = async (
+  sessionId: string
+): Promise<{ debrief: SessionDebrief; overall_score: number }> => {
+  const { data, error } = await supabase.functions.invoke('interview-debrief', {
+    body: { sessionId },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as { debrief: SessionDebrief; overall_score: number };
+};
+
+// Number of STAR elements covered by an answer, out of four
+export const getStarCoverage = (answer: DebriefAnswer): number =>
+  [answer.situation, answer.task, answer.action, answer.result].filter(Boolean).length;
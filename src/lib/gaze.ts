@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+// Where someone is looking, in degrees: head rotation plus how far the
+// irises sit from the middle of the eyes. Positive is right (in the camera
+// image) and up.
+export interface GazeAngles {
+  horizontal: number;
+  vertical: number;
+}
+
+export type CalibrationTarget = 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft' | 'camera';
+
+export interface GazeCalibration {
+  camera: GazeAngles;
+  // Gaze at the screen's corners, which sets how far "one screen away" is
+  corners: Record<Exclude<CalibrationTarget, 'camera'>, GazeAngles>;
+  calibratedAt: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Face Landmarker indices: iris centres and the eye corners around them,
+// each pair ordered left to right in the image
+const EYES = [
+  { iris: 468, corners: [33, 133] },
+  { iris: 473, corners: [362, 263] },
+];
+
+// Roughly how many degrees the eye turns when the iris reaches a corner
+const IRIS_GAIN_HORIZONTAL = 30;
+// The iris has less room to move up and down than sideways
+const IRIS_GAIN_VERTICAL = 20;
+const IRIS_VERTICAL_SCALE = 4;
+
+// Without a calibration, assume the camera is straight ahead and the
+// screen is about this wide and tall from where the user sits
+const DEFAULT_SPAN = { horizontal: 40, vertical: 25 };
+// A calibration whose corners are closer together than this was not
+// really looking at the corners
+export const MIN_CALIBRATION_SPAN = 4;
+// Gaze this many screen-widths from the camera scores zero. The middle of
+// the screen, where the interviewer is, still scores about half.
+const EYE_CONTACT_RANGE = 1.2;
+
+export const CALIBRATION_TARGETS: { id: CalibrationTarget; label: string }[] = [
+  { id: 'topLeft', label: 'Look at the dot in the top left corner' },
+  { id: 'topRight', label: 'Look at the dot in the top right corner' },
+  { id: 'bottomRight', label: 'Look at the dot in the bottom right corner' },
+  { id: 'bottomLeft', label: 'Look at the dot in the bottom left corner' },
+  { id: 'camera', label: 'Now look straight into your camera' },
+];
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// -1 at the first corner, 1 at the second, measured along the line between them
+const getIrisOffset = (iris: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const width = Math.hypot(dx, dy);
+  if (width === 0) return { horizontal: 0, vertical: 0 };
+
+  const along = ((iris.x - a.x) * dx + (iris.y - a.y) * dy) / (width * width);
+  // Distance from the corner line, up being positive
+  const across = ((iris.x - a.x) * dy - (iris.y - a.y) * dx) / width;
+
+  return { horizontal: along * 2 - 1, vertical: (across / width) * IRIS_VERTICAL_SCALE };
+};
+
+// Gaze from one frame's landmarks and the face's transformation matrix
+// (4x4, column-major, as the Face Landmarker returns it)
+export const getGazeAngles = (landmarks: Point[], matrix: number[]): GazeAngles | null => {
+  if (landmarks.length <= EYES[1].iris || matrix.length < 16) return null;
+
+  // Where the face's forward axis points: column 2 of the rotation
+  const [forwardX, forwardY, forwardZ] = [matrix[8], matrix[9], matrix[10]];
+  const yaw = toDegrees(Math.atan2(forwardX, forwardZ));
+  const pitch = toDegrees(Math.atan2(forwardY, Math.hypot(forwardX, forwardZ)));
+
+  const offsets = EYES.map(({ iris, corners }) =>
+    getIrisOffset(landmarks[iris], landmarks[corners[0]], landmarks[corners[1]])
+  );
+  const irisHorizontal = (offsets[0].horizontal + offsets[1].horizontal) / 2;
+  const irisVertical = (offsets[0].vertical + offsets[1].vertical) / 2;
+
+  return {
+    horizontal: yaw + irisHorizontal * IRIS_GAIN_HORIZONTAL,
+    vertical: pitch + irisVertical * IRIS_GAIN_VERTICAL,
+  };
+};
+
+const getSpan = (calibration: GazeCalibration | null) => {
+  if (!calibration) return DEFAULT_SPAN;
+
+  const { topLeft, topRight, bottomRight, bottomLeft } = calibration.corners;
+  return {
+    horizontal: Math.abs(topRight.horizontal + bottomRight.horizontal - topLeft.horizontal - bottomLeft.horizontal) / 2,
+    vertical: Math.abs(topLeft.vertical + topRight.vertical - bottomLeft.vertical - bottomRight.vertical) / 2,
+  };
+};
+
+export const isCalibrationUsable = (calibration: GazeCalibration) => {
+  const span = getSpan(calibration);
+  return span.horizontal >= MIN_CALIBRATION_SPAN && span.vertical >= MIN_CALIBRATION_SPAN;
+};
+
+// 100 when looking into the camera, falling off with distance measured in
+// screen widths and heights
+export const getEyeContactScore = (gaze: GazeAngles, calibration: GazeCalibration | null) => {
+  const camera = calibration?.camera || { horizontal: 0, vertical: 0 };
+  const span = getSpan(calibration);
+  const distance = Math.hypot(
+    (gaze.horizontal - camera.horizontal) / span.horizontal,
+    (gaze.vertical - camera.vertical) / span.vertical
+  );
+
+  return Math.round(Math.max(0, Math.min(1, 1 - distance / EYE_CONTACT_RANGE)) * 100);
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// One calibration point from the samples taken while looking at it;
+// the median ignores blinks
+export const getCalibrationPoint = (samples: GazeAngles[]): GazeAngles => ({
+  horizontal: median(samples.map((s) => s.horizontal)),
+  vertical: median(samples.map((s) => s.vertical)),
+});
+
+export const toGazeCalibration = (value: Json | null) =>
+  value && typeof value === 'object' && 'camera' in value && 'corners' in value
+    ? (value as unknown as GazeCalibration)
+    : null;
+
+export const getGazeCalibration = async (userId: string): Promise<GazeCalibration | null> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('gaze_calibration')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading gaze calibration:', error);
+    return null;
+  }
+
+  return toGazeCalibration(data?.gaze_calibration ?? null);
+};
+
+export const saveGazeCalibration = async (userId: string, calibration: GazeCalibration) => {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(
+      { user_id: userId, gaze_calibration: calibration as unknown as Json },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+};
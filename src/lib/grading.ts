@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ResponseScores {
+  clarity_score: number | null;
+  confidence_score: number | null;
+  relevance_score: number | null;
+  ai_feedback: string | null;
+}
+
+// Ask the grade-response edge function to score an answer. The function
+// writes the scores back to the interview_responses row and returns them.
+export const gradeResponse = async (responseId: string): Promise<ResponseScores> => {
+  const { data, error } = await supabase.functions.invoke('grade-response', {
+    body: { responseId },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as ResponseScores;
+};
+
+// Average of the three rubric dimensions, or null if the answer is ungraded
+export const getAverageScore = (scores: Partial<ResponseScores> | null | undefined): number | null => {
+  if (!scores) return null;
+
+  const values = [scores.clarity_score, scores.confidence_score, scores.relevance_score]
+    .filter((v): v is number => v !== null && v !== undefined)
+    .map(Number);
+
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+};
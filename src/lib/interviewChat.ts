@@ -0,0 +1,91 @@
+const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/interview-chat`;
+
+interface StreamInterviewChatOptions {
+  body: Record<string, unknown>;
+  onDelta: (chunk: string) => void;
+  signal?: AbortSignal;
+}
+
+// Call interview-chat in streaming mode and forward each token as it arrives.
+// Resolves with the full reply once the stream is finished.
+export const streamInterviewChat = async ({ body, onDelta, signal }: StreamInterviewChatOptions): Promise<string> => {
+  const response = await fetch(CHAT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let errorMessage = 'Failed to get response.';
+    try {
+      const data = await response.json();
+      if (data?.error) errorMessage = data.error;
+    } catch {
+      // Non-JSON error body, keep the generic message
+    }
+    throw new Error(errorMessage);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+  let isDone = false;
+
+  while (!isDone) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Server-sent events are newline delimited; keep any partial line for the next chunk
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      let line = buffer.slice(0, newlineIndex);
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line.endsWith('\r')) line = line.slice(0, -1);
+      if (!line.startsWith('data: ')) continue;
+
+      const payload = line.slice(6).trim();
+      if (payload === '[DONE]') {
+        isDone = true;
+        break;
+      }
+
+      try {
+        const parsed = JSON.parse(payload);
+        const content: string | undefined = parsed.choices?.[0]?.delta?.content;
+        if (content) {
+          fullText += content;
+          onDelta(content);
+        }
+      } catch {
+        console.warn('Skipping malformed stream event:', payload);
+      }
+    }
+  }
+
+  return fullText;
+};
+
+// Split off every complete sentence from the start of a streaming buffer.
+// Whatever follows the last sentence boundary is returned as the remainder.
+export const splitCompleteSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]?\s+/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const sentence = text.slice(lastIndex, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    lastIndex = match.index + match[0].length;
+  }
+
+  return { sentences, rest: text.slice(lastIndex) };
+};
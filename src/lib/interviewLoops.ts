@@ -0,0 +1,309 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { DEFAULT_PERSONA_ID, getPersonaOption } from '@/lib/interviewPersonas';
+import type { ProctoringPolicyId } from '@/lib/proctoringPolicies';
+
+export type LoopRoundType = 'voice' | 'quiz';
+
+export interface LoopRound {
+  id: string;
+  type: LoopRoundType;
+  title: string;
+  minutes: number;
+  // Break before the next round starts
+  breakMinutes: number;
+  // Voice rounds: who interviews, and an optional case or topic to work through
+  personaId?: string;
+  focus?: string;
+  // Quiz rounds: where the questions come from
+  deckId?: string | null;
+  categoryId?: string | null;
+  adaptive?: boolean;
+}
+
+export interface InterviewLoop extends Omit<Tables<'interview_loops'>, 'rounds'> {
+  rounds: LoopRound[];
+}
+
+// What a run was started with, kept on the parent session
+export interface LoopPlan {
+  name: string;
+  rounds: LoopRound[];
+  // Every round runs under this policy; older runs fall back to the user's own
+  proctoringPolicy?: ProctoringPolicyId;
+}
+
+export interface LoopRoundSession {
+  id: string;
+  loop_round: number;
+  session_type: string;
+  status: string;
+  overall_score: number | null;
+  duration_minutes: number | null;
+  started_at: string | null;
+  ended_at: string | null;
+}
+
+export interface LoopRun {
+  id: string;
+  loopId: string | null;
+  status: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  overallScore: number | null;
+  plan: LoopPlan;
+  // Round sessions, in round order
+  sessions: LoopRoundSession[];
+}
+
+// Links a round's session back to its run
+export interface LoopRoundLink {
+  parentSessionId: string;
+  round: number;
+}
+
+export const LOOP_ROUND_TYPES: { id: LoopRoundType; label: string }[] = [
+  { id: 'voice', label: 'Voice interview' },
+  { id: 'quiz', label: 'Quiz' },
+];
+
+export const MAX_LOOP_ROUNDS = 8;
+
+export const createLoopRound = (type: LoopRoundType, overrides: Partial<LoopRound> = {}): LoopRound => ({
+  id: crypto.randomUUID(),
+  type,
+  title: type === 'voice' ? getPersonaOption(DEFAULT_PERSONA_ID).name : 'Quiz',
+  minutes: type === 'voice' ? 15 : 20,
+  breakMinutes: 5,
+  ...(type === 'voice' ? { personaId: DEFAULT_PERSONA_ID } : { deckId: null, categoryId: null }),
+  ...overrides,
+});
+
+// The loop a new user starts from: a screen, a behavioral quiz and a case
+export const getStarterRounds = (behavioralCategoryId: string | null): LoopRound[] => [
+  createLoopRound('voice', { title: 'Recruiter screen', minutes: 10, personaId: 'friendly-recruiter' }),
+  createLoopRound('quiz', { title: 'Behavioral questions', minutes: 20, categoryId: behavioralCategoryId }),
+  createLoopRound('voice', {
+    title: 'Case study',
+    minutes: 15,
+    breakMinutes: 0,
+    personaId: 'hiring-manager',
+    focus: 'Give me a realistic business case for this role and have me work through it step by step.',
+  }),
+];
+
+export const getLoopMinutes = (rounds: LoopRound[]) =>
+  rounds.reduce((sum, round, i) => sum + round.minutes + (i < rounds.length - 1 ? round.breakMinutes : 0), 0);
+
+const toRounds = (rounds: Json | null): LoopRound[] =>
+  Array.isArray(rounds) ? (rounds as unknown as LoopRound[]) : [];
+
+const toLoop = (row: Tables<'interview_loops'>): InterviewLoop => ({ ...row, rounds: toRounds(row.rounds) });
+
+export const getLoops = async (userId: string): Promise<InterviewLoop[]> => {
+  const { data, error } = await supabase
+    .from('interview_loops')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toLoop);
+};
+
+export const createLoop = async (
+  userId: string,
+  name: string,
+  rounds: LoopRound[],
+  proctoringPolicy: ProctoringPolicyId
+): Promise<InterviewLoop> => {
+  const { data, error } = await supabase
+    .from('interview_loops')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      rounds: rounds as unknown as Json,
+      proctoring_policy: proctoringPolicy,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toLoop(data);
+};
+
+export const updateLoop = async (
+  loopId: string,
+  name: string,
+  rounds: LoopRound[],
+  proctoringPolicy: ProctoringPolicyId
+): Promise<InterviewLoop> => {
+  const { data, error } = await supabase
+    .from('interview_loops')
+    .update({ name: name.trim(), rounds: rounds as unknown as Json, proctoring_policy: proctoringPolicy })
+    .eq('id', loopId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toLoop(data);
+};
+
+// Past runs keep their rounds; they just lose the link to the loop
+export const deleteLoop = async (loopId: string) => {
+  const { error } = await supabase
+    .from('interview_loops')
+    .delete()
+    .eq('id', loopId);
+
+  if (error) throw error;
+};
+
+// Start a run: the parent session every round session will point at
+export const startLoopRun = async (userId: string, loop: InterviewLoop): Promise<string> => {
+  const plan: LoopPlan = {
+    name: loop.name,
+    rounds: loop.rounds,
+    proctoringPolicy: loop.proctoring_policy as ProctoringPolicyId,
+  };
+
+  const { data, error } = await supabase
+    .from('interview_sessions')
+    .insert({
+      user_id: userId,
+      session_type: 'loop',
+      status: 'in_progress',
+      started_at: new Date().toISOString(),
+      loop_id: loop.id,
+      loop_plan: plan as unknown as Json,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const getLoopRun = async (runId: string): Promise<LoopRun | null> => {
+  const [runRes, sessionsRes] = await Promise.all([
+    supabase
+      .from('interview_sessions')
+      .select('id, loop_id, loop_plan, status, started_at, ended_at, overall_score')
+      .eq('id', runId)
+      .eq('session_type', 'loop')
+      .maybeSingle(),
+    supabase
+      .from('interview_sessions')
+      .select('id, loop_round, session_type, status, overall_score, duration_minutes, started_at, ended_at')
+      .eq('parent_session_id', runId)
+      .order('loop_round', { ascending: true })
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (runRes.error) throw runRes.error;
+  if (sessionsRes.error) throw sessionsRes.error;
+  if (!runRes.data) return null;
+
+  const plan = runRes.data.loop_plan as unknown as LoopPlan | null;
+
+  return {
+    id: runRes.data.id,
+    loopId: runRes.data.loop_id,
+    status: runRes.data.status,
+    startedAt: runRes.data.started_at,
+    endedAt: runRes.data.ended_at,
+    overallScore: runRes.data.overall_score,
+    plan: {
+      name: plan?.name || 'Interview loop',
+      rounds: toRounds(plan?.rounds as unknown as Json),
+      proctoringPolicy: plan?.proctoringPolicy,
+    },
+    sessions: (sessionsRes.data || []) as LoopRoundSession[],
+  };
+};
+
+// Recent runs, newest first
+export const getLoopRuns = async (userId: string, limit = 10) => {
+  const { data, error } = await supabase
+    .from('interview_sessions')
+    .select('id, loop_id, loop_plan, status, started_at, overall_score, duration_minutes')
+    .eq('user_id', userId)
+    .eq('session_type', 'loop')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).map((run) => ({
+    ...run,
+    name: (run.loop_plan as unknown as LoopPlan | null)?.name || 'Interview loop',
+  }));
+};
+
+// The finished session for a round, if there is one. A round that was
+// retried keeps only its latest completed attempt.
+export const getRoundSession = (run: LoopRun, round: number) =>
+  [...run.sessions].reverse().find((s) => s.loop_round === round && s.status === 'completed') || null;
+
+export const getNextRound = (run: LoopRun) =>
+  run.plan.rounds.findIndex((_, i) => !getRoundSession(run, i));
+
+export interface LoopReport {
+  roundsCompleted: number;
+  totalMinutes: number;
+  // Average of the graded rounds, on the 0-10 session scale
+  overallScore: number | null;
+  strongest: { round: LoopRound; score: number } | null;
+  weakest: { round: LoopRound; score: number } | null;
+}
+
+export const buildLoopReport = (run: LoopRun): LoopReport => {
+  const scored = run.plan.rounds.flatMap((round, i) => {
+    const session = getRoundSession(run, i);
+    return session?.overall_score !== null && session?.overall_score !== undefined
+      ? [{ round, score: Number(session.overall_score) }]
+      : [];
+  });
+  const completed = run.plan.rounds.map((_, i) => getRoundSession(run, i)).filter((s) => !!s);
+  const sorted = [...scored].sort((a, b) => b.score - a.score);
+
+  return {
+    roundsCompleted: completed.length,
+    totalMinutes: completed.reduce((sum, s) => sum + (s.duration_minutes || 0), 0),
+    overallScore: scored.length > 0
+      ? Math.round((scored.reduce((sum, s) => sum + s.score, 0) / scored.length) * 10) / 10
+      : null,
+    strongest: sorted.length > 1 ? sorted[0] : null,
+    weakest: sorted.length > 1 ? sorted[sorted.length - 1] : null,
+  };
+};
+
+export const completeLoopRun = async (run: LoopRun) => {
+  const report = buildLoopReport(run);
+
+  const { error } = await supabase
+    .from('interview_sessions')
+    .update({
+      status: 'completed',
+      ended_at: new Date().toISOString(),
+      duration_minutes: report.totalMinutes,
+      overall_score: report.overallScore,
+    })
+    .eq('id', run.id);
+
+  if (error) throw error;
+};
+
+export const abandonLoopRun = async (runId: string) => {
+  const { error } = await supabase
+    .from('interview_sessions')
+    .update({ status: 'abandoned', ended_at: new Date().toISOString() })
+    .eq('id', runId);
+
+  if (error) throw error;
+};
+
+// Where a voice round runs; it comes back to the run page when it ends
+export const getVoiceRoundPath = (runId: string, round: number) =>
+  `/voice-interview?loop=${runId}&round=${round}`;
+
+export const getLoopRunPath = (runId: string) => `/loops/run/${runId}`;
@@ -0,0 +1,75 @@
+import { Smile, Briefcase, ShieldAlert, Code, Users } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+// Client-side metadata for the interviewer personas. The prompts themselves
+// live in supabase/functions/interview-chat/personas.ts, keyed by the same ids.
+export interface InterviewPersonaOption {
+  id: string;
+  name: string;
+  description: string;
+  intensity: 'low' | 'medium' | 'high';
+  briefing: string;
+  icon: LucideIcon;
+  // ElevenLabs voice used when the premium voice is on
+  ttsVoiceId: string;
+  ttsVoiceName: string;
+}
+
+export const INTERVIEW_PERSONAS: InterviewPersonaOption[] = [
+  {
+    id: 'friendly-recruiter',
+    name: 'Friendly Recruiter',
+    description: 'Warm first-round screen on background and motivation',
+    intensity: 'low',
+    briefing: 'A relaxed recruiter screen. Expect questions about your background, motivation and logistics.',
+    icon: Smile,
+    ttsVoiceId: 'EXAVITQu4vr4xnSDxMaL',
+    ttsVoiceName: 'Sarah',
+  },
+  {
+    id: 'hiring-manager',
+    name: 'Hiring Manager',
+    description: 'Role fit, ownership and the results you delivered',
+    intensity: 'medium',
+    briefing: 'The hiring manager wants concrete examples of impact and how you would handle the role day to day.',
+    icon: Briefcase,
+    ttsVoiceId: 'JBFqnCBsd6RMkjVDRZzb',
+    ttsVoiceName: 'George',
+  },
+  {
+    id: 'bar-raiser',
+    name: 'Bar Raiser',
+    description: 'Skeptical stress interview that presses for details',
+    intensity: 'high',
+    briefing: 'This is a stress interview simulation. The AI will be skeptical and press for details. Stay calm and answer confidently!',
+    icon: ShieldAlert,
+    ttsVoiceId: 'onwK4e9ZLuTAKqWW03F9',
+    ttsVoiceName: 'Daniel',
+  },
+  {
+    id: 'technical-lead',
+    name: 'Technical Lead',
+    description: 'Hands-on depth, trade-offs and practical scenarios',
+    intensity: 'high',
+    briefing: 'The technical lead will dig into your hands-on experience and ask you to reason through realistic problems.',
+    icon: Code,
+    ttsVoiceId: 'nPczCjzI2devNBz1zQrb',
+    ttsVoiceName: 'Brian',
+  },
+  {
+    id: 'panel',
+    name: 'Interview Panel',
+    description: 'Three panelists taking turns from different angles',
+    intensity: 'medium',
+    briefing: 'A three-person panel will take turns asking questions. Keep your answers consistent across perspectives.',
+    icon: Users,
+    ttsVoiceId: 'XB0fDUnXU5powFXDhCwa',
+    ttsVoiceName: 'Charlotte',
+  },
+];
+
+export const DEFAULT_PERSONA_ID = 'bar-raiser';
+
+export const getPersonaOption = (personaId: string): InterviewPersonaOption =>
+  INTERVIEW_PERSONAS.find((p) => p.id === personaId) ||
+  INTERVIEW_PERSONAS.find((p) => p.id === DEFAULT_PERSONA_ID)!;
@@ -0,0 +1,222 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { addQuestionsToDeck, createDeck, deleteDeck } from '@/lib/questionBank';
+import { insertQuestionsInBatches } from '@/lib/questionImport';
+import { searchQuestions } from '@/lib/questionSearch';
+
+export type JobTarget = Tables<'job_targets'>;
+
+export interface JobTargetInput {
+  company: string;
+  title: string;
+  level: string;
+  job_description: string | null;
+}
+
+// What the voice interviewer is told about the job
+export interface JobTargetContext {
+  company: string;
+  title: string;
+  level: string;
+  jobDescription: string | null;
+  packQuestions: string[];
+}
+
+export const JOB_LEVELS = [
+  { id: 'intern', label: 'Intern' },
+  { id: 'junior', label: 'Junior' },
+  { id: 'mid', label: 'Mid-level' },
+  { id: 'senior', label: 'Senior' },
+  { id: 'staff', label: 'Staff / Principal' },
+  { id: 'manager', label: 'Manager' },
+  { id: 'director', label: 'Director+' },
+] as const;
+
+export const DEFAULT_GENERATED_QUESTIONS = 10;
+const LIBRARY_MATCH_LIMIT = 10;
+const KEYWORD_LIMIT = 12;
+// The interviewer prompt only needs a sample of the pack
+const VOICE_PACK_QUESTIONS = 15;
+
+const STOP_WORDS = new Set([
+  'about', 'above', 'after', 'also', 'and', 'are', 'been', 'being', 'both', 'but', 'can', 'could',
+  'each', 'experience', 'for', 'from', 'have', 'help', 'including', 'into', 'join', 'like', 'looking',
+  'more', 'must', 'other', 'our', 'over', 'preferred', 'required', 'requirements', 'role', 'should',
+  'skills', 'such', 'team', 'that', 'their', 'them', 'there', 'these', 'they', 'this', 'through',
+  'using', 'well', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'within', 'work',
+  'working', 'would', 'years', 'you', 'your',
+]);
+
+export const getJobLevelLabel = (level: string) =>
+  JOB_LEVELS.find((l) => l.id === level)?.label || level;
+
+export const getPackName = (target: Pick<JobTarget, 'company' | 'title'>) =>
+  `${target.company} · ${target.title}`;
+
+// Blank optional fields are stored as null rather than empty strings
+const cleanJobTargetInput = (input: JobTargetInput): JobTargetInput => ({
+  company: input.company.trim(),
+  title: input.title.trim(),
+  level: input.level,
+  job_description: input.job_description?.trim() || null,
+});
+
+export const getJobTargets = async (userId: string): Promise<JobTarget[]> => {
+  const { data, error } = await supabase
+    .from('job_targets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createJobTarget = async (userId: string, input: JobTargetInput): Promise<JobTarget> => {
+  const { data, error } = await supabase
+    .from('job_targets')
+    .insert({ ...cleanJobTargetInput(input), user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateJobTarget = async (targetId: string, input: JobTargetInput): Promise<JobTarget> => {
+  const { data, error } = await supabase
+    .from('job_targets')
+    .update(cleanJobTargetInput(input))
+    .eq('id', targetId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// The pack deck goes with the target; generated questions stay in the
+// user's library
+export const deleteJobTarget = async (target: JobTarget) => {
+  const { error } = await supabase
+    .from('job_targets')
+    .delete()
+    .eq('id', target.id);
+
+  if (error) throw error;
+  if (target.deck_id) await deleteDeck(target.deck_id);
+};
+
+// Most frequent meaningful words, for matching library questions
+export const extractKeywords = (text: string, limit = KEYWORD_LIMIT): string[] => {
+  const counts = new Map<string, number>();
+
+  for (const word of text.toLowerCase().match(/[a-z][a-z+#.-]{2,}/g) || []) {
+    const cleaned = word.replace(/[.-]+$/, '');
+    if (cleaned.length < 3 || STOP_WORDS.has(cleaned)) continue;
+    counts.set(cleaned, (counts.get(cleaned) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+};
+
+// Library questions that share the most terms with the title and posting.
+// Terms are OR-ed so a question only needs to hit some of them.
+export const findLibraryMatches = async (target: JobTarget, limit = LIBRARY_MATCH_LIMIT) => {
+  const keywords = [...new Set([
+    ...extractKeywords(target.title, 4),
+    ...extractKeywords(target.job_description || ''),
+  ])];
+  if (keywords.length === 0) return [];
+
+  const { results } = await searchQuestions({ query: keywords.join(' or ') }, { pageSize: limit });
+  return results;
+};
+
+const getDeckQuestionTexts = async (deckId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('question_deck_items')
+    .select('interview_questions(question_text)')
+    .eq('deck_id', deckId);
+
+  if (error) throw error;
+  return (data || [])
+    .map((item) => item.interview_questions?.question_text)
+    .filter((text): text is string => !!text);
+};
+
+// Build or top up a target's pack: matching library questions first, then
+// AI-written questions drawn from the job description. Generating again adds
+// new questions to the same deck.
+export const generateJobPack = async (
+  userId: string,
+  target: JobTarget,
+  { count = DEFAULT_GENERATED_QUESTIONS }: { count?: number } = {}
+): Promise<{ target: JobTarget; matched: number; generated: number }> => {
+  const deckId = target.deck_id
+    || (await createDeck(userId, getPackName(target), `Tailored pack for ${target.title} at ${target.company}`)).id;
+
+  const matches = await findLibraryMatches(target);
+  await addQuestionsToDeck(deckId, matches.map((q) => q.id));
+
+  const { data, error } = await supabase.functions.invoke('generate-job-pack', {
+    body: { jobTargetId: target.id, count, existingQuestions: await getDeckQuestionTexts(deckId) },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  const generated = (data?.questions || []) as {
+    question_text: string;
+    difficulty: 'easy' | 'medium' | 'hard';
+    tips: string | null;
+    sample_answer: string | null;
+  }[];
+
+  await insertQuestionsInBatches(
+    userId,
+    generated.map((q) => ({
+      question_text: q.question_text,
+      difficulty: q.difficulty,
+      industry: null,
+      role: target.title,
+      tips: q.tips,
+      sample_answer: q.sample_answer,
+    })),
+    { deckId }
+  );
+
+  const { data: updated, error: updateError } = await supabase
+    .from('job_targets')
+    .update({ deck_id: deckId, pack_generated_at: new Date().toISOString() })
+    .eq('id', target.id)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+  return { target: updated, matched: matches.length, generated: generated.length };
+};
+
+export const getJobTargetContext = async (targetId: string): Promise<JobTargetContext | null> => {
+  const { data: target, error } = await supabase
+    .from('job_targets')
+    .select('*')
+    .eq('id', targetId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!target) return null;
+
+  const packQuestions = target.deck_id ? await getDeckQuestionTexts(target.deck_id) : [];
+
+  return {
+    company: target.company,
+    title: target.title,
+    level: getJobLevelLabel(target.level),
+    jobDescription: target.job_description,
+    packQuestions: packQuestions.slice(0, VOICE_PACK_QUESTIONS),
+  };
+};
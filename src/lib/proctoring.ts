@@ -0,0 +1,196 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { CheatingEvent } from '@/hooks/useCheatingDetection';
+import type { ProctoringPolicy, ProctoringPolicyId } from '@/lib/proctoringPolicies';
+
+export type ProctoringEventType = CheatingEvent['type'];
+
+export type ProctoringEvent = Tables<'proctoring_events'>;
+
+export const PROCTORING_EVENT_TYPES: { id: ProctoringEventType; label: string }[] = [
+  { id: 'tab_switch', label: 'Tab switch' },
+  { id: 'looking_away', label: 'Looked away' },
+  { id: 'phone_detected', label: 'Phone' },
+  { id: 'person_missing', label: 'Left camera view' },
+  { id: 'multiple_people', label: 'Someone else' },
+  { id: 'paste', label: 'Paste' },
+  { id: 'typing_burst', label: 'Typing burst' },
+  { id: 'devtools_open', label: 'Devtools' },
+  { id: 'fullscreen_exit', label: 'Left full screen' },
+  { id: 'second_display', label: 'Second display' },
+];
+
+export interface IntegritySummary {
+  // 100 means nothing was flagged
+  score: number;
+  level: 'low' | 'medium' | 'high';
+  totalEvents: number;
+  counts: Record<ProctoringEventType, number>;
+  // Time covered by at least one event; overlapping events count once
+  flaggedSeconds: number;
+  longestEvent: { type: ProctoringEventType; seconds: number; offsetSeconds: number } | null;
+  durationSeconds: number;
+  // Missing on reports saved before sessions ran under a policy
+  policy?: ProctoringPolicyId;
+  // More warnings than the policy allowed
+  escalated?: boolean;
+}
+
+// Points taken off per event. A phone or a tab switch says more than a
+// glance away from the camera.
+const EVENT_PENALTY: Record<ProctoringEventType, number> = {
+  tab_switch: 8,
+  phone_detected: 10,
+  multiple_people: 10,
+  person_missing: 6,
+  looking_away: 3,
+  paste: 8,
+  typing_burst: 5,
+  devtools_open: 12,
+  fullscreen_exit: 4,
+  second_display: 6,
+};
+// Up to this many more points for the share of the session spent flagged
+const FLAGGED_TIME_PENALTY = 40;
+
+export const getEventLabel = (type: string) =>
+  PROCTORING_EVENT_TYPES.find((t) => t.id === type)?.label || type;
+
+export const getIntegrityLevel = (score: number): IntegritySummary['level'] => {
+  if (score >= 80) return 'low';
+  if (score >= 50) return 'medium';
+  return 'high';
+};
+
+// Seconds from the session start, never negative
+export const getEventOffset = (event: Pick<ProctoringEvent, 'occurred_at'>, sessionStart: string) =>
+  Math.max(0, (new Date(event.occurred_at).getTime() - new Date(sessionStart).getTime()) / 1000);
+
+export const buildIntegritySummary = (
+  events: Pick<ProctoringEvent, 'event_type' | 'occurred_at' | 'duration_ms'>[],
+  sessionStart: string,
+  durationSeconds: number
+): IntegritySummary => {
+  const counts = Object.fromEntries(PROCTORING_EVENT_TYPES.map((t) => [t.id, 0])) as Record<ProctoringEventType, number>;
+  events.forEach((e) => {
+    if (e.event_type in counts) counts[e.event_type as ProctoringEventType] += 1;
+  });
+
+  const intervals = events
+    .map((e) => {
+      const start = getEventOffset(e, sessionStart);
+      return { type: e.event_type as ProctoringEventType, start, end: start + (e.duration_ms || 0) / 1000 };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  let flaggedSeconds = 0;
+  let coveredUntil = 0;
+  intervals.forEach(({ start, end }) => {
+    if (end > coveredUntil) {
+      flaggedSeconds += end - Math.max(start, coveredUntil);
+      coveredUntil = end;
+    }
+  });
+
+  const longest = intervals.reduce<typeof intervals[number] | null>(
+    (best, i) => (!best || i.end - i.start > best.end - best.start ? i : best),
+    null
+  );
+
+  const flaggedShare = durationSeconds > 0 ? Math.min(flaggedSeconds / durationSeconds, 1) : 0;
+  const penalty = PROCTORING_EVENT_TYPES.reduce((sum, t) => sum + counts[t.id] * EVENT_PENALTY[t.id], 0)
+    + flaggedShare * FLAGGED_TIME_PENALTY;
+  const score = Math.max(0, Math.round(100 - penalty));
+
+  return {
+    score,
+    level: getIntegrityLevel(score),
+    totalEvents: events.length,
+    counts,
+    flaggedSeconds: Math.round(flaggedSeconds),
+    longestEvent: longest && longest.end > longest.start
+      ? { type: longest.type, seconds: Math.round(longest.end - longest.start), offsetSeconds: Math.round(longest.start) }
+      : null,
+    durationSeconds,
+  };
+};
+
+export const toIntegritySummary = (value: Json | null) =>
+  value && typeof value === 'object' && 'score' in value ? (value as unknown as IntegritySummary) : null;
+
+// Store the session's event log and its summary, and which policy it ran
+// under. Sessions run with proctoring off keep no report.
+export const saveProctoringReport = async (
+  sessionId: string,
+  userId: string,
+  sessionStart: string,
+  durationSeconds: number,
+  log: CheatingEvent[],
+  policy: ProctoringPolicy
+): Promise<IntegritySummary | null> => {
+  const rows = log.map((event) => ({
+    session_id: sessionId,
+    user_id: userId,
+    event_type: event.type,
+    message: event.message,
+    occurred_at: event.timestamp.toISOString(),
+    duration_ms: event.duration !== undefined ? Math.round(event.duration) : null,
+    details: (event.details || null) as Json,
+  }));
+  // Every logged event was a violation, so the log says whether it escalated
+  const escalated = policy.warningsBeforeEscalation !== null && log.length > policy.warningsBeforeEscalation;
+  const summary = policy.signals.length > 0
+    ? { ...buildIntegritySummary(rows, sessionStart, durationSeconds), policy: policy.id, escalated }
+    : null;
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('proctoring_events').insert(rows);
+    if (error) throw error;
+  }
+
+  const { error } = await supabase
+    .from('interview_sessions')
+    .update({ integrity_summary: summary as unknown as Json, proctoring_policy: policy.id })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+  return summary;
+};
+
+export const getProctoringEvents = async (sessionId: string): Promise<ProctoringEvent[]> => {
+  const { data, error } = await supabase
+    .from('proctoring_events')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('occurred_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// CSV of the timeline, one row per event, for sharing outside the app
+export const exportProctoringReport = (
+  events: ProctoringEvent[],
+  sessionStart: string
+): { blob: Blob; filename: string } => {
+  const lines = [
+    'occurred_at,offset_seconds,type,duration_seconds,message,details',
+    ...events.map((e) => [
+      e.occurred_at,
+      getEventOffset(e, sessionStart).toFixed(1),
+      e.event_type,
+      e.duration_ms !== null ? (e.duration_ms / 1000).toFixed(1) : '',
+      escapeCsvCell(e.message),
+      e.details ? escapeCsvCell(JSON.stringify(e.details)) : '',
+    ].join(',')),
+  ];
+
+  // Leading BOM so Excel opens the file as UTF-8
+  return {
+    blob: new Blob(['\uFEFF', lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }),
+    filename: `integrity-report-${sessionStart.slice(0, 10)}.csv`,
+  };
+};
@@ -0,0 +1,133 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CheatingEvent, SuspicionWeights } from '@/hooks/useCheatingDetection';
+
+export type ProctoringPolicyId = 'off' | 'coaching' | 'strict' | 'exam';
+
+export interface ProctoringPolicy {
+  id: ProctoringPolicyId;
+  name: string;
+  description: string;
+  // Signals watched during the session; anything else is never flagged
+  signals: CheatingEvent['type'][];
+  eyeContactThreshold: number;
+  lookAwayDurationMs: number;
+  weights?: Partial<SuspicionWeights>;
+  // Live alerts and warning toasts
+  showAlerts: boolean;
+  // Violations allowed before the session is escalated; null never escalates
+  warningsBeforeEscalation: number | null;
+  // End the session when it escalates instead of only flagging it
+  autoEnd: boolean;
+}
+
+const CAMERA_SIGNALS: CheatingEvent['type'][] = ['looking_away', 'person_missing', 'phone_detected', 'multiple_people'];
+const TYPING_SIGNALS: CheatingEvent['type'][] = ['paste', 'typing_burst'];
+const ENVIRONMENT_SIGNALS: CheatingEvent['type'][] = ['devtools_open', 'fullscreen_exit', 'second_display'];
+
+export const PROCTORING_POLICIES: ProctoringPolicy[] = [
+  {
+    id: 'off',
+    name: 'Off',
+    description: 'Nothing is watched and no integrity report is kept.',
+    signals: [],
+    eyeContactThreshold: 40,
+    lookAwayDurationMs: 2000,
+    showAlerts: false,
+    warningsBeforeEscalation: null,
+    autoEnd: false,
+  },
+  {
+    id: 'coaching',
+    name: 'Coaching only',
+    description: 'Live alerts and an integrity report, but nothing is ever escalated.',
+    signals: ['tab_switch', ...CAMERA_SIGNALS, ...TYPING_SIGNALS],
+    eyeContactThreshold: 40,
+    lookAwayDurationMs: 2000,
+    showAlerts: true,
+    warningsBeforeEscalation: null,
+    autoEnd: false,
+  },
+  {
+    id: 'strict',
+    name: 'Strict',
+    description: 'Every signal with tighter thresholds. The session is flagged after 5 warnings.',
+    signals: ['tab_switch', ...CAMERA_SIGNALS, ...TYPING_SIGNALS, ...ENVIRONMENT_SIGNALS],
+    eyeContactThreshold: 45,
+    lookAwayDurationMs: 1500,
+    showAlerts: true,
+    warningsBeforeEscalation: 5,
+    autoEnd: false,
+  },
+  {
+    id: 'exam',
+    name: 'Exam',
+    description: 'Exam rules: 3 warnings, then the session ends.',
+    signals: ['tab_switch', ...CAMERA_SIGNALS, ...TYPING_SIGNALS, ...ENVIRONMENT_SIGNALS],
+    eyeContactThreshold: 50,
+    lookAwayDurationMs: 1500,
+    // Leaving the tab is the clearest sign of looking something up
+    weights: { tab_switch: 2 },
+    showAlerts: true,
+    warningsBeforeEscalation: 3,
+    autoEnd: true,
+  },
+];
+
+export const DEFAULT_PROCTORING_POLICY_ID: ProctoringPolicyId = 'coaching';
+
+export const getProctoringPolicy = (id: string | null | undefined): ProctoringPolicy =>
+  PROCTORING_POLICIES.find((p) => p.id === id)
+  || PROCTORING_POLICIES.find((p) => p.id === DEFAULT_PROCTORING_POLICY_ID)!;
+
+// The useCheatingDetection options a policy sets
+export const getDetectionOptions = (policy: ProctoringPolicy) => ({
+  signals: policy.signals,
+  eyeContactThreshold: policy.eyeContactThreshold,
+  lookAwayDurationMs: policy.lookAwayDurationMs,
+  weights: policy.weights,
+  warningsBeforeEscalation: policy.warningsBeforeEscalation,
+});
+
+// The toast for a violation, if the policy shows one. Policies that escalate
+// count down the warnings; coaching only nudges about leaving the tab.
+export const getViolationWarning = (
+  policy: ProctoringPolicy,
+  event: CheatingEvent,
+  violationCount: number
+): { title: string; description: string } | null => {
+  if (!policy.showAlerts) return null;
+
+  const allowed = policy.warningsBeforeEscalation;
+  if (allowed === null) {
+    return event.type === 'tab_switch'
+      ? { title: 'Tab Switch Detected', description: 'Please stay on this tab until you finish.' }
+      : null;
+  }
+  if (violationCount > allowed) return null;
+
+  return {
+    title: `Warning ${violationCount} of ${allowed}`,
+    description: violationCount === allowed
+      ? `${event.message}. The next one ${policy.autoEnd ? 'ends the session' : 'flags the session'}.`
+      : event.message,
+  };
+};
+
+export const getEscalationNotice = (policy: ProctoringPolicy) =>
+  policy.autoEnd
+    ? { title: 'Session ended', description: `Too many integrity warnings under the ${policy.name} policy.` }
+    : { title: 'Session flagged', description: 'Too many integrity warnings. This session is flagged in its report.' };
+
+export const getProctoringPolicyPreference = async (userId: string): Promise<ProctoringPolicy> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('proctoring_policy')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading proctoring policy preference:', error);
+  }
+
+  return getProctoringPolicy(data?.proctoring_policy);
+};
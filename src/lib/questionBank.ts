@@ -0,0 +1,227 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuestionInput {
+  question_text: string;
+  category_id: string | null;
+  difficulty: QuestionDifficulty;
+  tips: string | null;
+  sample_answer: string | null;
+}
+
+export type QuestionDeck = Tables<'question_decks'> & { question_ids: string[] };
+
+// A shared deck's questions come without their author
+export type SharedDeckQuestion = Database['public']['Functions']['get_shared_deck_questions']['Returns'][number];
+
+export interface SharedDeck {
+  id: string;
+  name: string;
+  description: string | null;
+  questions: SharedDeckQuestion[];
+}
+
+// The parts of a deck Practice needs, for the user's own decks and for a
+// deck opened through a share link
+export interface DeckSummary {
+  id: string;
+  name: string;
+  question_ids: string[];
+  isShared?: boolean;
+}
+
+// Where Practice draws its cards from
+export type QuestionSource =
+  | { type: 'all' }
+  | { type: 'mine' }
+  | { type: 'deck'; deckId: string }
+  | { type: 'question'; questionId: string };
+
+// Blank optional fields are stored as null rather than empty strings
+const cleanQuestionInput = (input: QuestionInput): QuestionInput => ({
+  question_text: input.question_text.trim(),
+  category_id: input.category_id || null,
+  difficulty: input.difficulty,
+  tips: input.tips?.trim() || null,
+  sample_answer: input.sample_answer?.trim() || null,
+});
+
+export const isOwnQuestion = (question: { user_id?: string | null }, userId: string | undefined) =>
+  !!userId && question.user_id === userId;
+
+export const createQuestion = async (userId: string, input: QuestionInput) => {
+  const { data, error } = await supabase
+    .from('interview_questions')
+    .insert({ ...cleanQuestionInput(input), user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateQuestion = async (questionId: string, input: QuestionInput) => {
+  const { data, error } = await supabase
+    .from('interview_questions')
+    .update(cleanQuestionInput(input))
+    .eq('id', questionId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteQuestion = async (questionId: string) => {
+  const { error } = await supabase
+    .from('interview_questions')
+    .delete()
+    .eq('id', questionId);
+
+  if (error) throw error;
+};
+
+export const getQuestionNote = async (userId: string, questionId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('question_notes')
+    .select('content')
+    .eq('user_id', userId)
+    .eq('question_id', questionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.content || '';
+};
+
+export const saveQuestionNote = async (userId: string, questionId: string, content: string) => {
+  const { error } = await supabase
+    .from('question_notes')
+    .upsert(
+      { user_id: userId, question_id: questionId, content },
+      { onConflict: 'user_id,question_id' }
+    );
+
+  if (error) throw error;
+};
+
+export const getDecks = async (userId: string): Promise<QuestionDeck[]> => {
+  const { data, error } = await supabase
+    .from('question_decks')
+    .select('*, question_deck_items(question_id)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(({ question_deck_items, ...deck }) => ({
+    ...deck,
+    question_ids: (question_deck_items || []).map((item) => item.question_id),
+  }));
+};
+
+export const createDeck = async (userId: string, name: string, description?: string): Promise<QuestionDeck> => {
+  const { data, error } = await supabase
+    .from('question_decks')
+    .insert({ user_id: userId, name: name.trim(), description: description?.trim() || null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { ...data, question_ids: [] };
+};
+
+export const deleteDeck = async (deckId: string) => {
+  const { error } = await supabase
+    .from('question_decks')
+    .delete()
+    .eq('id', deckId);
+
+  if (error) throw error;
+};
+
+export const addQuestionsToDeck = async (deckId: string, questionIds: string[]) => {
+  if (questionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('question_deck_items')
+    .upsert(
+      questionIds.map((questionId) => ({ deck_id: deckId, question_id: questionId })),
+      { onConflict: 'deck_id,question_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+export const addQuestionToDeck = (deckId: string, questionId: string) =>
+  addQuestionsToDeck(deckId, [questionId]);
+
+export const removeQuestionFromDeck = async (deckId: string, questionId: string) => {
+  const { error } = await supabase
+    .from('question_deck_items')
+    .delete()
+    .eq('deck_id', deckId)
+    .eq('question_id', questionId);
+
+  if (error) throw error;
+};
+
+// Turn link sharing on (a fresh token) or off (no token, so old links stop working)
+export const setDeckSharing = async (deckId: string, shared: boolean): Promise<string | null> => {
+  const shareToken = shared ? crypto.randomUUID() : null;
+
+  const { error } = await supabase
+    .from('question_decks')
+    .update({ share_token: shareToken })
+    .eq('id', deckId);
+
+  if (error) throw error;
+  return shareToken;
+};
+
+export const getDeckShareUrl = (shareToken: string) =>
+  `${window.location.origin}/practice?shared=${shareToken}`;
+
+export const toDeckSummary = (deck: QuestionDeck | SharedDeck): DeckSummary =>
+  'questions' in deck
+    ? { id: deck.id, name: deck.name, question_ids: deck.questions.map((q) => q.id), isShared: true }
+    : { id: deck.id, name: deck.name, question_ids: deck.question_ids };
+
+export const getSharedDeck = async (shareToken: string): Promise<SharedDeck | null> => {
+  const [deckRes, questionsRes] = await Promise.all([
+    supabase.rpc('get_shared_deck', { _share_token: shareToken }),
+    supabase.rpc('get_shared_deck_questions', { _share_token: shareToken }),
+  ]);
+
+  if (deckRes.error) throw deckRes.error;
+  if (questionsRes.error) throw questionsRes.error;
+
+  const deck = deckRes.data?.[0];
+  if (!deck) return null;
+
+  return {
+    id: deck.id,
+    name: deck.name,
+    description: deck.description,
+    questions: questionsRes.data || [],
+  };
+};
+
+// Narrow a question list to the chosen source. Questions from a shared deck
+// have to be merged into the list first, since RLS hides them otherwise.
+export const filterBySource = <T extends { id: string; user_id?: string | null }>(
+  questions: T[],
+  source: QuestionSource,
+  decks: DeckSummary[],
+  userId: string | undefined
+): T[] => {
+  if (source.type === 'mine') return questions.filter((q) => isOwnQuestion(q, userId));
+  if (source.type === 'deck') {
+    const deck = decks.find((d) => d.id === source.deckId);
+    const ids = new Set(deck?.question_ids || []);
+    return questions.filter((q) => ids.has(q.id));
+  }
+  if (source.type === 'question') return questions.filter((q) => q.id === source.questionId);
+  return questions;
+};
@@ -0,0 +1,96 @@
+export type ExportFormat = 'csv' | 'json' | 'anki';
+
+export interface ExportableQuestion {
+  question_text: string;
+  difficulty: string;
+  industry?: string | null;
+  role?: string | null;
+  tips?: string | null;
+  sample_answer?: string | null;
+  question_categories?: { name: string } | null;
+}
+
+// Same column names the importer recognises, so exports round-trip
+const EXPORT_COLUMNS = ['question_text', 'sample_answer', 'difficulty', 'tips', 'industry', 'role', 'category'] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+const toRecord = (question: ExportableQuestion): Record<ExportColumn, string> => ({
+  question_text: question.question_text,
+  sample_answer: question.sample_answer || '',
+  difficulty: question.difficulty,
+  tips: question.tips || '',
+  industry: question.industry || '',
+  role: question.role || '',
+  category: question.question_categories?.name || '',
+});
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (questions: ExportableQuestion[]) =>
+  [
+    EXPORT_COLUMNS.join(','),
+    ...questions.map((q) => {
+      const record = toRecord(q);
+      return EXPORT_COLUMNS.map((column) => escapeCsvCell(record[column])).join(',');
+    }),
+  ].join('\r\n');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+
+// Anki plain-text notes: front is the question, back the sample answer and
+// tips, and difficulty becomes a tag so it can be filtered in Anki
+const toAnkiText = (questions: ExportableQuestion[]) =>
+  [
+    '#separator:tab',
+    '#html:true',
+    '#tags column:3',
+    ...questions.map((q) => {
+      const back = [q.sample_answer, q.tips ? `Tip: ${q.tips}` : null].filter(Boolean).join('\n\n');
+      const tags = [q.difficulty, q.question_categories?.name]
+        .filter(Boolean)
+        .map((tag) => tag!.toLowerCase().replace(/\s+/g, '_'));
+      return [escapeHtml(q.question_text), escapeHtml(back), tags.join(' ')].join('\t');
+    }),
+  ].join('\n');
+
+export const exportQuestions = (
+  questions: ExportableQuestion[],
+  format: ExportFormat,
+  name = 'questions'
+): { blob: Blob; filename: string } => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'questions';
+
+  if (format === 'json') {
+    return {
+      blob: new Blob([JSON.stringify({ questions: questions.map(toRecord) }, null, 2)], { type: 'application/json' }),
+      filename: `${slug}.json`,
+    };
+  }
+
+  if (format === 'anki') {
+    return {
+      blob: new Blob([toAnkiText(questions)], { type: 'text/plain;charset=utf-8' }),
+      filename: `${slug}-anki.txt`,
+    };
+  }
+
+  // Leading BOM so Excel opens the file as UTF-8
+  return {
+    blob: new Blob(['\uFEFF', toCsv(questions)], { type: 'text/csv;charset=utf-8' }),
+    filename: `${slug}.csv`,
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
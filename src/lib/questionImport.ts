@@ -0,0 +1,365 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { addQuestionsToDeck } from '@/lib/questionBank';
+
+export type ImportFormat = 'csv' | 'json' | 'anki';
+
+export type ImportField = 'question_text' | 'difficulty' | 'industry' | 'role' | 'tips' | 'sample_answer';
+
+export const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean }[] = [
+  { id: 'question_text', label: 'Question', required: true },
+  { id: 'sample_answer', label: 'Sample answer', required: false },
+  { id: 'difficulty', label: 'Difficulty', required: false },
+  { id: 'tips', label: 'Tips', required: false },
+  { id: 'industry', label: 'Industry', required: false },
+  { id: 'role', label: 'Role', required: false },
+];
+
+export type ColumnMapping = Record<ImportField, string | null>;
+
+// A parsed file before any mapping: header names plus string cells
+export interface ImportTable {
+  format: ImportFormat;
+  columns: string[];
+  rows: string[][];
+}
+
+export const importedQuestionSchema = z.object({
+  question_text: z.string().trim().min(10, 'Question must be at least 10 characters').max(2000, 'Question is too long'),
+  difficulty: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : 'medium'),
+    z.enum(['easy', 'medium', 'hard'], { errorMap: () => ({ message: 'Difficulty must be easy, medium or hard' }) })
+  ),
+  industry: z.string().trim().max(100).nullable(),
+  role: z.string().trim().max(100).nullable(),
+  tips: z.string().trim().max(2000).nullable(),
+  sample_answer: z.string().trim().max(10000).nullable(),
+});
+
+export type ImportedQuestion = z.infer<typeof importedQuestionSchema>;
+
+export interface ImportRow {
+  // 1-based line in the source, for error messages
+  line: number;
+  question: ImportedQuestion | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+const MAX_IMPORT_ROWS = 5000;
+const INSERT_BATCH_SIZE = 100;
+
+// RFC 4180 style parsing: quoted cells may hold delimiters, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+// Anki fields are HTML; keep line breaks and drop everything else
+const stripHtml = (html: string) => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p|li)>/gi, '\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const numberedColumns = (count: number) => Array.from({ length: count }, (_, i) => `Field ${i + 1}`);
+
+const parseCsv = (text: string): ImportTable => {
+  const [header = [], ...rows] = parseDelimited(text.replace(/^\uFEFF/, ''));
+  return { format: 'csv', columns: header.map((h) => h.trim()), rows };
+};
+
+const parseJson = (text: string): ImportTable => {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.questions) ? data.questions : null;
+  if (!items) throw new Error('Expected a JSON array of questions, or an object with a "questions" array.');
+
+  const records = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+  const columns = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  const rows = records.map((record) =>
+    columns.map((column) => {
+      const value = record[column];
+      if (value === null || value === undefined) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    })
+  );
+
+  return { format: 'json', columns, rows };
+};
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+};
+
+// Anki's "Notes in Plain Text" export: tab-separated, with optional
+// "#key:value" header lines describing the separator and extra columns
+const parseAnkiText = (text: string): ImportTable => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  while (lines.length > 0 && lines[0].startsWith('#')) {
+    const [key, ...value] = lines.shift()!.slice(1).split(':');
+    headers[key.trim()] = value.join(':').trim();
+  }
+
+  const delimiter = ANKI_SEPARATORS[headers.separator] || headers.separator || '\t';
+  const rows = parseDelimited(lines.join('\n'), delimiter);
+  const width = Math.max(0, ...rows.map((r) => r.length));
+
+  const columns = headers.columns
+    ? headers.columns.split(delimiter).map((c) => c.trim())
+    : numberedColumns(width);
+
+  // Meta columns are 1-based in the header
+  const metaColumns: Record<string, string> = { 'notetype column': 'Note type', 'deck column': 'Deck', 'tags column': 'Tags' };
+  Object.entries(metaColumns).forEach(([key, name]) => {
+    const index = Number(headers[key]) - 1;
+    if (index >= 0 && !headers.columns) columns[index] = name;
+  });
+
+  const isHtml = headers.html !== 'false';
+  return {
+    format: 'anki',
+    columns,
+    rows: rows.map((row) => row.map((cell) => (isHtml ? stripHtml(cell) : cell))),
+  };
+};
+
+// .apkg files are zip archives around an SQLite collection. Note fields are
+// stored in notes.flds, separated by the 0x1f unit separator.
+const parseApkg = async (file: File): Promise<ImportTable> => {
+  const [{ default: JSZip }, { default: initSqlJs }, { default: sqlWasmUrl }] = await Promise.all([
+    import('jszip'),
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url'),
+  ]);
+
+  const zip = await JSZip.loadAsync(file);
+  // Newer exports keep the real notes in a zstd-compressed collection.anki21b
+  // and leave only a placeholder note in collection.anki2
+  const isLatestFormat = !!zip.file('collection.anki21b');
+  const collection = zip.file('collection.anki21') || (isLatestFormat ? null : zip.file('collection.anki2'));
+  if (!collection) {
+    throw new Error('This deck uses a newer Anki format. Export it again with "Support older Anki versions" ticked.');
+  }
+
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database(new Uint8Array(await collection.async('arraybuffer')));
+
+  try {
+    const [result] = db.exec('SELECT flds, tags FROM notes ORDER BY id');
+    if (!result) return { format: 'anki', columns: [], rows: [] };
+
+    const notes = result.values.map(([flds, tags]) => ({
+      fields: String(flds).split('\x1f').map(stripHtml),
+      tags: String(tags || '').trim(),
+    }));
+    const width = Math.max(0, ...notes.map((note) => note.fields.length));
+
+    return {
+      format: 'anki',
+      columns: [...numberedColumns(width), 'Tags'],
+      rows: notes.map((note) => [
+        ...Array.from({ length: width }, (_, i) => note.fields[i] || ''),
+        note.tags,
+      ]),
+    };
+  } finally {
+    db.close();
+  }
+};
+
+export const parseImportFile = async (file: File): Promise<ImportTable> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let table: ImportTable;
+  if (extension === 'apkg') {
+    table = await parseApkg(file);
+  } else if (extension === 'json') {
+    table = parseJson(await file.text());
+  } else if (extension === 'txt' || extension === 'tsv') {
+    table = parseAnkiText(await file.text());
+  } else if (extension === 'csv') {
+    table = parseCsv(await file.text());
+  } else {
+    throw new Error('Unsupported file type. Use .csv, .json, .txt, .tsv or .apkg.');
+  }
+
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Files can hold at most ${MAX_IMPORT_ROWS} questions.`);
+  }
+
+  return table;
+};
+
+// Header names we recognise for each field, compared without case or punctuation
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  question_text: ['questiontext', 'question', 'prompt', 'front', 'field1', 'text'],
+  sample_answer: ['sampleanswer', 'answer', 'back', 'modelanswer', 'field2'],
+  difficulty: ['difficulty', 'level'],
+  tips: ['tips', 'tip', 'hint', 'hints', 'notes'],
+  industry: ['industry', 'sector'],
+  role: ['role', 'position', 'jobtitle', 'title'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+  const normalized = columns.map(normalizeHeader);
+
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const match = COLUMN_ALIASES[field.id]
+      .map((alias) => normalized.indexOf(alias))
+      .find((index) => index >= 0);
+    mapping[field.id] = match !== undefined ? columns[match] : null;
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+// Questions match when they only differ in case, spacing or punctuation
+export const normalizeQuestionText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+
+// The API returns at most this many rows per request
+const LIBRARY_PAGE_SIZE = 1000;
+
+// Texts of every question the user can see, for duplicate detection. Only
+// the text column is fetched, a page at a time, so this stays cheap for
+// large libraries.
+export const getLibraryQuestionTexts = async (): Promise<string[]> => {
+  const texts: string[] = [];
+
+  for (let from = 0; ; from += LIBRARY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('interview_questions')
+      .select('question_text')
+      .order('id')
+      .range(from, from + LIBRARY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    texts.push(...(data || []).map((row) => row.question_text));
+    if (!data || data.length < LIBRARY_PAGE_SIZE) return texts;
+  }
+};
+
+// Apply the mapping, validate every row and flag duplicates of existing
+// questions or of earlier rows in the same file
+export const buildImportRows = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existingQuestionTexts: string[]
+): ImportRow[] => {
+  const seen = new Set(existingQuestionTexts.map(normalizeQuestionText));
+  const columnIndex = (field: ImportField) => (mapping[field] ? table.columns.indexOf(mapping[field]!) : -1);
+  const indexes = IMPORT_FIELDS.map((field) => [field.id, columnIndex(field.id)] as const);
+  // CSV and JSON files have a header row, so data starts on line 2
+  const firstLine = table.format === 'csv' ? 2 : 1;
+
+  return table.rows.map((cells, i) => {
+    const raw = Object.fromEntries(
+      indexes.map(([field, index]) => {
+        const value = index >= 0 ? (cells[index] ?? '').trim() : '';
+        return [field, value || null];
+      })
+    );
+
+    const result = importedQuestionSchema.safeParse({ ...raw, question_text: raw.question_text ?? '' });
+    if (!result.success) {
+      return {
+        line: i + firstLine,
+        question: null,
+        errors: result.error.issues.map((issue) => issue.message),
+        duplicate: false,
+      };
+    }
+
+    const key = normalizeQuestionText(result.data.question_text);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    return { line: i + firstLine, question: result.data, errors: [], duplicate };
+  });
+};
+
+// Insert validated questions as the user's own, in batches so large files
+// neither hit request limits nor leave the user without progress
+export const insertQuestionsInBatches = async (
+  userId: string,
+  questions: ImportedQuestion[],
+  {
+    deckId,
+    onProgress,
+  }: { deckId?: string | null; onProgress?: (inserted: number, total: number) => void } = {}
+): Promise<number> => {
+  let inserted = 0;
+
+  for (let start = 0; start < questions.length; start += INSERT_BATCH_SIZE) {
+    const batch = questions.slice(start, start + INSERT_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('interview_questions')
+      .insert(batch.map((question) => ({
+        user_id: userId,
+        question_text: question.question_text,
+        difficulty: question.difficulty,
+        industry: question.industry,
+        role: question.role,
+        tips: question.tips,
+        sample_answer: question.sample_answer,
+      })))
+      .select('id');
+
+    if (error) throw error;
+
+    if (deckId && data) {
+      await addQuestionsToDeck(deckId, data.map((row) => row.id));
+    }
+
+    inserted += batch.length;
+    onProgress?.(inserted, questions.length);
+  }
+
+  return inserted;
+};
@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type QuestionSearchResult = Database['public']['Functions']['search_questions']['Returns'][number];
+export type SimilarQuestion = Database['public']['Functions']['similar_questions']['Returns'][number];
+
+export interface QuestionSearchFilters {
+  query?: string;
+  difficulty?: string | null;
+  industry?: string | null;
+  role?: string | null;
+  categoryId?: string | null;
+  // Limit results to these questions, e.g. a deck
+  questionIds?: string[] | null;
+  ownerOnly?: boolean;
+}
+
+export const SEARCH_PAGE_SIZE = 20;
+// Upper bound the search function allows, used when exporting a whole view
+export const MAX_SEARCH_RESULTS = 5000;
+
+// Markers search_questions wraps around matched terms
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+export const searchQuestions = async (
+  filters: QuestionSearchFilters,
+  { page = 0, pageSize = SEARCH_PAGE_SIZE }: { page?: number; pageSize?: number } = {}
+): Promise<{ results: QuestionSearchResult[]; total: number }> => {
+  const { data, error } = await supabase.rpc('search_questions', {
+    _query: filters.query?.trim() || null,
+    _difficulty: filters.difficulty || null,
+    _industry: filters.industry || null,
+    _role: filters.role || null,
+    _category_id: filters.categoryId || null,
+    _question_ids: filters.questionIds ?? null,
+    _owner_only: !!filters.ownerOnly,
+    _limit: pageSize,
+    _offset: page * pageSize,
+  });
+
+  if (error) throw error;
+
+  const results = data || [];
+  return { results, total: results.length > 0 ? Number(results[0].total_count) : 0 };
+};
+
+export const getSimilarQuestions = async (questionId: string, limit = 5): Promise<SimilarQuestion[]> => {
+  const { data, error } = await supabase.rpc('similar_questions', { _question_id: questionId, _limit: limit });
+  if (error) throw error;
+  return data || [];
+};
+
+export const getQuestionFacets = async (): Promise<{ industries: string[]; roles: string[] }> => {
+  const { data, error } = await supabase.rpc('question_facets');
+  if (error) throw error;
+
+  return {
+    industries: (data || []).filter((row) => row.facet === 'industry').map((row) => row.value),
+    roles: (data || []).filter((row) => row.facet === 'role').map((row) => row.value),
+  };
+};
+
+// Split a search headline into plain and highlighted runs
+export const splitHighlights = (headline: string): { text: string; highlighted: boolean }[] =>
+  headline
+    .split(HIGHLIGHT_END)
+    .flatMap((chunk) => {
+      const [plain, match] = chunk.split(HIGHLIGHT_START);
+      return [
+        { text: plain, highlighted: false },
+        ...(match !== undefined ? [{ text: match, highlighted: true }] : []),
+      ];
+    })
+    .filter((part) => part.text !== '');
+
+export const stripHighlights = (headline: string) =>
+  headline.split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join('');
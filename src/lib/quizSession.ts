@@ -0,0 +1,203 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { getAverageScore, type ResponseScores } from '@/lib/grading';
+import type { CategoryScore, Difficulty } from '@/lib/adaptiveQuiz';
+import type { LoopRoundLink } from '@/lib/interviewLoops';
+
+// Progress stored on the session row so a reload can pick the quiz back up.
+// Answers live in interview_responses; only skips need to be kept here.
+export interface QuizProgress {
+  questionIds: string[];
+  currentIndex: number;
+  answeredCount: number;
+  skipped: { questionId: string; timeTaken: number }[];
+  elapsedSeconds: number;
+  // Set for adaptive quizzes, whose questions are picked as they go
+  adaptive?: { targetDifficulty: Difficulty };
+}
+
+export interface OpenQuizSession {
+  id: string;
+  startedAt: string;
+  lastActivityAt: string;
+  progress: QuizProgress;
+}
+
+export interface SavedQuizAnswer {
+  questionId: string;
+  response: string;
+  timeTaken: number;
+  responseId: string;
+  scores: ResponseScores | null;
+}
+
+// Matches the close-stale-quiz-sessions job; older sessions are about to be
+// closed, so they aren't offered for resuming
+export const STALE_QUIZ_HOURS = 24;
+// Recent answers are enough to tell strong categories from weak ones
+const CATEGORY_HISTORY_LIMIT = 500;
+
+const toProgress = (state: Json | null): QuizProgress | null => {
+  const progress = state as Partial<QuizProgress> | null;
+  if (!progress || !Array.isArray(progress.questionIds)) return null;
+
+  return {
+    questionIds: progress.questionIds,
+    currentIndex: progress.currentIndex || 0,
+    answeredCount: progress.answeredCount || 0,
+    skipped: progress.skipped || [],
+    elapsedSeconds: progress.elapsedSeconds || 0,
+    adaptive: progress.adaptive,
+  };
+};
+
+export const createQuizSession = async (
+  userId: string,
+  progress: QuizProgress,
+  loopRound?: LoopRoundLink
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from('interview_sessions')
+    .insert({
+      user_id: userId,
+      session_type: 'quiz',
+      status: 'in_progress',
+      started_at: new Date().toISOString(),
+      quiz_state: progress as unknown as Json,
+      parent_session_id: loopRound?.parentSessionId,
+      loop_round: loopRound?.round,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const saveQuizProgress = async (sessionId: string, progress: QuizProgress) => {
+  const { error } = await supabase
+    .from('interview_sessions')
+    .update({
+      quiz_state: progress as unknown as Json,
+      last_activity_at: new Date().toISOString(),
+    })
+    .eq('id', sessionId)
+    .eq('status', 'in_progress');
+
+  if (error) throw error;
+};
+
+// Unfinished quizzes with saved progress, most recently used first. A loop
+// round only picks up its own quiz; standalone quizzes ignore loop rounds.
+export const getOpenQuizSessions = async (
+  userId: string,
+  loopRound?: LoopRoundLink
+): Promise<OpenQuizSession[]> => {
+  const cutoff = new Date(Date.now() - STALE_QUIZ_HOURS * 60 * 60 * 1000).toISOString();
+
+  let query = supabase
+    .from('interview_sessions')
+    .select('id, started_at, created_at, last_activity_at, quiz_state')
+    .eq('user_id', userId)
+    .eq('session_type', 'quiz')
+    .eq('status', 'in_progress')
+    .gt('last_activity_at', cutoff);
+
+  query = loopRound
+    ? query.eq('parent_session_id', loopRound.parentSessionId).eq('loop_round', loopRound.round)
+    : query.is('parent_session_id', null);
+
+  const { data, error } = await query.order('last_activity_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).flatMap((session: Pick<Tables<'interview_sessions'>,
+    'id' | 'started_at' | 'created_at' | 'last_activity_at' | 'quiz_state'>) => {
+    const progress = toProgress(session.quiz_state);
+    return progress
+      ? [{
+          id: session.id,
+          startedAt: session.started_at || session.created_at,
+          lastActivityAt: session.last_activity_at,
+          progress,
+        }]
+      : [];
+  });
+};
+
+// Whether the user got anywhere worth coming back to
+export const hasQuizProgress = ({ progress }: OpenQuizSession) =>
+  progress.answeredCount > 0 || progress.skipped.length > 0;
+
+export const abandonQuizSessions = async (sessions: OpenQuizSession[]) => {
+  if (sessions.length === 0) return;
+
+  const { error } = await supabase
+    .from('interview_sessions')
+    .update({ status: 'abandoned', ended_at: new Date().toISOString() })
+    .in('id', sessions.map((s) => s.id));
+
+  if (error) throw error;
+};
+
+// The question rows for a resumed quiz, in the saved order. Questions deleted
+// since the quiz started are dropped.
+export const getQuizQuestions = async (questionIds: string[]) => {
+  if (questionIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('interview_questions')
+    .select('id, question_text, sample_answer, tips, difficulty, category_id')
+    .in('id', questionIds);
+
+  if (error) throw error;
+
+  const byId = new Map((data || []).map((q) => [q.id, q]));
+  return questionIds.map((id) => byId.get(id)).filter((q) => !!q);
+};
+
+export const getSavedQuizAnswers = async (sessionId: string): Promise<SavedQuizAnswer[]> => {
+  const { data, error } = await supabase
+    .from('interview_responses')
+    .select('id, question_id, response_text, duration_seconds, clarity_score, confidence_score, relevance_score, ai_feedback')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((r) => r.question_id)
+    .map((r) => ({
+      questionId: r.question_id,
+      response: r.response_text || '',
+      timeTaken: r.duration_seconds || 0,
+      responseId: r.id,
+      scores: r.clarity_score !== null || r.confidence_score !== null || r.relevance_score !== null
+        ? {
+            clarity_score: r.clarity_score,
+            confidence_score: r.confidence_score,
+            relevance_score: r.relevance_score,
+            ai_feedback: r.ai_feedback,
+          }
+        : null,
+    }));
+};
+
+// Average grades of the user's past answers, tagged with the question's
+// category, for weighting adaptive quizzes toward weak areas
+export const getCategoryScoreHistory = async (userId: string): Promise<CategoryScore[]> => {
+  const { data, error } = await supabase
+    .from('interview_responses')
+    .select('clarity_score, confidence_score, relevance_score, interview_questions (category_id), interview_sessions!inner (user_id)')
+    .eq('interview_sessions.user_id', userId)
+    .not('question_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(CATEGORY_HISTORY_LIMIT);
+
+  if (error) throw error;
+
+  return (data || []).flatMap((r) => {
+    const score = getAverageScore(r);
+    return score !== null ? [{ categoryId: r.interview_questions?.category_id || null, score }] : [];
+  });
+};
@@ -0,0 +1,189 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface ResumeRole {
+  company: string;
+  title: string;
+  dates: string;
+  highlights: string[];
+}
+
+export interface ResumeProject {
+  name: string;
+  description: string;
+}
+
+// A specific, checkable statement worth probing, e.g. a metric
+export interface ResumeClaim {
+  claim: string;
+  context: string;
+}
+
+export interface ParsedResume {
+  summary: string;
+  roles: ResumeRole[];
+  projects: ResumeProject[];
+  claims: ResumeClaim[];
+  skills: string[];
+}
+
+export type Resume = Omit<Tables<'resumes'>, 'parsed'> & { parsed: ParsedResume };
+
+export const RESUME_FILE_TYPES = '.pdf,.docx,.txt,.md';
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+const MAX_RESUME_CHARS = 30000;
+
+const emptyResume: ParsedResume = { summary: '', roles: [], projects: [], claims: [], skills: [] };
+
+const toResume = (row: Tables<'resumes'>): Resume => ({
+  ...row,
+  parsed: { ...emptyResume, ...(row.parsed as Partial<ParsedResume> | null) },
+});
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      // Items flagged hasEOL end a visual line
+      pages.push(content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join(''));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages.join('\n\n');
+};
+
+// .docx files are zip archives; the body text lives in word/document.xml as
+// <w:t> runs inside <w:p> paragraphs
+const extractDocxText = async (file: File): Promise<string> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(file);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error('This Word file has no document body.');
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+  return Array.from(xml.getElementsByTagName('w:p'))
+    .map((paragraph) => Array.from(paragraph.getElementsByTagName('w:t')).map((run) => run.textContent).join(''))
+    .join('\n');
+};
+
+export const extractResumeText = async (file: File): Promise<string> => {
+  if (file.size > MAX_RESUME_BYTES) {
+    throw new Error('Resume files must be 5 MB or smaller.');
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let text: string;
+
+  if (extension === 'pdf') {
+    text = await extractPdfText(file);
+  } else if (extension === 'docx') {
+    text = await extractDocxText(file);
+  } else if (extension === 'txt' || extension === 'md') {
+    text = await file.text();
+  } else if (extension === 'doc') {
+    throw new Error('Older .doc files are not supported. Save it as .docx or PDF and try again.');
+  } else {
+    throw new Error('Upload a PDF, Word (.docx) or plain text file.');
+  }
+
+  const cleaned = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  if (cleaned.length < 100) {
+    throw new Error('No text could be read from this file. Scanned PDFs need to be converted to text first.');
+  }
+
+  return cleaned.slice(0, MAX_RESUME_CHARS);
+};
+
+// Ask the parse-resume edge function to pull out roles, projects and claims
+export const parseResumeText = async (text: string): Promise<ParsedResume> => {
+  const { data, error } = await supabase.functions.invoke('parse-resume', {
+    body: { text },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return { ...emptyResume, ...(data?.resume as Partial<ParsedResume>) };
+};
+
+export const getResume = async (userId: string): Promise<Resume | null> => {
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toResume(data) : null;
+};
+
+// Replacing a resume keeps the user's interview opt-in as it was
+export const saveResume = async (
+  userId: string,
+  fileName: string,
+  rawText: string,
+  parsed: ParsedResume
+): Promise<Resume> => {
+  const { data, error } = await supabase
+    .from('resumes')
+    .upsert(
+      {
+        user_id: userId,
+        file_name: fileName,
+        raw_text: rawText,
+        parsed: parsed as unknown as Tables<'resumes'>['parsed'],
+        parsed_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toResume(data);
+};
+
+export const setResumeInterviewUse = async (userId: string, enabled: boolean) => {
+  const { error } = await supabase
+    .from('resumes')
+    .update({ use_in_interviews: enabled })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+export const deleteResume = async (userId: string) => {
+  const { error } = await supabase
+    .from('resumes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Parsed facts for the interviewer, or null unless the user opted in
+export const getResumeInterviewContext = async (userId: string): Promise<ParsedResume | null> => {
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('parsed, use_in_interviews')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.use_in_interviews) return null;
+  return { ...emptyResume, ...(data.parsed as Partial<ParsedResume> | null) };
+};
@@ -0,0 +1,167 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface CardState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastGrade: ReviewGrade | null;
+  lastReviewedAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 limits, with Anki-style tweaks for the four grades
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const HARD_INTERVAL = 1.2;
+const EASY_BONUS = 1.3;
+// A forgotten card comes back later in the same sitting
+export const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+export const createNewCardState = (now = new Date()): CardState => ({
+  easeFactor: DEFAULT_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: now,
+  lastGrade: null,
+  lastReviewedAt: null,
+});
+
+const clampEase = (ease: number) => Math.max(MIN_EASE, Math.round(ease * 100) / 100);
+
+// Next state for a card after it is graded. "again" resets the streak and
+// brings the card back in RELEARN_DELAY_MS; the other grades grow the
+// interval from the SM-2 steps of 1 and 6 days, then by the ease factor.
+export const scheduleReview = (state: CardState, grade: ReviewGrade, now = new Date()): CardState => {
+  if (grade === 'again') {
+    return {
+      ...state,
+      easeFactor: clampEase(state.easeFactor - 0.2),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+      lastGrade: grade,
+      lastReviewedAt: now,
+    };
+  }
+
+  const easeFactor = clampEase(
+    state.easeFactor + (grade === 'hard' ? -0.15 : grade === 'easy' ? 0.15 : 0)
+  );
+
+  let intervalDays: number;
+  if (state.repetitions === 0) {
+    intervalDays = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1 && grade !== 'hard') {
+    intervalDays = grade === 'easy' ? Math.round(6 * EASY_BONUS) : 6;
+  } else if (grade === 'hard') {
+    intervalDays = Math.max(state.intervalDays + 1, Math.round(state.intervalDays * HARD_INTERVAL));
+  } else {
+    const next = state.intervalDays * easeFactor * (grade === 'easy' ? EASY_BONUS : 1);
+    intervalDays = Math.max(state.intervalDays + 1, Math.round(next));
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    lastGrade: grade,
+    lastReviewedAt: now,
+  };
+};
+
+// Short label for when a card would next be due, e.g. "10m" or "6d"
+export const formatReviewDelay = (dueAt: Date, now = new Date()) => {
+  const ms = Math.max(0, dueAt.getTime() - now.getTime());
+  if (ms < 60 * 60 * 1000) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (ms < DAY_MS) return `${Math.round(ms / 3600000)}h`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+};
+
+export const isCardDue = (state: CardState | undefined, now = new Date()) =>
+  !!state && state.dueAt.getTime() <= now.getTime();
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Order a deck for review: due cards first (most overdue first), then cards
+// never seen, then cards that are not due yet. Shuffling only mixes the new
+// cards, so it never pushes a due card behind them.
+export const orderDeck = <T extends { id: string }>(
+  cards: T[],
+  states: Record<string, CardState>,
+  { shuffleNew = false, now = new Date() }: { shuffleNew?: boolean; now?: Date } = {}
+): T[] => {
+  const byDueDate = (a: T, b: T) => states[a.id].dueAt.getTime() - states[b.id].dueAt.getTime();
+
+  const due = cards.filter((card) => isCardDue(states[card.id], now)).sort(byDueDate);
+  const fresh = cards.filter((card) => !states[card.id]);
+  const upcoming = cards.filter((card) => states[card.id] && !isCardDue(states[card.id], now)).sort(byDueDate);
+
+  return [...due, ...(shuffleNew ? shuffle(fresh) : fresh), ...upcoming];
+};
+
+type FlashcardReviewRow = Tables<'flashcard_reviews'>;
+
+const fromReviewRow = (row: FlashcardReviewRow): CardState => ({
+  easeFactor: Number(row.ease_factor),
+  intervalDays: row.interval_days,
+  repetitions: row.repetitions,
+  lapses: row.lapses,
+  dueAt: new Date(row.due_at),
+  lastGrade: (row.last_grade as ReviewGrade) || null,
+  lastReviewedAt: row.last_reviewed_at ? new Date(row.last_reviewed_at) : null,
+});
+
+// Load the user's card states keyed by question id
+export const getCardStates = async (userId: string): Promise<Record<string, CardState>> => {
+  const { data, error } = await supabase
+    .from('flashcard_reviews')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, CardState>>((states, row) => {
+    states[row.question_id] = fromReviewRow(row);
+    return states;
+  }, {});
+};
+
+export const saveCardState = async (userId: string, questionId: string, state: CardState) => {
+  const { error } = await supabase
+    .from('flashcard_reviews')
+    .upsert({
+      user_id: userId,
+      question_id: questionId,
+      ease_factor: state.easeFactor,
+      interval_days: state.intervalDays,
+      repetitions: state.repetitions,
+      lapses: state.lapses,
+      due_at: state.dueAt.toISOString(),
+      last_grade: state.lastGrade,
+      last_reviewed_at: state.lastReviewedAt?.toISOString() ?? null,
+    }, { onConflict: 'user_id,question_id' });
+
+  if (error) throw error;
+};
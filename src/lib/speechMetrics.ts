@@ -0,0 +1,157 @@
+export interface SpeechMetrics {
+  wordCount: number;
+  // Null when we have no timing data, e.g. a typed answer
+  wordsPerMinute: number | null;
+  fillerCount: number;
+  fillers: Record<string, number>;
+  longPauseCount: number | null;
+  hedgeCount: number;
+}
+
+// Gap between recognition events that counts as a long pause
+export const LONG_PAUSE_MS = 2500;
+
+// Comfortable interview pace, in words per minute
+export const TARGET_WPM = { min: 120, max: 160 };
+
+const FILLER_PHRASES = ['um', 'uh', 'erm', 'er', 'hmm', 'like', 'you know', 'i mean', 'basically', 'actually', 'literally'];
+
+const HEDGING_PHRASES = [
+  'i think',
+  'i guess',
+  'i feel like',
+  'i believe',
+  'i suppose',
+  "i'm not sure",
+  'kind of',
+  'sort of',
+  'maybe',
+  'probably',
+  'perhaps',
+  'possibly',
+  'hopefully',
+  'more or less',
+];
+
+// "like" is only a filler when it is not doing real work in the sentence
+const NON_FILLER_CONTEXT: Record<string, RegExp> = {
+  like: /\b(would|'d|i|you|we|they|feel|feels|felt|look|looks|looked|seem|seems|sound|sounds|just|things|something|anything|nothing)\s+like\b/g,
+};
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^a-z'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countPhrase = (text: string, phrase: string) => {
+  const matches = text.match(new RegExp(`\\b${escapeRegExp(phrase)}\\b`, 'g'));
+  return matches ? matches.length : 0;
+};
+
+export const countWords = (text: string) => {
+  const normalized = normalize(text);
+  return normalized ? normalized.split(' ').length : 0;
+};
+
+export const countFillers = (text: string): Record<string, number> => {
+  const normalized = normalize(text);
+  const fillers: Record<string, number> = {};
+
+  FILLER_PHRASES.forEach((phrase) => {
+    let count = countPhrase(normalized, phrase);
+    const excluded = NON_FILLER_CONTEXT[phrase];
+    if (excluded) {
+      count -= (normalized.match(excluded) || []).length;
+    }
+    if (count > 0) fillers[phrase] = count;
+  });
+
+  return fillers;
+};
+
+export const countHedges = (text: string) => {
+  const normalized = normalize(text);
+  return HEDGING_PHRASES.reduce((sum, phrase) => sum + countPhrase(normalized, phrase), 0);
+};
+
+// Analyse an answer's text, with optional timing from a SpeechTracker
+export const analyzeSpeech = (
+  text: string,
+  timing?: { speakingMs: number; longPauseCount: number } | null
+): SpeechMetrics => {
+  const wordCount = countWords(text);
+  const fillers = countFillers(text);
+
+  // Very short bursts give meaningless rates
+  const wordsPerMinute = timing && timing.speakingMs >= 3000 && wordCount > 0
+    ? Math.round((wordCount / (timing.speakingMs / 60000)) * 10) / 10
+    : null;
+
+  return {
+    wordCount,
+    wordsPerMinute,
+    fillerCount: Object.values(fillers).reduce((sum, count) => sum + count, 0),
+    fillers,
+    longPauseCount: timing ? timing.longPauseCount : null,
+    hedgeCount: countHedges(text),
+  };
+};
+
+export interface SpeechTracker {
+  // Forget the current answer, e.g. when a new question is asked
+  reset: () => void;
+  // Call on every recognition result, interim or final
+  recordActivity: (at?: number) => void;
+  hasActivity: () => boolean;
+  getMetrics: (text: string) => SpeechMetrics;
+}
+
+// Tracks recognition timing for one answer at a time. Speaking time runs
+// from the first to the latest recognition event, and any gap between
+// events longer than LONG_PAUSE_MS counts as a long pause.
+export const createSpeechTracker = (longPauseMs = LONG_PAUSE_MS): SpeechTracker => {
+  let firstActivityAt: number | null = null;
+  let lastActivityAt: number | null = null;
+  let longPauseCount = 0;
+
+  return {
+    reset: () => {
+      firstActivityAt = null;
+      lastActivityAt = null;
+      longPauseCount = 0;
+    },
+    recordActivity: (at = Date.now()) => {
+      if (firstActivityAt === null) firstActivityAt = at;
+      if (lastActivityAt !== null && at - lastActivityAt >= longPauseMs) {
+        longPauseCount += 1;
+      }
+      lastActivityAt = at;
+    },
+    hasActivity: () => firstActivityAt !== null,
+    getMetrics: (text) => {
+      if (firstActivityAt === null) return analyzeSpeech(text);
+      return analyzeSpeech(text, {
+        speakingMs: (lastActivityAt ?? firstActivityAt) - firstActivityAt,
+        longPauseCount,
+      });
+    },
+  };
+};
+
+// Fillers per 100 words, which compares fairly across long and short answers
+export const getFillerRate = (fillerCount: number, wordCount: number): number | null =>
+  wordCount > 0 ? Math.round((fillerCount / wordCount) * 1000) / 10 : null;
+
+// Map metrics onto the interview_responses columns
+export const toSpeechColumns = (metrics: SpeechMetrics) => ({
+  word_count: metrics.wordCount,
+  words_per_minute: metrics.wordsPerMinute,
+  filler_word_count: metrics.fillerCount,
+  long_pause_count: metrics.longPauseCount,
+  hedge_count: metrics.hedgeCount,
+});
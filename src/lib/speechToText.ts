@@ -0,0 +1,368 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type SpeechToTextProviderId = 'auto' | 'browser' | 'server';
+
+export interface SpeechToTextResult {
+  // Text heard since the last final result
+  transcript: string;
+  isFinal: boolean;
+}
+
+export interface SpeechToTextOptions {
+  lang?: string;
+  onResult: (result: SpeechToTextResult) => void;
+  onError?: (error: string) => void;
+  onEnd?: () => void;
+}
+
+export interface SpeechToText {
+  id: Exclude<SpeechToTextProviderId, 'auto'>;
+  start: () => void;
+  stop: () => void;
+  // Stop listening for good and release the microphone
+  release: () => void;
+}
+
+export const SPEECH_LANGUAGES = [
+  { id: 'en-US', name: 'English (US)' },
+  { id: 'en-GB', name: 'English (UK)' },
+  { id: 'en-IN', name: 'English (India)' },
+  { id: 'es-ES', name: 'Spanish' },
+  { id: 'fr-FR', name: 'French' },
+  { id: 'de-DE', name: 'German' },
+  { id: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { id: 'hi-IN', name: 'Hindi' },
+];
+
+export const DEFAULT_SPEECH_LANGUAGE = 'en-US';
+
+// Browser SpeechRecognition types, which are not in the DOM lib
+interface SpeechRecognitionResultItem {
+  transcript: string;
+}
+
+interface SpeechRecognitionResultEntry {
+  readonly length: number;
+  [index: number]: SpeechRecognitionResultItem;
+  isFinal: boolean;
+}
+
+interface BrowserSpeechRecognitionEvent extends Event {
+  resultIndex: number;
+  results: { readonly length: number; [index: number]: SpeechRecognitionResultEntry };
+}
+
+interface BrowserSpeechRecognitionErrorEvent extends Event {
+  error: string;
+}
+
+interface BrowserSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: BrowserSpeechRecognitionEvent) => void) | null;
+  onerror: ((event: BrowserSpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+const getBrowserRecognition = (): BrowserSpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export const isBrowserSpeechSupported = () => !!getBrowserRecognition();
+
+export const isServerSpeechSupported = () =>
+  typeof window !== 'undefined' &&
+  typeof MediaRecorder !== 'undefined' &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+const createBrowserSpeechToText = ({ lang, onResult, onError, onEnd }: SpeechToTextOptions): SpeechToText => {
+  const Recognition = getBrowserRecognition()!;
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = lang || DEFAULT_SPEECH_LANGUAGE;
+
+  recognition.onresult = (event) => {
+    let interimTranscript = '';
+    let finalTranscript = '';
+
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const transcript = event.results[i][0].transcript;
+      if (event.results[i].isFinal) {
+        finalTranscript += transcript;
+      } else {
+        interimTranscript += transcript;
+      }
+    }
+
+    if (finalTranscript) onResult({ transcript: finalTranscript, isFinal: true });
+    if (interimTranscript) onResult({ transcript: interimTranscript, isFinal: false });
+  };
+
+  recognition.onerror = (event) => onError?.(event.error);
+  recognition.onend = () => onEnd?.();
+
+  return {
+    id: 'browser',
+    start: () => {
+      try {
+        recognition.start();
+      } catch (error) {
+        // Already started
+        console.warn('Speech recognition start ignored:', error);
+      }
+    },
+    stop: () => recognition.stop(),
+    release: () => {
+      recognition.onend = null;
+      recognition.stop();
+    },
+  };
+};
+
+const TRANSCRIBE_URL = import.meta.env.VITE_TRANSCRIBE_URL ||
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transcribe`;
+
+// RMS level above which the microphone is treated as speech
+const SPEECH_LEVEL = 0.02;
+// Silence after speech that ends an utterance, like the browser API does
+const UTTERANCE_SILENCE_MS = 1500;
+// Longer speech is cut into segments so partial text shows up while talking
+const MAX_SEGMENT_MS = 6000;
+
+const getFileExtension = (mimeType: string) => {
+  if (mimeType.includes('mp4')) return 'm4a';
+  if (mimeType.includes('ogg')) return 'ogg';
+  return 'webm';
+};
+
+// Send one audio segment to the transcription endpoint. The body matches
+// OpenAI's /audio/transcriptions, so VITE_TRANSCRIBE_URL can point straight
+// at a local whisper server instead of the edge function.
+export const transcribeAudio = async (audio: Blob, lang?: string): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Sign in to use server transcription.');
+  }
+
+  const body = new FormData();
+  body.append('file', audio, `speech.${getFileExtension(audio.type)}`);
+  body.append('model', import.meta.env.VITE_TRANSCRIBE_MODEL || 'whisper-1');
+  if (lang) body.append('language', lang.split('-')[0]);
+
+  const response = await fetch(TRANSCRIBE_URL, {
+    method: 'POST',
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body,
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error?.message || data?.error || 'Transcription failed.');
+  }
+
+  return (data?.text || '').trim();
+};
+
+interface RecordingSegment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  hasSpeech: boolean;
+}
+
+const createServerSpeechToText = ({ lang, onResult, onError, onEnd }: SpeechToTextOptions): SpeechToText => {
+  let stream: MediaStream | null = null;
+  let audioContext: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let monitorTimer: ReturnType<typeof setInterval> | null = null;
+  let segment: RecordingSegment | null = null;
+  let lastSpeechAt = 0;
+  let isActive = false;
+  let utterance = '';
+  // Segments are transcribed one after another so text stays in order
+  let queue: Promise<void> = Promise.resolve();
+
+  const enqueue = (audio: Blob | null, isFinal: boolean) => {
+    queue = queue.then(async () => {
+      if (audio) {
+        try {
+          const text = await transcribeAudio(audio, lang);
+          if (text) utterance = `${utterance} ${text}`.trim();
+        } catch (error) {
+          onError?.(error instanceof Error ? error.message : 'Transcription failed.');
+        }
+      }
+
+      if (utterance) onResult({ transcript: utterance, isFinal });
+      if (isFinal) utterance = '';
+    });
+  };
+
+  const startSegment = () => {
+    if (!stream) return;
+
+    const next: RecordingSegment = {
+      recorder: new MediaRecorder(stream),
+      chunks: [],
+      startedAt: Date.now(),
+      hasSpeech: false,
+    };
+    next.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) next.chunks.push(event.data);
+    };
+    next.recorder.start();
+    segment = next;
+  };
+
+  // Close the current segment and queue it for transcription. Each segment
+  // is its own recording so the server always gets a complete audio file.
+  const endSegment = (isFinal: boolean, restart: boolean): Promise<void> => {
+    const current = segment;
+    segment = null;
+    if (!current || current.recorder.state === 'inactive') return Promise.resolve();
+
+    const stopped = new Promise<void>((resolve) => {
+      current.recorder.onstop = () => {
+        const audio = current.hasSpeech && current.chunks.length > 0
+          ? new Blob(current.chunks, { type: current.recorder.mimeType || 'audio/webm' })
+          : null;
+        if (audio || (isFinal && utterance)) enqueue(audio, isFinal);
+        resolve();
+      };
+    });
+    current.recorder.stop();
+
+    if (restart) startSegment();
+    return stopped;
+  };
+
+  const monitor = () => {
+    if (!analyser || !segment) return;
+
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+    const now = Date.now();
+
+    if (level > SPEECH_LEVEL) {
+      segment.hasSpeech = true;
+      lastSpeechAt = now;
+      return;
+    }
+
+    if (segment.hasSpeech && now - lastSpeechAt >= UTTERANCE_SILENCE_MS) {
+      endSegment(true, true);
+    } else if (now - segment.startedAt >= MAX_SEGMENT_MS) {
+      endSegment(false, true);
+    }
+  };
+
+  const stopMonitor = () => {
+    if (monitorTimer) clearInterval(monitorTimer);
+    monitorTimer = null;
+  };
+
+  return {
+    id: 'server',
+    start: async () => {
+      if (isActive) return;
+      isActive = true;
+
+      try {
+        if (!stream) {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          audioContext = new AudioContext();
+          analyser = audioContext.createAnalyser();
+          analyser.fftSize = 2048;
+          audioContext.createMediaStreamSource(stream).connect(analyser);
+        }
+
+        startSegment();
+        monitorTimer = setInterval(monitor, 100);
+      } catch (error) {
+        isActive = false;
+        onError?.(error instanceof Error ? error.message : 'not-allowed');
+      }
+    },
+    stop: () => {
+      if (!isActive) return;
+      isActive = false;
+      stopMonitor();
+
+      // Flush whatever was said before stopping, then report the end
+      endSegment(true, false)
+        .then(() => queue)
+        .then(() => onEnd?.());
+    },
+    release: () => {
+      isActive = false;
+      stopMonitor();
+      if (segment && segment.recorder.state !== 'inactive') {
+        segment.recorder.onstop = null;
+        segment.recorder.stop();
+      }
+      segment = null;
+      audioContext?.close();
+      audioContext = null;
+      analyser = null;
+      stream?.getTracks().forEach((track) => track.stop());
+      stream = null;
+    },
+  };
+};
+
+// Pick a speech-to-text backend. "auto" prefers the browser API and falls
+// back to server transcription where it is missing (Firefox, Safari).
+export const createSpeechToText = (
+  provider: SpeechToTextProviderId,
+  options: SpeechToTextOptions
+): SpeechToText | null => {
+  const useBrowser = provider === 'browser' || (provider === 'auto' && isBrowserSpeechSupported());
+
+  if (useBrowser) {
+    return isBrowserSpeechSupported() ? createBrowserSpeechToText(options) : null;
+  }
+
+  return isServerSpeechSupported() ? createServerSpeechToText(options) : null;
+};
+
+export interface SpeechToTextSettings {
+  provider: SpeechToTextProviderId;
+  lang: string;
+}
+
+export const DEFAULT_SPEECH_TO_TEXT_SETTINGS: SpeechToTextSettings = {
+  provider: 'auto',
+  lang: DEFAULT_SPEECH_LANGUAGE,
+};
+
+export const getSpeechToTextSettings = async (userId: string): Promise<SpeechToTextSettings> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('stt_provider, stt_language')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading speech settings:', error);
+  }
+
+  return {
+    provider: (data?.stt_provider as SpeechToTextProviderId) || DEFAULT_SPEECH_TO_TEXT_SETTINGS.provider,
+    lang: data?.stt_language || DEFAULT_SPEECH_TO_TEXT_SETTINGS.lang,
+  };
+};
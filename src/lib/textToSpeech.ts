@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type TextToSpeechEngine = 'browser' | 'server';
+
+// Lines already fetched this page load, keyed by voice and text. The edge
+// function caches across users; this saves the round trip on repeats.
+const audioCache = new Map<string, string>();
+
+// Fetch premium (ElevenLabs) speech for a line through the text-to-speech
+// edge function and return a playable data URL.
+export const synthesizeSpeech = async (text: string, voiceId: string): Promise<string> => {
+  const cacheKey = `${voiceId}:${text}`;
+  const cached = audioCache.get(cacheKey);
+  if (cached) return cached;
+
+  const { data, error } = await supabase.functions.invoke('text-to-speech', {
+    body: { text, voiceId },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  if (!data?.audioContent) throw new Error('No audio returned');
+
+  const audioUrl = `data:audio/mpeg;base64,${data.audioContent}`;
+  audioCache.set(cacheKey, audioUrl);
+  return audioUrl;
+};
+
+// Play an audio URL and resolve once it finishes. Rejects if the browser
+// cannot play it, so callers can fall back to speechSynthesis.
+export const playAudioUrl = (audio: HTMLAudioElement, url: string, playbackRate = 1) =>
+  new Promise<void>((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(new Error('Audio playback failed'));
+    audio.src = url;
+    audio.playbackRate = playbackRate;
+    audio.play().catch(reject);
+  });
+
+// Stop playback early. Pausing never fires "ended", so this settles the
+// pending playAudioUrl promise itself rather than leaving its caller waiting.
+export const stopAudio = (audio: HTMLAudioElement) => {
+  const settle = audio.onended;
+  audio.onended = null;
+  audio.onerror = null;
+  audio.pause();
+  settle?.call(audio, new Event('ended'));
+};
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
@@ -33,8 +34,11 @@ import {
   Loader2,
   X,
   Play,
+  Repeat,
+  ShieldCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { toIntegritySummary } from '@/lib/proctoring';
 import { format, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
 
 interface Session {
@@ -47,6 +51,7 @@ interface Session {
   started_at: string | null;
   ended_at: string | null;
   notes: string | null;
+  integrity_summary: Json | null;
 }
 
 interface DateRange {
@@ -138,28 +143,20 @@ const ActivityHistory = () => {
         return Video;
       case 'practice':
         return BookOpen;
+      case 'loop':
+        return Repeat;
       default:
         return Activity;
     }
   };
 
-  const getSessionPath = (type: string) => {
-    switch (type) {
-      case 'voice':
-        return '/voice-interview';
-      case 'mock':
-        return '/mock-sessions';
-      default:
-        return '/practice';
-    }
-  };
-
   const getStatusBadge = (status: string) => {
     const variants: Record<string, { className: string; label: string }> = {
       completed: { className: 'bg-success/20 text-success border-success/30', label: 'Completed' },
       in_progress: { className: 'bg-warning/20 text-warning border-warning/30', label: 'In Progress' },
       pending: { className: 'bg-muted text-muted-foreground border-border', label: 'Pending' },
       cancelled: { className: 'bg-destructive/20 text-destructive border-destructive/30', label: 'Cancelled' },
+      abandoned: { className: 'bg-muted text-muted-foreground border-border', label: 'Abandoned' },
     };
     const variant = variants[status] || variants.pending;
     return (
@@ -175,6 +172,7 @@ const ActivityHistory = () => {
       mock: { className: 'bg-neon-purple/20 text-neon-purple border-neon-purple/30', label: 'Mock' },
       practice: { className: 'bg-neon-green/20 text-neon-green border-neon-green/30', label: 'Practice' },
       quiz: { className: 'bg-neon-magenta/20 text-neon-magenta border-neon-magenta/30', label: 'Quiz' },
+      loop: { className: 'bg-primary/20 text-primary border-primary/30', label: 'Loop' },
     };
     const variant = variants[type] || { className: 'bg-muted text-muted-foreground', label: type };
     return (
@@ -245,6 +243,7 @@ const ActivityHistory = () => {
                 <SelectItem value="mock">Mock</SelectItem>
                 <SelectItem value="practice">Practice</SelectItem>
                 <SelectItem value="quiz">Quiz</SelectItem>
+                <SelectItem value="loop">Loop</SelectItem>
               </SelectContent>
             </Select>
 
@@ -259,6 +258,7 @@ const ActivityHistory = () => {
                 <SelectItem value="in_progress">In Progress</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="abandoned">Abandoned</SelectItem>
               </SelectContent>
             </Select>
 
@@ -309,12 +309,12 @@ const ActivityHistory = () => {
         <div className="space-y-3">
           {filteredSessions.map((session) => {
             const Icon = getSessionIcon(session.session_type);
-            const sessionPath = getSessionPath(session.session_type);
+            const integrity = toIntegritySummary(session.integrity_summary);
 
             return (
               <Card
                 key={session.id}
-                onClick={() => navigate(sessionPath)}
+                onClick={() => navigate(`/sessions/${session.id}`)}
                 className="glass p-4 hover:bg-card/80 transition-all cursor-pointer group"
               >
                 <div className="flex items-center gap-4">
@@ -353,6 +353,16 @@ const ActivityHistory = () => {
                           Score: {session.overall_score}/10
                         </span>
                       )}
+                      {integrity && (
+                        <span className={cn(
+                          'flex items-center gap-1',
+                          integrity.level === 'low' ? 'text-success' :
+                          integrity.level === 'medium' ? 'text-warning' : 'text-destructive'
+                        )}>
+                          <ShieldCheck className="w-3 h-3" />
+                          Integrity: {integrity.score}
+                        </span>
+                      )}
                     </div>
                     {session.notes && (
                       <p className="text-sm text-muted-foreground mt-1 line-clamp-1">
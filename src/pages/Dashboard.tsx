@@ -155,6 +155,8 @@ const Dashboard = () => {
           .from('interview_sessions')
           .select('*')
           .eq('user_id', user.id)
+          // A loop run only sums up its rounds, which are sessions already
+          .neq('session_type', 'loop')
           .order('created_at', { ascending: false });
 
         if (sessions) {
@@ -509,16 +511,10 @@ const Dashboard = () => {
         {recentSessions.length > 0 ? (
           <div className="grid gap-3">
             {recentSessions.slice(0, 5).map((session) => {
-              const sessionPath = session.session_type === 'voice' 
-                ? '/voice-interview' 
-                : session.session_type === 'mock' 
-                ? '/mock-sessions' 
-                : '/practice';
-              
               return (
                 <div
                   key={session.id}
-                  onClick={() => navigate(sessionPath)}
+                  onClick={() => navigate(`/sessions/${session.id}`)}
                   className="glass rounded-xl p-4 flex items-center justify-between hover:bg-card/80 transition-colors cursor-pointer group"
                 >
                   <div className="flex items-center gap-4">
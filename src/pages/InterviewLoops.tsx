@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import LoopBuilderDialog from '@/components/LoopBuilderDialog';
+import {
+  deleteLoop,
+  getLoopMinutes,
+  getLoopRunPath,
+  getLoopRuns,
+  getLoops,
+  startLoopRun,
+  type InterviewLoop,
+} from '@/lib/interviewLoops';
+import { Repeat, Plus, Pencil, Trash2, Loader2, Play, Mic, GraduationCap, Clock, ChevronRight, Award } from 'lucide-react';
+import { format } from 'date-fns';
+
+type LoopRunSummary = Awaited<ReturnType<typeof getLoopRuns>>[number];
+
+const InterviewLoops = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [loops, setLoops] = useState<InterviewLoop[]>([]);
+  const [runs, setRuns] = useState<LoopRunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLoop, setEditingLoop] = useState<InterviewLoop | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      try {
+        const [userLoops, recentRuns] = await Promise.all([getLoops(user.id), getLoopRuns(user.id)]);
+        setLoops(userLoops);
+        setRuns(recentRuns);
+      } catch (error) {
+        console.error('Error loading interview loops:', error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load interview loops.' });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user, toast]);
+
+  const openDialog = (loop: InterviewLoop | null) => {
+    setEditingLoop(loop);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (saved: InterviewLoop) => {
+    setLoops((prev) => prev.some((l) => l.id === saved.id)
+      ? prev.map((l) => (l.id === saved.id ? saved : l))
+      : [saved, ...prev]);
+  };
+
+  const handleStart = async (loop: InterviewLoop) => {
+    if (!user) return;
+
+    setStartingId(loop.id);
+    try {
+      navigate(getLoopRunPath(await startLoopRun(user.id, loop)));
+    } catch (error) {
+      console.error('Error starting interview loop:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to start the loop.' });
+      setStartingId(null);
+    }
+  };
+
+  const handleDelete = async (loop: InterviewLoop) => {
+    try {
+      await deleteLoop(loop.id);
+      setLoops((prev) => prev.filter((l) => l.id !== loop.id));
+      toast({ title: 'Loop deleted' });
+    } catch (error) {
+      console.error('Error deleting interview loop:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to delete the loop.' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Interview Loops</h1>
+          <p className="text-muted-foreground">Run several timed rounds back to back, like a real onsite</p>
+        </div>
+        <Button variant="neon" onClick={() => openDialog(null)}>
+          <Plus className="w-4 h-4" /> New Loop
+        </Button>
+      </div>
+
+      {loops.length === 0 && (
+        <div className="glass rounded-2xl p-12 flex flex-col items-center gap-4 text-center">
+          <Repeat className="w-10 h-10 text-muted-foreground" />
+          <div>
+            <p className="text-foreground font-medium">No loops yet</p>
+            <p className="text-sm text-muted-foreground">
+              Combine voice interviews and quizzes into one session and get a single report at the end.
+            </p>
+          </div>
+          <Button variant="hero" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4" /> Build Your First Loop
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {loops.map((loop) => (
+          <div key={loop.id} className="glass rounded-2xl p-6 flex flex-col gap-4">
+            <div className="flex items-start justify-between gap-4">
+              <h2 className="text-lg font-semibold text-foreground">{loop.name}</h2>
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Clock className="w-3 h-3" /> {getLoopMinutes(loop.rounds)} min
+              </Badge>
+            </div>
+
+            <ol className="space-y-2">
+              {loop.rounds.map((round, i) => (
+                <li key={round.id} className="flex items-center gap-2 text-sm">
+                  {round.type === 'voice'
+                    ? <Mic className="w-4 h-4 text-neon-magenta" />
+                    : <GraduationCap className="w-4 h-4 text-neon-cyan" />}
+                  <span className="text-foreground">{i + 1}. {round.title}</span>
+                  <span className="text-muted-foreground">· {round.minutes} min</span>
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex items-center gap-2 mt-auto">
+              <Button
+                variant="hero"
+                size="sm"
+                disabled={loop.rounds.length === 0 || startingId !== null}
+                onClick={() => handleStart(loop)}
+              >
+                {startingId === loop.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                Start Loop
+              </Button>
+
+              <div className="flex items-center gap-1 ml-auto">
+                <Button variant="ghost" size="sm" title="Edit" onClick={() => openDialog(loop)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" title="Delete" className="text-destructive">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {loop.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The loop is removed. Reports from past runs are kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(loop)}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {runs.length > 0 && (
+        <div className="glass rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Recent Runs</h2>
+          <div className="space-y-2">
+            {runs.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => navigate(getLoopRunPath(run.id))}
+                className="w-full flex items-center justify-between p-3 rounded-xl bg-secondary/30 hover:bg-secondary/50 transition-colors text-left group"
+              >
+                <div>
+                  <p className="text-foreground font-medium">{run.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {run.started_at ? format(new Date(run.started_at), 'MMM d, yyyy h:mm a') : 'Not started'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {run.overall_score !== null && (
+                    <span className="flex items-center gap-1 text-sm">
+                      <Award className="w-4 h-4 text-accent" />
+                      {Number(run.overall_score).toFixed(1)}/10
+                    </span>
+                  )}
+                  <Badge variant="outline" className="capitalize">{run.status.replace('_', ' ')}</Badge>
+                  <ChevronRight className="w-4 h-4 text-muted-foreground group-hover:text-foreground transition-colors" />
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <LoopBuilderDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        loop={editingLoop}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+};
+
+export default InterviewLoops;
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import JobTargetDialog from '@/components/JobTargetDialog';
+import { getDecks } from '@/lib/questionBank';
+import {
+  deleteJobTarget,
+  generateJobPack,
+  getJobLevelLabel,
+  getJobTargets,
+  type JobTarget,
+} from '@/lib/jobTargets';
+import {
+  Briefcase, Plus, Pencil, Trash2, Sparkles, Loader2, Play, GraduationCap, Mic, Layers, RefreshCw,
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const JobTargets = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [targets, setTargets] = useState<JobTarget[]>([]);
+  // Pack sizes, keyed by deck id
+  const [packSizes, setPackSizes] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTarget, setEditingTarget] = useState<JobTarget | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      try {
+        const [jobTargets, decks] = await Promise.all([getJobTargets(user.id), getDecks(user.id)]);
+        setTargets(jobTargets);
+        setPackSizes(Object.fromEntries(decks.map((d) => [d.id, d.question_ids.length])));
+      } catch (error) {
+        console.error('Error loading job targets:', error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load job targets.' });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user, toast]);
+
+  const openDialog = (target: JobTarget | null) => {
+    setEditingTarget(target);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (saved: JobTarget) => {
+    setTargets((prev) => prev.some((t) => t.id === saved.id)
+      ? prev.map((t) => (t.id === saved.id ? saved : t))
+      : [saved, ...prev]);
+    if (!editingTarget) handleGenerate(saved);
+  };
+
+  const handleGenerate = async (target: JobTarget) => {
+    if (!user) return;
+
+    setGeneratingId(target.id);
+    try {
+      const result = await generateJobPack(user.id, target);
+      setTargets((prev) => prev.map((t) => (t.id === target.id ? result.target : t)));
+
+      const decks = await getDecks(user.id);
+      setPackSizes(Object.fromEntries(decks.map((d) => [d.id, d.question_ids.length])));
+
+      toast({
+        title: 'Question pack ready',
+        description: `${result.matched} from the library and ${result.generated} written for this job.`,
+      });
+    } catch (error) {
+      console.error('Error generating question pack:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not build the pack',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  const handleDelete = async (target: JobTarget) => {
+    try {
+      await deleteJobTarget(target);
+      setTargets((prev) => prev.filter((t) => t.id !== target.id));
+      toast({ title: 'Job target deleted' });
+    } catch (error) {
+      console.error('Error deleting job target:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to delete the job target.' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Job Targets</h1>
+          <p className="text-muted-foreground">Prepare for a specific company and role with a tailored question pack</p>
+        </div>
+        <Button variant="neon" onClick={() => openDialog(null)}>
+          <Plus className="w-4 h-4" /> New Target
+        </Button>
+      </div>
+
+      {targets.length === 0 && (
+        <div className="glass rounded-2xl p-12 flex flex-col items-center gap-4 text-center">
+          <Briefcase className="w-10 h-10 text-muted-foreground" />
+          <div>
+            <p className="text-foreground font-medium">No job targets yet</p>
+            <p className="text-sm text-muted-foreground">
+              Add a job you're interviewing for and paste the posting to get a question pack built around it.
+            </p>
+          </div>
+          <Button variant="hero" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4" /> Add Your First Target
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {targets.map((target) => {
+          const packSize = target.deck_id ? packSizes[target.deck_id] || 0 : 0;
+          const isGenerating = generatingId === target.id;
+
+          return (
+            <div key={target.id} className="glass rounded-2xl p-6 flex flex-col gap-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-foreground">{target.title}</h2>
+                  <p className="text-muted-foreground">{target.company}</p>
+                </div>
+                <Badge variant="outline">{getJobLevelLabel(target.level)}</Badge>
+              </div>
+
+              {target.job_description && (
+                <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap">{target.job_description}</p>
+              )}
+
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Layers className="w-4 h-4" />
+                {target.deck_id
+                  ? `${packSize} question${packSize === 1 ? '' : 's'} in pack`
+                  : 'No pack yet'}
+                {target.pack_generated_at && (
+                  <span className="text-xs">
+                    · updated {formatDistanceToNow(new Date(target.pack_generated_at), { addSuffix: true })}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 mt-auto">
+                {target.deck_id && packSize > 0 ? (
+                  <>
+                    <Button variant="glass" size="sm" onClick={() => navigate(`/practice?deck=${target.deck_id}`)}>
+                      <Play className="w-4 h-4" /> Practice
+                    </Button>
+                    <Button variant="glass" size="sm" onClick={() => navigate(`/practice?deck=${target.deck_id}&mode=quiz`)}>
+                      <GraduationCap className="w-4 h-4" /> Quiz
+                    </Button>
+                    <Button variant="hero" size="sm" onClick={() => navigate(`/voice-interview?target=${target.id}`)}>
+                      <Mic className="w-4 h-4" /> Voice Interview
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={isGenerating} onClick={() => handleGenerate(target)}>
+                      {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                      More Questions
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="neon" size="sm" disabled={isGenerating} onClick={() => handleGenerate(target)}>
+                    {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                    {isGenerating ? 'Building pack...' : 'Build Question Pack'}
+                  </Button>
+                )}
+
+                <div className="flex items-center gap-1 ml-auto">
+                  <Button variant="ghost" size="sm" title="Edit" onClick={() => openDialog(target)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" title="Delete" className="text-destructive">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {target.title} at {target.company}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The target and its pack deck are removed. Generated questions stay in your library.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(target)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <JobTargetDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        target={editingTarget}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+};
+
+export default JobTargets;
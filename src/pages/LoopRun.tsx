@@ -0,0 +1,430 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { QuizMode } from '@/components/QuizMode';
+import { filterBySource, getDecks, toDeckSummary, type DeckSummary } from '@/lib/questionBank';
+import { getPersonaOption } from '@/lib/interviewPersonas';
+import { getProctoringPolicy } from '@/lib/proctoringPolicies';
+import {
+  abandonLoopRun,
+  buildLoopReport,
+  completeLoopRun,
+  getLoopRun,
+  getNextRound,
+  getRoundSession,
+  getVoiceRoundPath,
+  type LoopRun as LoopRunData,
+} from '@/lib/interviewLoops';
+import {
+  ArrowLeft,
+  Loader2,
+  Mic,
+  GraduationCap,
+  CheckCircle2,
+  Circle,
+  Coffee,
+  Play,
+  StopCircle,
+  Award,
+  Clock,
+  TrendingUp,
+  TrendingDown,
+  ChevronRight,
+  SkipForward,
+  Shield,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface QuizData {
+  questions: {
+    id: string;
+    question_text: string;
+    sample_answer: string | null;
+    tips: string | null;
+    difficulty: string;
+    category_id: string | null;
+    user_id: string | null;
+  }[];
+  categories: { id: string; name: string; color: string | null }[];
+  decks: DeckSummary[];
+}
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const LoopRun = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [run, setRun] = useState<LoopRunData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // The quiz round being played on this page; voice rounds open their own page
+  const [activeQuizRound, setActiveQuizRound] = useState<number | null>(null);
+  const [quizData, setQuizData] = useState<QuizData | null>(null);
+  const [skippedBreakFor, setSkippedBreakFor] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const loadRun = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setRun(await getLoopRun(id));
+    } catch (error) {
+      console.error('Error loading interview loop:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to load this loop.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => {
+    loadRun();
+  }, [loadRun]);
+
+  const nextRound = run ? getNextRound(run) : -1;
+  const isFinished = !!run && (nextRound === -1 || run.status !== 'in_progress');
+
+  // Close the run once every round has a finished session
+  useEffect(() => {
+    if (!run || run.status !== 'in_progress' || nextRound !== -1) return;
+
+    completeLoopRun(run)
+      .then(loadRun)
+      .catch((error) => console.error('Error completing interview loop:', error));
+  }, [run, nextRound, loadRun]);
+
+  // The break after a round runs from when that round ended
+  const previousSession = run && nextRound > 0 ? getRoundSession(run, nextRound - 1) : null;
+  const breakEndsAt = previousSession?.ended_at && run
+    ? new Date(previousSession.ended_at).getTime() + run.plan.rounds[nextRound - 1].breakMinutes * 60 * 1000
+    : 0;
+  const breakSecondsLeft = Math.max(Math.ceil((breakEndsAt - now) / 1000), 0);
+  const isOnBreak = !isFinished && activeQuizRound === null && breakSecondsLeft > 0 && skippedBreakFor !== nextRound;
+
+  useEffect(() => {
+    if (!isOnBreak) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOnBreak]);
+
+  const startRound = async (index: number) => {
+    if (!run) return;
+    const round = run.plan.rounds[index];
+
+    if (round.type === 'voice') {
+      navigate(getVoiceRoundPath(run.id, index));
+      return;
+    }
+
+    if (!quizData) {
+      try {
+        const [questionsRes, categoriesRes, ownDecks] = await Promise.all([
+          supabase.from('interview_questions').select('*'),
+          supabase.from('question_categories').select('*'),
+          user ? getDecks(user.id) : Promise.resolve([]),
+        ]);
+        if (questionsRes.error) throw questionsRes.error;
+        if (categoriesRes.error) throw categoriesRes.error;
+
+        setQuizData({
+          questions: questionsRes.data || [],
+          categories: categoriesRes.data || [],
+          decks: ownDecks.map(toDeckSummary),
+        });
+      } catch (error) {
+        console.error('Error loading quiz questions:', error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load questions for this round.' });
+        return;
+      }
+    }
+
+    setActiveQuizRound(index);
+  };
+
+  // A fresh random order each time a quiz round starts
+  const quizQuestions = useMemo(() => {
+    if (!run || !quizData || activeQuizRound === null) return [];
+
+    const round = run.plan.rounds[activeQuizRound];
+    const pool = round.deckId
+      ? filterBySource(quizData.questions, { type: 'deck', deckId: round.deckId }, quizData.decks, user?.id)
+      : quizData.questions;
+    return [...pool].sort(() => Math.random() - 0.5);
+  }, [run, quizData, activeQuizRound, user?.id]);
+
+  const finishQuizRound = async () => {
+    setActiveQuizRound(null);
+    setNow(Date.now());
+    await loadRun();
+  };
+
+  const handleEndLoop = async () => {
+    if (!run) return;
+
+    try {
+      await abandonLoopRun(run.id);
+      await loadRun();
+    } catch (error) {
+      console.error('Error ending interview loop:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to end the loop.' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!run) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4 text-center">
+          <p className="text-foreground font-medium">Loop not found</p>
+          <Button variant="outline" onClick={() => navigate('/loops')}>
+            <ArrowLeft className="w-4 h-4" />
+            Back to Loops
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (activeQuizRound !== null) {
+    const round = run.plan.rounds[activeQuizRound];
+    return (
+      <div className="h-full flex flex-col animate-fade-in">
+        <div className="mb-6">
+          <p className="text-sm text-muted-foreground">
+            {run.plan.name} · Round {activeQuizRound + 1} of {run.plan.rounds.length}
+          </p>
+          <h1 className="text-2xl font-bold text-foreground">{round.title}</h1>
+        </div>
+        <div className="flex-1">
+          <QuizMode
+            questions={quizQuestions}
+            categories={quizData?.categories || []}
+            selectedCategory={round.categoryId || null}
+            difficultyFilter="all"
+            adaptive={!!round.adaptive}
+            loopRound={{ parentSessionId: run.id, round: activeQuizRound }}
+            timeLimitSeconds={round.minutes * 60}
+            onFinished={finishQuizRound}
+            proctoringPolicy={run.plan.proctoringPolicy}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const roundList = (
+    <ol className="space-y-2">
+      {run.plan.rounds.map((round, i) => {
+        const session = getRoundSession(run, i);
+        const isNext = i === nextRound && !isFinished;
+        const Icon = round.type === 'voice' ? Mic : GraduationCap;
+
+        return (
+          <li
+            key={round.id}
+            className={cn(
+              'flex items-center justify-between gap-3 p-3 rounded-xl',
+              isNext ? 'bg-primary/10 ring-1 ring-primary/40' : 'bg-secondary/30'
+            )}
+          >
+            <div className="flex items-center gap-3">
+              {session
+                ? <CheckCircle2 className="w-5 h-5 text-success" />
+                : <Circle className="w-5 h-5 text-muted-foreground" />}
+              <div>
+                <p className="text-foreground font-medium flex items-center gap-2">
+                  <Icon className="w-4 h-4 text-muted-foreground" />
+                  {round.title}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {round.type === 'voice' ? getPersonaOption(round.personaId || '').name : 'Quiz'}
+                  {' · '}{round.minutes} min
+                  {session?.duration_minutes ? ` · took ${session.duration_minutes} min` : ''}
+                </p>
+              </div>
+            </div>
+            {session && (
+              <div className="flex items-center gap-3">
+                {session.overall_score !== null && (
+                  <span className="font-mono text-foreground">{Number(session.overall_score).toFixed(1)}/10</span>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => navigate(`/sessions/${session.id}`)}>
+                  Report <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+
+  if (isFinished) {
+    const report = buildLoopReport(run);
+
+    return (
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <Button variant="ghost" onClick={() => navigate('/loops')}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Loops
+        </Button>
+
+        <div className="glass rounded-2xl p-8 text-center">
+          <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-neon-green to-primary flex items-center justify-center mx-auto mb-6">
+            <Award className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-1">{run.plan.name}</h1>
+          <p className="text-muted-foreground mb-6">
+            {run.status === 'abandoned' ? 'Loop ended early' : 'Loop complete'}
+          </p>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="glass rounded-xl p-4">
+              <Award className="w-6 h-6 text-neon-purple mx-auto mb-2" />
+              <p className="text-2xl font-bold text-foreground">
+                {report.overallScore !== null ? report.overallScore.toFixed(1) : '-'}
+              </p>
+              <p className="text-xs text-muted-foreground">Overall Score</p>
+            </div>
+            <div className="glass rounded-xl p-4">
+              <CheckCircle2 className="w-6 h-6 text-neon-green mx-auto mb-2" />
+              <p className="text-2xl font-bold text-foreground">
+                {report.roundsCompleted}/{run.plan.rounds.length}
+              </p>
+              <p className="text-xs text-muted-foreground">Rounds</p>
+            </div>
+            <div className="glass rounded-xl p-4">
+              <Clock className="w-6 h-6 text-neon-cyan mx-auto mb-2" />
+              <p className="text-2xl font-bold text-foreground">{report.totalMinutes}</p>
+              <p className="text-xs text-muted-foreground">Minutes</p>
+            </div>
+          </div>
+        </div>
+
+        {(report.strongest || report.weakest) && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {report.strongest && (
+              <div className="glass rounded-2xl p-4 flex items-start gap-3">
+                <TrendingUp className="w-5 h-5 text-success mt-0.5" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Strongest round</p>
+                  <p className="text-foreground font-medium">
+                    {report.strongest.round.title} · {report.strongest.score.toFixed(1)}/10
+                  </p>
+                </div>
+              </div>
+            )}
+            {report.weakest && (
+              <div className="glass rounded-2xl p-4 flex items-start gap-3">
+                <TrendingDown className="w-5 h-5 text-destructive mt-0.5" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Needs the most work</p>
+                  <p className="text-foreground font-medium">
+                    {report.weakest.round.title} · {report.weakest.score.toFixed(1)}/10
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="glass rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Rounds</h2>
+          {roundList}
+        </div>
+      </div>
+    );
+  }
+
+  const round = run.plan.rounds[nextRound];
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Interview loop</p>
+          <h1 className="text-2xl font-bold text-foreground">{run.plan.name}</h1>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm">
+              <StopCircle className="w-4 h-4" />
+              End Loop
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>End this loop early?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Rounds you finished stay in your history and the report covers just those.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Going</AlertDialogCancel>
+              <AlertDialogAction onClick={handleEndLoop}>End Loop</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {isOnBreak ? (
+        <div className="glass rounded-2xl p-8 text-center">
+          <Coffee className="w-10 h-10 text-neon-cyan mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-foreground mb-1">Break</h2>
+          <p className="text-muted-foreground mb-4">Next up: {round.title}</p>
+          <p className="font-mono text-5xl font-bold text-foreground mb-6">{formatCountdown(breakSecondsLeft)}</p>
+          <Button variant="glass" onClick={() => setSkippedBreakFor(nextRound)}>
+            <SkipForward className="w-4 h-4" />
+            Skip Break
+          </Button>
+        </div>
+      ) : (
+        <div className="glass rounded-2xl p-8">
+          <div className="flex items-center gap-2 mb-2">
+            <Badge variant="outline">Round {nextRound + 1} of {run.plan.rounds.length}</Badge>
+            <Badge variant="outline" className="flex items-center gap-1">
+              <Clock className="w-3 h-3" /> {round.minutes} min
+            </Badge>
+            {run.plan.proctoringPolicy && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Shield className="w-3 h-3" /> {getProctoringPolicy(run.plan.proctoringPolicy).name} proctoring
+              </Badge>
+            )}
+          </div>
+          <h2 className="text-xl font-semibold text-foreground mb-2">{round.title}</h2>
+          <p className="text-muted-foreground mb-6">
+            {round.type === 'voice'
+              ? `${getPersonaOption(round.personaId || '').briefing}${round.focus ? ` ${round.focus}` : ''}`
+              : `Answer as many questions as you can${round.adaptive ? ' while the difficulty adjusts to you' : ''}. The round ends when time is up.`}
+          </p>
+          <Button variant="hero" onClick={() => startRound(nextRound)}>
+            <Play className="w-4 h-4" />
+            Start Round
+          </Button>
+        </div>
+      )}
+
+      <div className="glass rounded-2xl p-6">
+        <h2 className="text-lg font-semibold text-foreground mb-4">Rounds</h2>
+        {roundList}
+      </div>
+    </div>
+  );
+};
+
+export default LoopRun;
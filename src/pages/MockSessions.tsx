@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import {
   Calendar,
@@ -19,8 +21,15 @@ import {
   CalendarDays,
   UserPlus,
   AlertCircle,
+  Shield,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  DEFAULT_PROCTORING_POLICY_ID,
+  PROCTORING_POLICIES,
+  getProctoringPolicy,
+  type ProctoringPolicyId,
+} from '@/lib/proctoringPolicies';
 import { format, formatDistanceToNow, isPast } from 'date-fns';
 
 interface MockInvite {
@@ -44,12 +53,14 @@ interface Session {
   duration_minutes: number | null;
   overall_score: number | null;
   notes: string | null;
+  proctoring_policy: string | null;
   created_at: string;
 }
 
 const MockSessions = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   // State
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -64,6 +75,7 @@ const MockSessions = () => {
   const [scheduledDate, setScheduledDate] = useState('');
   const [scheduledTime, setScheduledTime] = useState('');
   const [sessionNotes, setSessionNotes] = useState('');
+  const [proctoringPolicy, setProctoringPolicy] = useState<ProctoringPolicyId>(DEFAULT_PROCTORING_POLICY_ID);
 
   // Fetch data
   useEffect(() => {
@@ -138,6 +150,7 @@ const MockSessions = () => {
           status: 'scheduled',
           scheduled_at: scheduledAt,
           notes: sessionNotes || null,
+          proctoring_policy: proctoringPolicy,
         })
         .select()
         .single();
@@ -183,6 +196,7 @@ const MockSessions = () => {
       setScheduledDate('');
       setScheduledTime('');
       setSessionNotes('');
+      setProctoringPolicy(DEFAULT_PROCTORING_POLICY_ID);
 
       // Refresh data
       setSessions((prev) => [...prev, sessionData]);
@@ -505,6 +519,24 @@ const MockSessions = () => {
                 placeholder="Topics to cover, specific questions to practice..."
               />
             </div>
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">
+                Proctoring
+              </label>
+              <Select value={proctoringPolicy} onValueChange={(value) => setProctoringPolicy(value as ProctoringPolicyId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROCTORING_POLICIES.map((policy) => (
+                    <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {getProctoringPolicy(proctoringPolicy).description}
+              </p>
+            </div>
             <div className="flex items-center gap-3">
               <Button
                 type="button"
@@ -577,6 +609,12 @@ const MockSessions = () => {
                             {invite.invitee_email}
                           </span>
                         )}
+                        {session.proctoring_policy && (
+                          <span className="flex items-center gap-1">
+                            <Shield className="w-3 h-3" />
+                            {getProctoringPolicy(session.proctoring_policy).name}
+                          </span>
+                        )}
                       </div>
                       {session.notes && (
                         <p className="text-xs text-muted-foreground mt-1">{session.notes}</p>
@@ -585,7 +623,11 @@ const MockSessions = () => {
                   </div>
                   <div className="flex items-center gap-2">
                     {session.status === 'confirmed' && (
-                      <Button variant="success" size="sm">
+                      <Button
+                        variant="success"
+                        size="sm"
+                        onClick={() => navigate(`/voice-interview?mock=${session.id}`)}
+                      >
                         <Video className="w-4 h-4" />
                         Join
                       </Button>
@@ -127,7 +127,7 @@ const Onboarding = () => {
                            data.experience === 'mid' ? 'medium' : 'easy',
         sessionDuration: data.sessionDuration,
         autoRecordSessions: true,
-        showCheatingAlerts: true,
+        proctoringPolicy: 'coaching',
       }));
     }
 
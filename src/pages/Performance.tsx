@@ -23,8 +23,11 @@ import {
   GraduationCap,
   Brain,
   Zap,
+  Gauge,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getAverageScore } from '@/lib/grading';
+import { getFillerRate, TARGET_WPM } from '@/lib/speechMetrics';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import {
   LineChart,
@@ -66,6 +69,15 @@ interface QuizResponse {
   question_text: string;
   response_text: string | null;
   duration_seconds: number | null;
+  clarity_score: number | null;
+  confidence_score: number | null;
+  relevance_score: number | null;
+  ai_feedback: string | null;
+  word_count: number | null;
+  words_per_minute: number | null;
+  filler_word_count: number | null;
+  long_pause_count: number | null;
+  hedge_count: number | null;
   created_at: string;
   session_id: string;
 }
@@ -95,6 +107,8 @@ interface CategoryStats {
   totalQuestions: number;
   avgResponseTime: number;
   responseCount: number;
+  avgScore: number | null;
+  gradedCount: number;
 }
 
 const Performance = () => {
@@ -119,6 +133,8 @@ const Performance = () => {
           .from('interview_sessions')
           .select('*')
           .eq('user_id', user.id)
+          // Loop runs would count their rounds twice; each round has its own row
+          .neq('session_type', 'loop')
           .order('created_at', { ascending: false });
 
         if (timeRange === 'week') {
@@ -252,7 +268,7 @@ const Performance = () => {
 
   // Category performance analysis
   const categoryAnalysis = useMemo(() => {
-    const categoryMap = new Map<string, { responses: number; totalTime: number; questionIds: Set<string> }>();
+    const categoryMap = new Map<string, { responses: number; totalTime: number; totalScore: number; graded: number; questionIds: Set<string> }>();
 
     quizResponses.forEach(response => {
       if (!response.question_id) return;
@@ -263,11 +279,18 @@ const Performance = () => {
       const current = categoryMap.get(question.category_id) || { 
         responses: 0, 
         totalTime: 0, 
+        totalScore: 0,
+        graded: 0,
         questionIds: new Set<string>() 
       };
       
       current.responses += 1;
       current.totalTime += response.duration_seconds || 0;
+      const score = getAverageScore(response);
+      if (score !== null) {
+        current.totalScore += score;
+        current.graded += 1;
+      }
       current.questionIds.add(question.id);
       categoryMap.set(question.category_id, current);
     });
@@ -282,6 +305,8 @@ const Performance = () => {
           totalQuestions: data.questionIds.size,
           avgResponseTime: data.responses > 0 ? Math.round(data.totalTime / data.responses) : 0,
           responseCount: data.responses,
+          avgScore: data.graded > 0 ? Math.round((data.totalScore / data.graded) * 10) / 10 : null,
+          gradedCount: data.graded,
         });
       }
     });
@@ -302,9 +327,17 @@ const Performance = () => {
     });
   }, [categories, categoryAnalysis]);
 
-  // Identify weak areas (categories with few responses or high avg time)
+  // Identify weak areas (lowest graded categories, falling back to few responses or high avg time)
   const weakAreas = useMemo(() => {
     if (categoryAnalysis.length === 0) return [];
+
+    const gradedCategories = categoryAnalysis.filter(c => c.avgScore !== null);
+    if (gradedCategories.length > 0) {
+      return [...gradedCategories]
+        .filter(c => (c.avgScore as number) < 7)
+        .sort((a, b) => (a.avgScore as number) - (b.avgScore as number))
+        .slice(0, 3);
+    }
     
     const avgTime = categoryAnalysis.reduce((sum, c) => sum + c.avgResponseTime, 0) / categoryAnalysis.length;
     const avgResponses = categoryAnalysis.reduce((sum, c) => sum + c.responseCount, 0) / categoryAnalysis.length;
@@ -332,9 +365,16 @@ const Performance = () => {
         isSameDay(new Date(r.created_at), date)
       );
       
+      const dayScores = dayResponses
+        .map(r => getAverageScore(r))
+        .filter((score): score is number => score !== null);
+
       return {
         date: format(date, 'MMM d'),
         responses: dayResponses.length,
+        avgScore: dayScores.length > 0
+          ? Math.round((dayScores.reduce((sum, score) => sum + score, 0) / dayScores.length) * 10) / 10
+          : null,
         avgTime: dayResponses.length > 0
           ? Math.round(dayResponses.reduce((sum, r) => sum + (r.duration_seconds || 0), 0) / dayResponses.length)
           : 0,
@@ -342,6 +382,66 @@ const Performance = () => {
     });
   }, [quizResponses, timeRange]);
 
+  // Speaking pace, fillers and hedging across spoken answers
+  const speechTrend = useMemo(() => {
+    const spoken = quizResponses.filter(r => r.words_per_minute !== null);
+    const days = timeRange === 'week' ? 7 : timeRange === 'month' ? 30 : 90;
+    const interval = eachDayOfInterval({
+      start: subDays(new Date(), days - 1),
+      end: new Date(),
+    });
+
+    const summarize = (responses: QuizResponse[]) => {
+      const words = responses.reduce((sum, r) => sum + (r.word_count || 0), 0);
+      const fillers = responses.reduce((sum, r) => sum + (r.filler_word_count || 0), 0);
+      return {
+        avgWpm: responses.length > 0
+          ? Math.round(responses.reduce((sum, r) => sum + Number(r.words_per_minute), 0) / responses.length)
+          : null,
+        fillerRate: getFillerRate(fillers, words),
+        avgPauses: responses.length > 0
+          ? Math.round((responses.reduce((sum, r) => sum + (r.long_pause_count || 0), 0) / responses.length) * 10) / 10
+          : null,
+        avgHedges: responses.length > 0
+          ? Math.round((responses.reduce((sum, r) => sum + (r.hedge_count || 0), 0) / responses.length) * 10) / 10
+          : null,
+      };
+    };
+
+    return {
+      spokenCount: spoken.length,
+      overall: summarize(spoken),
+      daily: interval.map(date => ({
+        date: format(date, 'MMM d'),
+        ...summarize(spoken.filter(r => isSameDay(new Date(r.created_at), date))),
+      })),
+    };
+  }, [quizResponses, timeRange]);
+
+  // Average rubric scores across all graded answers
+  const answerQuality = useMemo(() => {
+    const graded = quizResponses.filter(r => getAverageScore(r) !== null);
+    const average = (key: 'clarity_score' | 'confidence_score' | 'relevance_score') => {
+      const values = graded.map(r => r[key]).filter((v): v is number => v !== null).map(Number);
+      return values.length > 0
+        ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+        : null;
+    };
+
+    return {
+      gradedCount: graded.length,
+      clarity: average('clarity_score'),
+      confidence: average('confidence_score'),
+      relevance: average('relevance_score'),
+      overall: getAverageScore({
+        clarity_score: average('clarity_score'),
+        confidence_score: average('confidence_score'),
+        relevance_score: average('relevance_score'),
+      }),
+      recent: graded.slice(0, 5),
+    };
+  }, [quizResponses]);
+
   // Recent sessions for insights
   const recentSessions = sessions.slice(0, 5);
 
@@ -642,6 +742,91 @@ const Performance = () => {
         </div>
       </div>
 
+      {/* Speaking Habits */}
+      <div className="glass rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-neon-cyan" />
+          Speaking Habits
+        </h3>
+        {speechTrend.spokenCount > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="space-y-3">
+              {([
+                ['Avg Pace', speechTrend.overall.avgWpm !== null ? `${speechTrend.overall.avgWpm} wpm` : '-'],
+                ['Fillers per 100 words', speechTrend.overall.fillerRate ?? '-'],
+                ['Long pauses per answer', speechTrend.overall.avgPauses ?? '-'],
+                ['Hedges per answer', speechTrend.overall.avgHedges ?? '-'],
+              ] as const).map(([label, value]) => (
+                <div key={label} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className="font-mono text-foreground">{value}</span>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground pt-2">
+                Aim for {TARGET_WPM.min}-{TARGET_WPM.max} wpm across {speechTrend.spokenCount} spoken answers.
+              </p>
+            </div>
+            <div className="lg:col-span-3 h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={speechTrend.daily}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 15%, 20%)" />
+                  <XAxis 
+                    dataKey="date" 
+                    stroke="hsl(215, 20%, 65%)" 
+                    fontSize={12}
+                    tickLine={false}
+                  />
+                  <YAxis 
+                    yAxisId="wpm"
+                    stroke="hsl(215, 20%, 65%)" 
+                    fontSize={12}
+                    tickLine={false}
+                  />
+                  <YAxis 
+                    yAxisId="fillers"
+                    orientation="right"
+                    stroke="hsl(215, 20%, 65%)" 
+                    fontSize={12}
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(220, 15%, 12%)',
+                      border: '1px solid hsl(220, 15%, 20%)',
+                      borderRadius: '12px',
+                    }}
+                  />
+                  <Line
+                    yAxisId="wpm"
+                    type="monotone"
+                    dataKey="avgWpm"
+                    stroke="hsl(180, 100%, 50%)"
+                    strokeWidth={2}
+                    name="Words / min"
+                    connectNulls
+                  />
+                  <Line
+                    yAxisId="fillers"
+                    type="monotone"
+                    dataKey="fillerRate"
+                    stroke="hsl(45, 100%, 50%)"
+                    strokeWidth={2}
+                    name="Fillers / 100 words"
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Mic className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">No spoken answers yet</p>
+            <p className="text-sm text-muted-foreground">Answer out loud in a voice interview or quiz to track your pace and filler words</p>
+          </div>
+        )}
+      </div>
+
       {/* Recent Sessions */}
       <div className="glass rounded-2xl p-6">
         <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -818,15 +1003,17 @@ const Performance = () => {
             <div className="glass rounded-2xl p-6">
               <div className="flex items-center justify-between mb-4">
                 <div className="w-12 h-12 rounded-xl bg-neon-green/20 flex items-center justify-center">
-                  <Clock className="w-6 h-6 text-neon-green" />
+                  <Award className="w-6 h-6 text-neon-green" />
                 </div>
+                <span className="text-xs text-muted-foreground">{answerQuality.gradedCount} graded</span>
               </div>
-              <p className="text-3xl font-bold text-foreground">
-                {quizResponses.length > 0
-                  ? Math.round(quizResponses.reduce((sum, r) => sum + (r.duration_seconds || 0), 0) / quizResponses.length)
-                  : 0}s
+              <p className={cn(
+                'text-3xl font-bold',
+                answerQuality.overall !== null ? getScoreColor(answerQuality.overall) : 'text-foreground'
+              )}>
+                {answerQuality.overall !== null ? answerQuality.overall.toFixed(1) : '-'}
               </p>
-              <p className="text-sm text-muted-foreground">Avg Response Time</p>
+              <p className="text-sm text-muted-foreground">Avg Answer Score</p>
             </div>
           </div>
 
@@ -836,9 +1023,9 @@ const Performance = () => {
             <div className="glass rounded-2xl p-6">
               <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
                 <TrendingUp className="w-5 h-5 text-neon-cyan" />
-                Quiz Activity Over Time
+                Answer Scores Over Time
               </h3>
-              {quizProgressData.some(d => d.responses > 0) ? (
+              {quizProgressData.some(d => d.avgScore !== null) ? (
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
                     <AreaChart data={quizProgressData}>
@@ -859,6 +1046,7 @@ const Performance = () => {
                         stroke="hsl(215, 20%, 65%)" 
                         fontSize={12}
                         tickLine={false}
+                        domain={[0, 10]}
                       />
                       <Tooltip
                         contentStyle={{
@@ -871,11 +1059,12 @@ const Performance = () => {
                       />
                       <Area
                         type="monotone"
-                        dataKey="responses"
+                        dataKey="avgScore"
                         stroke="hsl(270, 100%, 65%)"
                         fill="url(#quizGradient)"
                         strokeWidth={2}
-                        name="Questions Answered"
+                        connectNulls
+                        name="Avg Answer Score"
                       />
                     </AreaChart>
                   </ResponsiveContainer>
@@ -884,8 +1073,8 @@ const Performance = () => {
                 <div className="h-64 flex items-center justify-center">
                   <div className="text-center">
                     <GraduationCap className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-                    <p className="text-muted-foreground">No quiz data yet</p>
-                    <p className="text-sm text-muted-foreground">Complete some quiz sessions to see your progress</p>
+                    <p className="text-muted-foreground">No graded answers yet</p>
+                    <p className="text-sm text-muted-foreground">Complete some quiz sessions to see your scores</p>
                   </div>
                 </div>
               )}
@@ -956,7 +1145,11 @@ const Performance = () => {
                       </div>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span>{area.responseCount} responses</span>
-                        <span>Avg: {area.avgResponseTime}s</span>
+                        {area.avgScore !== null ? (
+                          <span className={getScoreColor(area.avgScore)}>Score: {area.avgScore.toFixed(1)}/10</span>
+                        ) : (
+                          <span>Avg: {area.avgResponseTime}s</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -997,8 +1190,13 @@ const Performance = () => {
                           <p className="text-xs text-muted-foreground">Responses</p>
                         </div>
                         <div className="text-right">
-                          <p className="text-lg font-bold text-neon-cyan">{cat.avgResponseTime}s</p>
-                          <p className="text-xs text-muted-foreground">Avg Time</p>
+                          <p className={cn(
+                            'text-lg font-bold',
+                            cat.avgScore !== null ? getScoreColor(cat.avgScore) : 'text-muted-foreground'
+                          )}>
+                            {cat.avgScore !== null ? cat.avgScore.toFixed(1) : '-'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">Avg Score</p>
                         </div>
                       </div>
                     </div>
@@ -1014,6 +1212,66 @@ const Performance = () => {
             </div>
           </div>
 
+          {/* Answer Quality */}
+          <div className="glass rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+              <Target className="w-5 h-5 text-neon-green" />
+              Answer Quality
+            </h3>
+            {answerQuality.gradedCount > 0 ? (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-4">
+                  {([
+                    ['Clarity', answerQuality.clarity],
+                    ['Confidence', answerQuality.confidence],
+                    ['Relevance', answerQuality.relevance],
+                  ] as const).map(([label, value]) => (
+                    <div key={label} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">{label}</span>
+                        <span className={cn('font-mono', value !== null ? getScoreColor(value) : 'text-muted-foreground')}>
+                          {value !== null ? value.toFixed(1) : '-'}/10
+                        </span>
+                      </div>
+                      <div className="h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-primary to-neon-purple rounded-full"
+                          style={{ width: `${(value || 0) * 10}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="lg:col-span-2 space-y-3 max-h-64 overflow-y-auto">
+                  {answerQuality.recent.map((response) => {
+                    const score = getAverageScore(response);
+                    return (
+                      <div key={response.id} className="glass rounded-xl p-4">
+                        <div className="flex items-start justify-between gap-4 mb-1">
+                          <p className="text-sm font-medium text-foreground line-clamp-1">{response.question_text}</p>
+                          {score !== null && (
+                            <span className={cn('text-sm font-mono font-bold shrink-0', getScoreColor(score))}>
+                              {score.toFixed(1)}
+                            </span>
+                          )}
+                        </div>
+                        {response.ai_feedback && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">{response.ai_feedback}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Target className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                <p className="text-muted-foreground">No graded answers yet</p>
+                <p className="text-sm text-muted-foreground">Submit quiz answers to get AI scores and feedback</p>
+              </div>
+            )}
+          </div>
+
           {/* Recent Quiz Sessions */}
           <div className="glass rounded-2xl p-6">
             <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
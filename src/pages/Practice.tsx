@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { QuizMode } from '@/components/QuizMode';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Play,
   Pause,
@@ -25,6 +28,26 @@ import {
   Zap,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  REVIEW_GRADES,
+  createNewCardState,
+  formatReviewDelay,
+  getCardStates,
+  isCardDue,
+  orderDeck,
+  saveCardState,
+  scheduleReview,
+  type CardState,
+  type ReviewGrade,
+} from '@/lib/spacedRepetition';
+import {
+  filterBySource,
+  getDecks,
+  getSharedDeck,
+  toDeckSummary,
+  type DeckSummary,
+  type QuestionSource,
+} from '@/lib/questionBank';
 
 interface Question {
   id: string;
@@ -33,6 +56,7 @@ interface Question {
   tips: string | null;
   difficulty: string;
   category_id: string | null;
+  user_id?: string | null;
 }
 
 interface Category {
@@ -46,12 +70,41 @@ type TimerSetting = 30 | 60 | 90 | 120;
 type DifficultyFilter = 'all' | 'easy' | 'medium' | 'hard';
 type PracticeMode = 'flashcard' | 'quiz';
 
+const sourceToValue = (source: QuestionSource) => {
+  if (source.type === 'deck') return `deck:${source.deckId}`;
+  if (source.type === 'question') return `question:${source.questionId}`;
+  return source.type;
+};
+
+const valueToSource = (value: string): QuestionSource => {
+  if (value.startsWith('deck:')) return { type: 'deck', deckId: value.slice('deck:'.length) };
+  if (value.startsWith('question:')) return { type: 'question', questionId: value.slice('question:'.length) };
+  return { type: value as 'all' | 'mine' };
+};
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'border-destructive/30 hover:bg-destructive/10 text-destructive' },
+  hard: { label: 'Hard', className: 'border-warning/30 hover:bg-warning/10 text-warning' },
+  good: { label: 'Good', className: 'border-neon-green/30 hover:bg-neon-green/10 text-neon-green' },
+  easy: { label: 'Easy', className: 'border-primary/30 hover:bg-primary/10 text-primary' },
+};
+
 const Practice = () => {
+  const { user } = useAuth();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const deckParam = searchParams.get('deck');
+  const sharedParam = searchParams.get('shared');
+  // Opened from a question's detail page to practice just that question
+  const questionParam = searchParams.get('question');
+  const modeParam = searchParams.get('mode');
   
   // Data state
   const [questions, setQuestions] = useState<Question[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [cardStates, setCardStates] = useState<Record<string, CardState>>({});
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [source, setSource] = useState<QuestionSource>({ type: 'all' });
   const [isLoading, setIsLoading] = useState(true);
   
   // Practice state
@@ -66,6 +119,7 @@ const Practice = () => {
   const [difficultyFilter, setDifficultyFilter] = useState<DifficultyFilter>('all');
   const [showFilters, setShowFilters] = useState(false);
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('flashcard');
+  const [adaptiveQuiz, setAdaptiveQuiz] = useState(false);
   
   // Stats
   const [cardsReviewed, setCardsReviewed] = useState(0);
@@ -76,16 +130,49 @@ const Practice = () => {
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [questionsRes, categoriesRes] = await Promise.all([
+        const [questionsRes, categoriesRes, states, ownDecks, sharedDeck] = await Promise.all([
           supabase.from('interview_questions').select('*'),
           supabase.from('question_categories').select('*'),
+          user ? getCardStates(user.id) : Promise.resolve({} as Record<string, CardState>),
+          user ? getDecks(user.id) : Promise.resolve([]),
+          sharedParam ? getSharedDeck(sharedParam) : Promise.resolve(null),
         ]);
 
         if (questionsRes.error) throw questionsRes.error;
         if (categoriesRes.error) throw categoriesRes.error;
 
-        setQuestions(questionsRes.data || []);
+        // Someone else's shared deck brings questions RLS would otherwise hide
+        const allQuestions: Question[] = questionsRes.data || [];
+        const knownIds = new Set(allQuestions.map((q) => q.id));
+        sharedDeck?.questions.forEach((q) => {
+          if (!knownIds.has(q.id)) allQuestions.push(q);
+        });
+
+        const deckSummaries = ownDecks.map(toDeckSummary);
+        if (sharedDeck && !deckSummaries.some((d) => d.id === sharedDeck.id)) {
+          deckSummaries.push(toDeckSummary(sharedDeck));
+        }
+
+        if (sharedParam && !sharedDeck) {
+          toast({
+            variant: 'destructive',
+            title: 'Deck not found',
+            description: 'This share link is no longer active.',
+          });
+        }
+
+        // Due cards come first so each visit picks up where the schedule left off
+        setCardStates(states);
+        setQuestions(orderDeck(allQuestions, states));
         setCategories(categoriesRes.data || []);
+        setDecks(deckSummaries);
+
+        const initialDeckId = sharedDeck?.id || deckParam;
+        if (questionParam && allQuestions.some((q) => q.id === questionParam)) {
+          setSource({ type: 'question', questionId: questionParam });
+        } else if (initialDeckId && deckSummaries.some((d) => d.id === initialDeckId)) {
+          setSource({ type: 'deck', deckId: initialDeckId });
+        }
       } catch (error) {
         console.error('Error fetching data:', error);
         toast({
@@ -99,16 +186,23 @@ const Practice = () => {
     };
 
     fetchData();
-  }, [toast]);
+  }, [toast, user, deckParam, sharedParam, questionParam]);
+
+  useEffect(() => {
+    if (modeParam === 'quiz' || modeParam === 'flashcard') setPracticeMode(modeParam);
+  }, [modeParam]);
 
   // Filter questions
-  const filteredQuestions = questions.filter((q) => {
+  const sourceQuestions = filterBySource(questions, source, decks, user?.id);
+  const filteredQuestions = sourceQuestions.filter((q) => {
     if (selectedCategory && q.category_id !== selectedCategory) return false;
     if (difficultyFilter !== 'all' && q.difficulty !== difficultyFilter) return false;
     return true;
   });
 
   const currentQuestion = filteredQuestions[currentIndex];
+  const currentCardState = currentQuestion ? cardStates[currentQuestion.id] : undefined;
+  const dueCount = filteredQuestions.filter((q) => isCardDue(cardStates[q.id])).length;
 
   // Timer logic
   useEffect(() => {
@@ -150,16 +244,24 @@ const Practice = () => {
   }, [currentIndex, timerSetting]);
 
   const shuffleCards = useCallback(() => {
-    setQuestions((prev) => [...prev].sort(() => Math.random() - 0.5));
+    setQuestions((prev) => orderDeck(prev, cardStates, { shuffleNew: true }));
     setCurrentIndex(0);
     setShowAnswer(false);
     setTimeRemaining(timerSetting);
     setIsTimerRunning(false);
     toast({
       title: 'Shuffled!',
-      description: 'Cards have been randomized.',
+      description: 'New cards have been randomized. Due cards stay first.',
     });
-  }, [timerSetting, toast]);
+  }, [cardStates, timerSetting, toast]);
+
+  const selectSource = (value: string) => {
+    setSource(valueToSource(value));
+    setCurrentIndex(0);
+    setShowAnswer(false);
+    setTimeRemaining(timerSetting);
+    setIsTimerRunning(false);
+  };
 
   const resetPractice = useCallback(() => {
     setCurrentIndex(0);
@@ -171,13 +273,45 @@ const Practice = () => {
     setIncorrectCount(0);
   }, [timerSetting]);
 
-  const markCard = (correct: boolean) => {
-    if (correct) {
+  const gradeCard = (grade: ReviewGrade) => {
+    if (!currentQuestion) return;
+
+    const nextState = scheduleReview(currentCardState || createNewCardState(), grade);
+    setCardStates((prev) => ({ ...prev, [currentQuestion.id]: nextState }));
+
+    if (user) {
+      saveCardState(user.id, currentQuestion.id, nextState).catch((error) => {
+        console.error('Error saving card review:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Review not saved',
+          description: 'This card will be scheduled again next time.',
+        });
+      });
+    }
+
+    if (grade !== 'again') {
       setCorrectCount((prev) => prev + 1);
-    } else {
-      setIncorrectCount((prev) => prev + 1);
+      goToNext();
+      return;
     }
-    goToNext();
+
+    // Forgotten cards move to the back of the deck for another go this sitting
+    setIncorrectCount((prev) => prev + 1);
+    setQuestions((prev) => [...prev.filter((q) => q.id !== currentQuestion.id), currentQuestion]);
+    setShowAnswer(false);
+    setTimeRemaining(timerSetting);
+    setIsTimerRunning(false);
+    setCardsReviewed((prev) => prev + 1);
+  };
+
+  const getCardStatus = (state: CardState | undefined) => {
+    if (!state) return { label: 'New', className: 'bg-primary/20 text-primary border-primary/30' };
+    if (isCardDue(state)) return { label: 'Due', className: 'bg-warning/20 text-warning border-warning/30' };
+    return {
+      label: `Next review in ${formatReviewDelay(state.dueAt)}`,
+      className: 'bg-muted text-muted-foreground border-border',
+    };
   };
 
   const formatTime = (seconds: number) => {
@@ -230,16 +364,17 @@ const Practice = () => {
           <BookOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
           <h2 className="text-xl font-bold text-foreground mb-2">No Questions Found</h2>
           <p className="text-muted-foreground mb-4">
-            {selectedCategory || difficultyFilter !== 'all'
+            {selectedCategory || difficultyFilter !== 'all' || source.type !== 'all'
               ? 'Try adjusting your filters to see more questions.'
               : 'Add some questions to start practicing.'}
           </p>
-          {(selectedCategory || difficultyFilter !== 'all') && (
+          {(selectedCategory || difficultyFilter !== 'all' || source.type !== 'all') && (
             <Button
               variant="glass"
               onClick={() => {
                 setSelectedCategory(null);
                 setDifficultyFilter('all');
+                setSource({ type: 'all' });
               }}
             >
               Clear Filters
@@ -267,6 +402,25 @@ const Practice = () => {
         </div>
 
         <div className="flex items-center gap-3">
+          {/* Question Source */}
+          <Select value={sourceToValue(source)} onValueChange={selectSource}>
+            <SelectTrigger className="glass w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All questions</SelectItem>
+              {user && <SelectItem value="mine">My questions</SelectItem>}
+              {source.type === 'question' && (
+                <SelectItem value={sourceToValue(source)}>This question only</SelectItem>
+              )}
+              {decks.map((deck) => (
+                <SelectItem key={deck.id} value={`deck:${deck.id}`}>
+                  {deck.isShared ? `Shared: ${deck.name}` : deck.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {/* Mode Toggle */}
           <Tabs value={practiceMode} onValueChange={(v) => setPracticeMode(v as PracticeMode)}>
             <TabsList className="glass">
@@ -285,6 +439,10 @@ const Practice = () => {
             <>
               {/* Stats */}
               <div className="glass rounded-xl px-4 py-2 flex items-center gap-4">
+                <div className="flex items-center gap-2" title="Cards due for review">
+                  <Clock className="w-4 h-4 text-warning" />
+                  <span className="font-mono text-foreground">{dueCount}</span>
+                </div>
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="w-4 h-4 text-neon-green" />
                   <span className="font-mono text-foreground">{correctCount}</span>
@@ -378,6 +536,28 @@ const Practice = () => {
                 ))}
               </div>
             </div>
+            <div>
+              <label className="text-xs font-medium text-muted-foreground mb-2 block">
+                Question Order
+              </label>
+              <div className="flex gap-2">
+                {([['fixed', false], ['adaptive', true]] as const).map(([label, value]) => (
+                  <button
+                    key={label}
+                    onClick={() => setAdaptiveQuiz(value)}
+                    title={value ? 'Difficulty follows your grades; the difficulty filter sets where it starts' : undefined}
+                    className={cn(
+                      'px-3 py-1.5 rounded-lg text-sm capitalize transition-all',
+                      adaptiveQuiz === value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted text-muted-foreground hover:bg-secondary'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
       )}
@@ -386,10 +566,12 @@ const Practice = () => {
       {practiceMode === 'quiz' && (
         <div className="flex-1">
           <QuizMode
-            questions={questions}
+            key={adaptiveQuiz ? 'adaptive' : 'fixed'}
+            questions={sourceQuestions}
             categories={categories}
             selectedCategory={selectedCategory}
             difficultyFilter={difficultyFilter}
+            adaptive={adaptiveQuiz}
           />
         </div>
       )}
@@ -550,6 +732,14 @@ const Practice = () => {
               <span className="px-2 py-1 rounded-lg text-xs font-medium bg-muted text-muted-foreground">
                 {getCategoryName(currentQuestion?.category_id || null)}
               </span>
+              <span
+                className={cn(
+                  'px-2 py-1 rounded-lg text-xs font-medium border',
+                  getCardStatus(currentCardState).className
+                )}
+              >
+                {getCardStatus(currentCardState).label}
+              </span>
             </div>
             <button
               onClick={(e) => {
@@ -596,24 +786,21 @@ const Practice = () => {
 
         {/* Self-Assessment */}
         {showAnswer && (
-          <div className="mt-6 flex items-center gap-4 animate-fade-in">
-            <p className="text-sm text-muted-foreground">How did you do?</p>
-            <Button
-              variant="glass"
-              onClick={() => markCard(false)}
-              className="border-destructive/30 hover:bg-destructive/10"
-            >
-              <XCircle className="w-4 h-4 text-destructive mr-2" />
-              Needs Work
-            </Button>
-            <Button
-              variant="glass"
-              onClick={() => markCard(true)}
-              className="border-neon-green/30 hover:bg-neon-green/10"
-            >
-              <CheckCircle2 className="w-4 h-4 text-neon-green mr-2" />
-              Got It!
-            </Button>
+          <div className="mt-6 flex flex-wrap items-center justify-center gap-3 animate-fade-in">
+            <p className="text-sm text-muted-foreground">How well did you recall it?</p>
+            {REVIEW_GRADES.map((grade) => (
+              <Button
+                key={grade}
+                variant="glass"
+                onClick={() => gradeCard(grade)}
+                className={cn('flex-col h-auto py-2 min-w-20', GRADE_STYLES[grade].className)}
+              >
+                <span className="font-medium">{GRADE_STYLES[grade].label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {formatReviewDelay(scheduleReview(currentCardState || createNewCardState(), grade).dueAt)}
+                </span>
+              </Button>
+            ))}
           </div>
         )}
 
@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import QuestionEditorDialog from '@/components/QuestionEditorDialog';
+import { getAverageScore } from '@/lib/grading';
+import { getQuestionNote, isOwnQuestion, saveQuestionNote } from '@/lib/questionBank';
+import {
+  ArrowLeft,
+  Calendar,
+  GraduationCap,
+  Lightbulb,
+  Loader2,
+  Mic,
+  NotebookPen,
+  Pencil,
+  Save,
+  Sparkles,
+  History,
+  ChevronRight,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Question = Tables<'interview_questions'> & { question_categories: { name: string } | null };
+
+interface PastResponse {
+  id: string;
+  session_id: string;
+  response_text: string | null;
+  clarity_score: number | null;
+  confidence_score: number | null;
+  relevance_score: number | null;
+  ai_feedback: string | null;
+  created_at: string;
+  interview_sessions: { session_type: string } | null;
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 8) return 'text-neon-green';
+  if (score >= 6) return 'text-warning';
+  return 'text-destructive';
+};
+
+const getDifficultyColor = (d: string) => {
+  if (d === 'easy') return 'bg-neon-green/20 text-neon-green';
+  if (d === 'medium') return 'bg-warning/20 text-warning';
+  return 'bg-destructive/20 text-destructive';
+};
+
+const QuestionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [responses, setResponses] = useState<PastResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  // Notes are saved explicitly; savedNote tracks what is stored
+  const [note, setNote] = useState('');
+  const [savedNote, setSavedNote] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+
+  useEffect(() => {
+    if (!user || !id) return;
+
+    const fetchQuestion = async () => {
+      try {
+        const [questionResult, categoriesResult, responsesResult, storedNote] = await Promise.all([
+          supabase
+            .from('interview_questions')
+            .select('*, question_categories(name)')
+            .eq('id', id)
+            .maybeSingle(),
+          supabase.from('question_categories').select('id, name'),
+          // RLS limits responses to the user's own sessions
+          supabase
+            .from('interview_responses')
+            .select(`
+              id, session_id, response_text, clarity_score, confidence_score,
+              relevance_score, ai_feedback, created_at,
+              interview_sessions (session_type)
+            `)
+            .eq('question_id', id)
+            .order('created_at', { ascending: false }),
+          getQuestionNote(user.id, id),
+        ]);
+
+        if (questionResult.error) throw questionResult.error;
+        if (responsesResult.error) throw responsesResult.error;
+
+        setQuestion(questionResult.data as Question | null);
+        setCategories(categoriesResult.data || []);
+        setResponses((responsesResult.data || []) as PastResponse[]);
+        setNote(storedNote);
+        setSavedNote(storedNote);
+      } catch (error) {
+        console.error('Error fetching question:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: 'Failed to load question.',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchQuestion();
+  }, [user, id, toast]);
+
+  const handleSaveNote = async () => {
+    if (!user || !question) return;
+
+    setIsSavingNote(true);
+    try {
+      await saveQuestionNote(user.id, question.id, note);
+      setSavedNote(note);
+      toast({ title: 'Notes saved' });
+    } catch (error) {
+      console.error('Error saving note:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save your notes.',
+      });
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading question...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4 text-center">
+          <p className="text-foreground font-medium">Question not found</p>
+          <Button variant="outline" onClick={() => navigate('/questions')}>
+            <ArrowLeft className="w-4 h-4" />
+            Back to Questions
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const scored = responses.map(getAverageScore).filter((score): score is number => score !== null);
+  const bestScore = scored.length > 0 ? Math.max(...scored) : null;
+  const isOwn = isOwnQuestion(question, user?.id);
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+        <div className="flex-1">
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/questions')}>
+            <ArrowLeft className="w-4 h-4" />
+            Questions
+          </Button>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <span className={cn('px-2 py-1 rounded-full text-xs font-medium capitalize', getDifficultyColor(question.difficulty))}>
+              {question.difficulty}
+            </span>
+            {question.question_categories && <Badge variant="outline">{question.question_categories.name}</Badge>}
+            {question.role && <Badge variant="outline">{question.role}</Badge>}
+            {question.industry && <Badge variant="outline">{question.industry}</Badge>}
+            {isOwn && <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary">Yours</span>}
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">{question.question_text}</h1>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {isOwn && (
+            <Button variant="outline" onClick={() => setEditorOpen(true)}>
+              <Pencil className="w-4 h-4" />
+              Edit
+            </Button>
+          )}
+          <Button variant="glass" onClick={() => navigate(`/practice?question=${question.id}&mode=quiz`)}>
+            <GraduationCap className="w-4 h-4" />
+            Quiz
+          </Button>
+          <Button variant="hero" onClick={() => navigate(`/voice-interview?question=${question.id}`)}>
+            <Mic className="w-4 h-4" />
+            Voice Drill
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-4">
+          {/* Model answer */}
+          <div className="glass rounded-2xl p-6">
+            <h2 className="text-lg font-semibold text-foreground mb-3 flex items-center gap-2">
+              <Sparkles className="w-5 h-5 text-primary" />
+              Model Answer
+            </h2>
+            {question.sample_answer ? (
+              <p className="text-foreground whitespace-pre-wrap">{question.sample_answer}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">No model answer has been written for this question yet.</p>
+            )}
+          </div>
+
+          {question.tips && (
+            <div className="glass rounded-2xl p-6">
+              <h2 className="text-lg font-semibold text-foreground mb-3 flex items-center gap-2">
+                <Lightbulb className="w-5 h-5 text-warning" />
+                Tips
+              </h2>
+              <p className="text-muted-foreground whitespace-pre-wrap">{question.tips}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Private notes */}
+        <div className="glass rounded-2xl p-6 flex flex-col gap-3">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <NotebookPen className="w-5 h-5 text-neon-cyan" />
+            My Notes
+          </h2>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Stories to use, points to remember, things to avoid..."
+            className="flex-1 min-h-[160px]"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Only you can see these</span>
+            <Button size="sm" onClick={handleSaveNote} disabled={isSavingNote || note === savedNote}>
+              {isSavingNote ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Past answers */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Your Answers
+          </h2>
+          {bestScore !== null && (
+            <span className="text-sm text-muted-foreground">
+              Best <span className={cn('font-bold', getScoreColor(bestScore))}>{bestScore.toFixed(1)}</span>
+              {' '}over {responses.length} attempt{responses.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+
+        {responses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't answered this question yet. Start a quiz or voice drill to practice it.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {responses.map((response) => {
+              const avgScore = getAverageScore(response);
+
+              return (
+                <button
+                  key={response.id}
+                  onClick={() => navigate(`/sessions/${response.session_id}`)}
+                  className="w-full text-left p-4 rounded-xl bg-muted/30 hover:bg-muted/50 transition-colors space-y-2"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Calendar className="w-3 h-3" />
+                      {format(new Date(response.created_at), 'MMM d, yyyy h:mm a')}
+                      {response.interview_sessions && (
+                        <Badge variant="outline" className="capitalize">{response.interview_sessions.session_type}</Badge>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      {avgScore !== null && (
+                        <span className={cn('text-lg font-bold', getScoreColor(avgScore))}>{avgScore.toFixed(1)}</span>
+                      )}
+                      <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    </span>
+                  </div>
+                  <p className={cn(
+                    'text-sm pl-4 border-l-2 border-primary/30 line-clamp-3',
+                    response.response_text ? 'text-muted-foreground' : 'text-muted-foreground/60 italic'
+                  )}>
+                    {response.response_text || 'No answer'}
+                  </p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    {response.clarity_score !== null && <span>Clarity {Number(response.clarity_score).toFixed(1)}</span>}
+                    {response.confidence_score !== null && <span>Confidence {Number(response.confidence_score).toFixed(1)}</span>}
+                    {response.relevance_score !== null && <span>Relevance {Number(response.relevance_score).toFixed(1)}</span>}
+                  </div>
+                  {response.ai_feedback && (
+                    <p className="text-sm text-foreground bg-primary/10 border border-primary/20 rounded-lg p-3">
+                      {response.ai_feedback}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <QuestionEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        categories={categories}
+        question={question}
+        onSaved={(saved) => setQuestion({
+          ...saved,
+          question_categories: categories.find((c) => c.id === saved.category_id) || null,
+        })}
+      />
+    </div>
+  );
+};
+
+export default QuestionDetail;
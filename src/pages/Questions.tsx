@@ -1,8 +1,61 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search, BookOpen, Code, Crown, Lightbulb, MessageSquare, GitBranch, ChevronRight } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import QuestionEditorDialog from '@/components/QuestionEditorDialog';
+import QuestionImportDialog from '@/components/QuestionImportDialog';
+import { exportQuestions, downloadBlob, type ExportFormat } from '@/lib/questionExport';
+import {
+  MAX_SEARCH_RESULTS,
+  SEARCH_PAGE_SIZE,
+  getQuestionFacets,
+  getSimilarQuestions,
+  searchQuestions,
+  splitHighlights,
+  type QuestionSearchFilters,
+  type QuestionSearchResult,
+  type SimilarQuestion,
+} from '@/lib/questionSearch';
+import {
+  addQuestionToDeck,
+  createDeck,
+  deleteDeck,
+  deleteQuestion,
+  getDeckShareUrl,
+  getDecks,
+  isOwnQuestion,
+  removeQuestionFromDeck,
+  setDeckSharing,
+  type QuestionDeck,
+  type QuestionSource,
+} from '@/lib/questionBank';
+import {
+  Search, BookOpen, Code, Crown, Lightbulb, MessageSquare, GitBranch, ChevronRight,
+  Plus, Pencil, Trash2, FolderPlus, Layers, Link2, Copy, Play, User, Upload, Download,
+  Sparkles, Loader2, ChevronLeft,
+} from 'lucide-react';
 
 const iconMap: Record<string, React.ElementType> = {
   Users: BookOpen, Code: Code, Crown: Crown, Lightbulb: Lightbulb, MessageSquare: MessageSquare, GitBranch: GitBranch,
@@ -15,50 +68,368 @@ interface Category {
   color?: string;
 }
 
-interface Question {
-  id: string;
-  question_text: string;
-  difficulty: string;
-  tips?: string;
-  category_id?: string;
-  question_categories?: { name: string; color?: string } | null;
-}
+type Question = QuestionSearchResult;
+
+const ANY = 'any';
+const SEARCH_DEBOUNCE_MS = 300;
+
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {splitHighlights(text).map((part, i) =>
+      part.highlighted
+        ? <mark key={i} className="bg-primary/30 text-foreground rounded px-0.5">{part.text}</mark>
+        : <React.Fragment key={i}>{part.text}</React.Fragment>
+    )}
+  </>
+);
 
 const Questions = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
   const [categories, setCategories] = useState<Category[]>([]);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [totalQuestions, setTotalQuestions] = useState(0);
+  const [isSearching, setIsSearching] = useState(true);
+  const [page, setPage] = useState(0);
+  const [decks, setDecks] = useState<QuestionDeck[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [source, setSource] = useState<QuestionSource>({ type: 'all' });
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [difficulty, setDifficulty] = useState<string | null>(null);
+  const [industry, setIndustry] = useState<string | null>(null);
+  const [role, setRole] = useState<string | null>(null);
+  const [facets, setFacets] = useState<{ industries: string[]; roles: string[] }>({ industries: [], roles: [] });
+
+  // Similar questions, fetched when a card is expanded
+  const [similarOpenId, setSimilarOpenId] = useState<string | null>(null);
+  const [similarById, setSimilarById] = useState<Record<string, SimilarQuestion[]>>({});
+
+  // Authoring state
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  const [deckDialogOpen, setDeckDialogOpen] = useState(false);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
       const { data: cats } = await supabase.from('question_categories').select('*');
-      const { data: qs } = await supabase.from('interview_questions').select('*, question_categories(name, color)');
       if (cats) setCategories(cats);
-      if (qs) setQuestions(qs);
+
+      try {
+        setFacets(await getQuestionFacets());
+      } catch (error) {
+        console.error('Error loading search filters:', error);
+      }
+
+      if (user) {
+        try {
+          setDecks(await getDecks(user.id));
+        } catch (error) {
+          console.error('Error loading decks:', error);
+        }
+      }
     };
     fetchData();
-  }, []);
+  }, [user]);
 
-  const filteredQuestions = questions.filter(q => 
-    (!selectedCategory || q.category_id === selectedCategory) &&
-    (!searchQuery || q.question_text.toLowerCase().includes(searchQuery.toLowerCase()))
-  );
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const selectedDeck = source.type === 'deck' ? decks.find((d) => d.id === source.deckId) : undefined;
+  const deckQuestionIds = selectedDeck?.question_ids;
+
+  const searchFilters: QuestionSearchFilters = useMemo(() => ({
+    query: debouncedQuery,
+    difficulty,
+    industry,
+    role,
+    categoryId: selectedCategory,
+    questionIds: source.type === 'deck' ? deckQuestionIds || [] : null,
+    ownerOnly: source.type === 'mine',
+  }), [debouncedQuery, difficulty, industry, role, selectedCategory, source.type, deckQuestionIds]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [searchFilters]);
+
+  const fetchQuestions = useCallback(async () => {
+    setIsSearching(true);
+    try {
+      const { results, total } = await searchQuestions(searchFilters, { page });
+      setQuestions(results);
+      setTotalQuestions(total);
+    } catch (error) {
+      console.error('Error searching questions:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to search questions.' });
+    } finally {
+      setIsSearching(false);
+    }
+  }, [searchFilters, page, toast]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const pageCount = Math.max(1, Math.ceil(totalQuestions / SEARCH_PAGE_SIZE));
+  const hasFilters = !!(selectedCategory || difficulty || industry || role);
+
+  const getCategoryName = (categoryId: string | null) =>
+    categories.find((c) => c.id === categoryId)?.name;
+
+  const toggleSimilar = async (questionId: string) => {
+    if (similarOpenId === questionId) {
+      setSimilarOpenId(null);
+      return;
+    }
+
+    setSimilarOpenId(questionId);
+    if (similarById[questionId]) return;
+
+    try {
+      const similar = await getSimilarQuestions(questionId);
+      setSimilarById((prev) => ({ ...prev, [questionId]: similar }));
+    } catch (error) {
+      console.error('Error loading similar questions:', error);
+      setSimilarById((prev) => ({ ...prev, [questionId]: [] }));
+    }
+  };
+
+  const openEditor = (question: Question | null) => {
+    setEditingQuestion(question);
+    setEditorOpen(true);
+  };
+
+  const handleQuestionSaved = () => {
+    fetchQuestions();
+    getQuestionFacets().then(setFacets).catch(() => undefined);
+  };
+
+  const handleImported = () => {
+    handleQuestionSaved();
+    if (user) getDecks(user.id).then(setDecks).catch(() => undefined);
+  };
+
+  const handleDeleteQuestion = async (questionId: string) => {
+    try {
+      await deleteQuestion(questionId);
+      fetchQuestions();
+      setDecks((prev) => prev.map((d) => ({ ...d, question_ids: d.question_ids.filter((id) => id !== questionId) })));
+      toast({ title: 'Question deleted' });
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to delete the question.' });
+    }
+  };
+
+  const handleCreateDeck = async () => {
+    if (!user || !newDeckName.trim()) return;
+
+    try {
+      const deck = await createDeck(user.id, newDeckName);
+      setDecks((prev) => [...prev, deck]);
+      setSource({ type: 'deck', deckId: deck.id });
+      setNewDeckName('');
+      setDeckDialogOpen(false);
+    } catch (error) {
+      console.error('Error creating deck:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to create the deck.' });
+    }
+  };
+
+  const handleDeleteDeck = async (deckId: string) => {
+    try {
+      await deleteDeck(deckId);
+      setDecks((prev) => prev.filter((d) => d.id !== deckId));
+      setSource({ type: 'all' });
+      toast({ title: 'Deck deleted', description: 'The questions in it were kept.' });
+    } catch (error) {
+      console.error('Error deleting deck:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to delete the deck.' });
+    }
+  };
+
+  const toggleDeckMembership = async (deck: QuestionDeck, questionId: string) => {
+    const isMember = deck.question_ids.includes(questionId);
+
+    try {
+      if (isMember) {
+        await removeQuestionFromDeck(deck.id, questionId);
+      } else {
+        await addQuestionToDeck(deck.id, questionId);
+      }
+
+      setDecks((prev) => prev.map((d) => d.id !== deck.id ? d : {
+        ...d,
+        question_ids: isMember ? d.question_ids.filter((id) => id !== questionId) : [...d.question_ids, questionId],
+      }));
+    } catch (error) {
+      console.error('Error updating deck:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the deck.' });
+    }
+  };
+
+  const handleShareToggle = async (deck: QuestionDeck, shared: boolean) => {
+    try {
+      const shareToken = await setDeckSharing(deck.id, shared);
+      setDecks((prev) => prev.map((d) => (d.id === deck.id ? { ...d, share_token: shareToken } : d)));
+      if (shareToken) {
+        await navigator.clipboard?.writeText(getDeckShareUrl(shareToken)).catch(() => undefined);
+        toast({ title: 'Sharing on', description: 'Anyone with the link can practice this deck. Link copied.' });
+      } else {
+        toast({ title: 'Sharing off', description: 'The old link no longer works.' });
+      }
+    } catch (error) {
+      console.error('Error updating deck sharing:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update sharing.' });
+    }
+  };
+
+  // Export every question matching the current source, filters and search,
+  // not just the page on screen
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const { results } = await searchQuestions(searchFilters, { pageSize: MAX_SEARCH_RESULTS });
+      const name = selectedDeck?.name || (source.type === 'mine' ? 'my-questions' : 'questions');
+      const exportable = results.map((q) => ({
+        ...q,
+        question_categories: getCategoryName(q.category_id) ? { name: getCategoryName(q.category_id)! } : null,
+      }));
+      const { blob, filename } = exportQuestions(exportable, format, name);
+      downloadBlob(blob, filename);
+    } catch (error) {
+      console.error('Error exporting questions:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to export questions.' });
+    }
+  };
+
+  const copyShareLink = async (shareToken: string) => {
+    try {
+      await navigator.clipboard.writeText(getDeckShareUrl(shareToken));
+      toast({ title: 'Link copied' });
+    } catch {
+      toast({ title: 'Share link', description: getDeckShareUrl(shareToken) });
+    }
+  };
 
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
         <div>
           <h1 className="text-3xl font-bold text-foreground">Question Library</h1>
-          <p className="text-muted-foreground">Browse and practice interview questions</p>
+          <p className="text-muted-foreground">Browse, write and organise interview questions</p>
         </div>
-        <div className="relative w-full lg:w-80">
-          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-          <Input placeholder="Search questions..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-12" />
+        <div className="flex items-center gap-3 w-full lg:w-auto">
+          <div className="relative flex-1 lg:w-80">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+            <Input placeholder="Search questions..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-12" />
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="glass" disabled={totalQuestions === 0}>
+                <Download className="w-4 h-4" /> Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export {totalQuestions} questions</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('anki')}>Anki (plain text)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="glass" onClick={() => setImportOpen(true)}>
+            <Upload className="w-4 h-4" /> Import
+          </Button>
+          <Button variant="neon" onClick={() => openEditor(null)}>
+            <Plus className="w-4 h-4" /> New Question
+          </Button>
         </div>
       </div>
 
-      <div className="flex flex-wrap gap-2">
+      {/* Sources: everything, the user's own questions, or one of their decks */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant={source.type === 'all' ? 'neon' : 'glass'} size="sm" onClick={() => setSource({ type: 'all' })}>
+          <BookOpen className="w-4 h-4" /> All Questions
+        </Button>
+        <Button variant={source.type === 'mine' ? 'neon' : 'glass'} size="sm" onClick={() => setSource({ type: 'mine' })}>
+          <User className="w-4 h-4" /> My Questions
+        </Button>
+        {decks.map(deck => (
+          <Button
+            key={deck.id}
+            variant={selectedDeck?.id === deck.id ? 'neon' : 'glass'}
+            size="sm"
+            onClick={() => setSource({ type: 'deck', deckId: deck.id })}
+          >
+            <Layers className="w-4 h-4" /> {deck.name}
+            <span className="text-xs opacity-70">{deck.question_ids.length}</span>
+          </Button>
+        ))}
+        <Button variant="ghost" size="sm" onClick={() => setDeckDialogOpen(true)}>
+          <FolderPlus className="w-4 h-4" /> New Deck
+        </Button>
+      </div>
+
+      {selectedDeck && (
+        <div className="glass rounded-2xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <p className="font-medium text-foreground">{selectedDeck.name}</p>
+            <p className="text-sm text-muted-foreground">
+              {selectedDeck.question_ids.length} question{selectedDeck.question_ids.length === 1 ? '' : 's'}
+              {selectedDeck.share_token ? ' · shared by link' : ' · private'}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Link2 className="w-4 h-4" /> Share by link
+              <Switch
+                checked={!!selectedDeck.share_token}
+                onCheckedChange={(checked) => handleShareToggle(selectedDeck, checked)}
+              />
+            </label>
+            {selectedDeck.share_token && (
+              <Button variant="glass" size="sm" onClick={() => copyShareLink(selectedDeck.share_token!)}>
+                <Copy className="w-4 h-4" /> Copy Link
+              </Button>
+            )}
+            <Button
+              variant="glass"
+              size="sm"
+              disabled={selectedDeck.question_ids.length === 0}
+              onClick={() => navigate(`/practice?deck=${selectedDeck.id}`)}
+            >
+              <Play className="w-4 h-4" /> Practice
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-destructive">
+                  <Trash2 className="w-4 h-4" /> Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{selectedDeck.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The deck and its share link are removed. The questions themselves stay in your library.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => handleDeleteDeck(selectedDeck.id)}>Delete Deck</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
         <Button variant={!selectedCategory ? 'neon' : 'glass'} size="sm" onClick={() => setSelectedCategory(null)}>All</Button>
         {categories.map(cat => {
           const Icon = iconMap[cat.icon] || BookOpen;
@@ -70,23 +441,243 @@ const Questions = () => {
         })}
       </div>
 
+      {/* Filters run in the search query, not over the loaded page */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={difficulty ?? ANY} onValueChange={(value) => setDifficulty(value === ANY ? null : value)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any difficulty</SelectItem>
+            <SelectItem value="easy">Easy</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="hard">Hard</SelectItem>
+          </SelectContent>
+        </Select>
+        {facets.industries.length > 0 && (
+          <Select value={industry ?? ANY} onValueChange={(value) => setIndustry(value === ANY ? null : value)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any industry</SelectItem>
+              {facets.industries.map((value) => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {facets.roles.length > 0 && (
+          <Select value={role ?? ANY} onValueChange={(value) => setRole(value === ANY ? null : value)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any role</SelectItem>
+              {facets.roles.map((value) => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setSelectedCategory(null);
+              setDifficulty(null);
+              setIndustry(null);
+              setRole(null);
+            }}
+          >
+            Clear Filters
+          </Button>
+        )}
+        <span className="ml-auto text-sm text-muted-foreground flex items-center gap-2">
+          {isSearching && <Loader2 className="w-4 h-4 animate-spin" />}
+          {totalQuestions} question{totalQuestions === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {!isSearching && questions.length === 0 && (
+        <div className="glass rounded-2xl p-8 text-center">
+          <p className="text-muted-foreground">
+            {source.type === 'mine'
+              ? "You haven't written any questions yet."
+              : source.type === 'deck' && !debouncedQuery && !hasFilters
+                ? 'This deck is empty. Use the deck button on any question to add it.'
+                : 'No questions match your search.'}
+          </p>
+        </div>
+      )}
+
       <div className="grid gap-4">
-        {filteredQuestions.map(q => (
-          <div key={q.id} className="glass-hover rounded-2xl p-6">
-            <div className="flex items-start justify-between gap-4">
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-2">
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${q.difficulty === 'easy' ? 'bg-success/20 text-success' : q.difficulty === 'hard' ? 'bg-destructive/20 text-destructive' : 'bg-warning/20 text-warning'}`}>{q.difficulty}</span>
-                  {q.question_categories && <span className="text-xs text-muted-foreground">{q.question_categories.name}</span>}
+        {questions.map(q => {
+          const isOwn = isOwnQuestion(q, user?.id);
+          const categoryName = getCategoryName(q.category_id);
+          const similar = similarById[q.id];
+          return (
+            <div key={q.id} className="glass-hover rounded-2xl p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${q.difficulty === 'easy' ? 'bg-success/20 text-success' : q.difficulty === 'hard' ? 'bg-destructive/20 text-destructive' : 'bg-warning/20 text-warning'}`}>{q.difficulty}</span>
+                    {categoryName && <span className="text-xs text-muted-foreground">{categoryName}</span>}
+                    {(q.role || q.industry) && (
+                      <span className="text-xs text-muted-foreground">{[q.role, q.industry].filter(Boolean).join(' · ')}</span>
+                    )}
+                    {isOwn && <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary">Yours</span>}
+                  </div>
+                  <p className="text-foreground font-medium"><Highlighted text={q.question_headline || q.question_text} /></p>
+                  {q.answer_headline && (
+                    <p className="text-sm text-muted-foreground mt-2">…<Highlighted text={q.answer_headline} />…</p>
+                  )}
+                  {q.tips && <p className="text-sm text-muted-foreground mt-2">💡 {q.tips}</p>}
+
+                  {similarOpenId === q.id && (
+                    <div className="mt-4 border-t border-border pt-3 space-y-2 animate-fade-in">
+                      <p className="text-xs font-medium text-muted-foreground">SIMILAR QUESTIONS</p>
+                      {!similar && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                      {similar?.length === 0 && <p className="text-sm text-muted-foreground">Nothing similar found.</p>}
+                      {similar?.map((item) => (
+                        <button
+                          key={item.id}
+                          onClick={() => setSearchQuery(item.question_text)}
+                          className="block w-full text-left text-sm text-foreground hover:text-primary transition-colors"
+                        >
+                          {item.question_text}
+                          <span className="ml-2 text-xs text-muted-foreground capitalize">{item.difficulty}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={similarOpenId === q.id ? 'neon' : 'ghost'}
+                    size="sm"
+                    title="Similar questions"
+                    onClick={() => toggleSimilar(q.id)}
+                  >
+                    <Sparkles className="w-4 h-4" />
+                  </Button>
+                  {user && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Add to deck">
+                          <Layers className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>Decks</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        {decks.length === 0 && (
+                          <p className="px-2 py-1.5 text-sm text-muted-foreground">Create a deck first</p>
+                        )}
+                        {decks.map(deck => (
+                          <DropdownMenuCheckboxItem
+                            key={deck.id}
+                            checked={deck.question_ids.includes(q.id)}
+                            onCheckedChange={() => toggleDeckMembership(deck, q.id)}
+                          >
+                            {deck.name}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {isOwn && (
+                    <>
+                      <Button variant="ghost" size="sm" title="Edit question" onClick={() => openEditor(q)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" title="Delete question" className="text-destructive">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              It is removed from your library, your decks and your review schedule.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDeleteQuestion(q.id)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                  <Button variant="glass" size="sm" title="Open question" onClick={() => navigate(`/questions/${q.id}`)}>
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
                 </div>
-                <p className="text-foreground font-medium">{q.question_text}</p>
-                {q.tips && <p className="text-sm text-muted-foreground mt-2">💡 {q.tips}</p>}
               </div>
-              <Button variant="glass" size="sm"><ChevronRight className="w-4 h-4" /></Button>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-4">
+          <Button variant="glass" size="sm" disabled={page === 0 || isSearching} onClick={() => setPage((p) => p - 1)}>
+            <ChevronLeft className="w-4 h-4" /> Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+          <Button variant="glass" size="sm" disabled={page + 1 >= pageCount || isSearching} onClick={() => setPage((p) => p + 1)}>
+            Next <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      <QuestionEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        categories={categories}
+        question={editingQuestion}
+        onSaved={handleQuestionSaved}
+      />
+
+      <QuestionImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        decks={decks}
+        onImported={handleImported}
+      />
+
+      <Dialog open={deckDialogOpen} onOpenChange={setDeckDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FolderPlus className="w-5 h-5 text-primary" />
+              New Deck
+            </DialogTitle>
+            <DialogDescription>
+              Decks are private until you turn on link sharing
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="e.g. Onsite prep"
+            value={newDeckName}
+            onChange={(e) => setNewDeckName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateDeck()}
+          />
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => setDeckDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateDeck} disabled={!newDeckName.trim()}>
+              Create Deck
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
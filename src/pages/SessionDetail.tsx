@@ -0,0 +1,576 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import DebriefReport from '@/components/DebriefReport';
+import IntegrityReport from '@/components/IntegrityReport';
+import { generateDebrief, type SessionDebrief } from '@/lib/debrief';
+import { getAverageScore } from '@/lib/grading';
+import { getAnswerAudioUrl } from '@/lib/answerAudio';
+import { getLoopRunPath } from '@/lib/interviewLoops';
+import { getProctoringEvents, toIntegritySummary, type ProctoringEvent } from '@/lib/proctoring';
+import {
+  ArrowLeft,
+  Clock,
+  Calendar,
+  Target,
+  Loader2,
+  RefreshCw,
+  Sparkles,
+  MessageSquare,
+  Play,
+  Activity,
+  ShieldAlert,
+  EyeOff,
+  Smartphone,
+  UserX,
+  Hand,
+  Timer,
+  Volume2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+
+interface Session {
+  id: string;
+  session_type: string;
+  status: string;
+  duration_minutes: number | null;
+  overall_score: number | null;
+  created_at: string;
+  started_at: string | null;
+  ended_at: string | null;
+  notes: string | null;
+  debrief: SessionDebrief | null;
+  integrity_summary: Json | null;
+}
+
+interface BodyLanguageSnapshot {
+  posture_score: number | null;
+  eye_contact_score: number | null;
+  nervous_movements: number | null;
+  looking_away_count: number | null;
+  phone_detected_count: number | null;
+  person_detected_count: number | null;
+}
+
+interface SessionResponse {
+  id: string;
+  turn_index: number | null;
+  question_text: string;
+  response_text: string | null;
+  clarity_score: number | null;
+  confidence_score: number | null;
+  relevance_score: number | null;
+  ai_feedback: string | null;
+  audio_url: string | null;
+  duration_seconds: number | null;
+  time_to_answer_seconds: number | null;
+  words_per_minute: number | null;
+  filler_word_count: number | null;
+  long_pause_count: number | null;
+  hedge_count: number | null;
+  body_language_metrics: BodyLanguageSnapshot[];
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 8) return 'text-neon-green';
+  if (score >= 6) return 'text-warning';
+  return 'text-destructive';
+};
+
+// Where to send the user to practice the same kind of session again
+const getPracticePath = (type: string) => {
+  switch (type) {
+    case 'voice':
+      return '/voice-interview';
+    case 'mock':
+      return '/mock-sessions';
+    default:
+      return '/practice';
+  }
+};
+
+const formatSeconds = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  return rounded >= 60
+    ? `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}`
+    : `${rounded}s`;
+};
+
+const SessionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [session, setSession] = useState<Session | null>(null);
+  const [responses, setResponses] = useState<SessionResponse[]>([]);
+  const [proctoringEvents, setProctoringEvents] = useState<ProctoringEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [audioSources, setAudioSources] = useState<Record<string, string>>({});
+  const autoGenerateRef = useRef(false);
+
+  useEffect(() => {
+    if (!user || !id) return;
+
+    const fetchSession = async () => {
+      try {
+        const [sessionResult, responsesResult, events] = await Promise.all([
+          supabase
+            .from('interview_sessions')
+            .select('id, session_type, status, duration_minutes, overall_score, created_at, started_at, ended_at, notes, debrief, integrity_summary')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .maybeSingle(),
+          supabase
+            .from('interview_responses')
+            .select(`
+              id, turn_index, question_text, response_text,
+              clarity_score, confidence_score, relevance_score, ai_feedback,
+              audio_url, duration_seconds, time_to_answer_seconds,
+              words_per_minute, filler_word_count, long_pause_count, hedge_count,
+              body_language_metrics (
+                posture_score, eye_contact_score, nervous_movements,
+                looking_away_count, phone_detected_count, person_detected_count
+              )
+            `)
+            .eq('session_id', id)
+            .order('turn_index', { ascending: true })
+            .order('created_at', { ascending: true }),
+          getProctoringEvents(id),
+        ]);
+
+        if (sessionResult.error) throw sessionResult.error;
+        if (responsesResult.error) throw responsesResult.error;
+
+        setSession(sessionResult.data as unknown as Session | null);
+        setResponses((responsesResult.data || []) as SessionResponse[]);
+        setProctoringEvents(events);
+      } catch (error) {
+        console.error('Error fetching session:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: 'Failed to load session.',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSession();
+  }, [user, id, toast]);
+
+  // Recordings live in a private bucket, so sign each one for playback
+  useEffect(() => {
+    const recorded = responses.filter((r) => r.audio_url);
+    if (recorded.length === 0) return;
+
+    Promise.all(recorded.map(async (r) => [r.id, await getAnswerAudioUrl(r.audio_url)] as const))
+      .then((entries) => {
+        setAudioSources(Object.fromEntries(entries.filter(([, url]) => url)));
+      });
+  }, [responses]);
+
+  const hasAnswers = responses.some((r) => r.response_text?.trim());
+
+  // One point per turn that has a body language snapshot
+  const bodyTimeline = useMemo(() => {
+    return responses
+      .map((response, index) => {
+        const snapshot = response.body_language_metrics[0];
+        if (!snapshot) return null;
+        return {
+          turn: `Q${index + 1}`,
+          posture: snapshot.posture_score !== null ? Number(snapshot.posture_score) : null,
+          eyeContact: snapshot.eye_contact_score !== null ? Number(snapshot.eye_contact_score) : null,
+        };
+      })
+      .filter(Boolean);
+  }, [responses]);
+
+  // Proctoring counts captured with each turn's snapshot
+  const proctoring = useMemo(() => {
+    const flaggedTurns = responses
+      .map((response, index) => {
+        const snapshot = response.body_language_metrics[0];
+        return {
+          turn: index + 1,
+          question: response.question_text,
+          lookingAway: snapshot?.looking_away_count || 0,
+          phone: snapshot?.phone_detected_count || 0,
+          personAlerts: snapshot?.person_detected_count || 0,
+          nervous: snapshot?.nervous_movements || 0,
+        };
+      })
+      .filter((t) => t.lookingAway + t.phone + t.personAlerts > 0);
+
+    return {
+      flaggedTurns,
+      lookingAway: flaggedTurns.reduce((sum, t) => sum + t.lookingAway, 0),
+      phone: flaggedTurns.reduce((sum, t) => sum + t.phone, 0),
+      personAlerts: flaggedTurns.reduce((sum, t) => sum + t.personAlerts, 0),
+      nervous: responses.reduce((sum, r) => sum + (r.body_language_metrics[0]?.nervous_movements || 0), 0),
+    };
+  }, [responses]);
+
+  const hasBodyData = responses.some((r) => r.body_language_metrics.length > 0);
+
+  const runDebrief = useCallback(async () => {
+    if (!session) return;
+
+    setIsGenerating(true);
+    try {
+      const result = await generateDebrief(session.id);
+      setSession((prev) => prev && {
+        ...prev,
+        debrief: result.debrief,
+        overall_score: result.overall_score,
+      });
+    } catch (error) {
+      console.error('Error generating debrief:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Debrief Failed',
+        description: error instanceof Error ? error.message : 'Failed to generate debrief.',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [session, toast]);
+
+  // Voice sessions get their debrief generated the first time they are opened
+  useEffect(() => {
+    if (autoGenerateRef.current || !session) return;
+    if (session.session_type !== 'voice' || session.debrief || !hasAnswers) return;
+
+    autoGenerateRef.current = true;
+    runDebrief();
+  }, [session, hasAnswers, runDebrief]);
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4 text-center">
+          <p className="text-foreground font-medium">Session not found</p>
+          <Button variant="outline" onClick={() => navigate('/activity')}>
+            <ArrowLeft className="w-4 h-4" />
+            Back to Activity
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // A loop's report lives on its run page
+  if (session.session_type === 'loop') {
+    return <Navigate to={getLoopRunPath(session.id)} replace />;
+  }
+
+  const questions = responses.map((r) => r.question_text);
+  const integritySummary = toIntegritySummary(session.integrity_summary);
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/activity')}>
+            <ArrowLeft className="w-4 h-4" />
+            Activity
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-3">
+            Session Report
+            <Badge variant="outline" className="capitalize">{session.session_type}</Badge>
+            <Badge variant="outline" className="capitalize">{session.status.replace('_', ' ')}</Badge>
+          </h1>
+          <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Calendar className="w-4 h-4" />
+              {format(new Date(session.started_at || session.created_at), 'MMM d, yyyy h:mm a')}
+            </span>
+            {session.duration_minutes !== null && (
+              <span className="flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                {session.duration_minutes} min
+              </span>
+            )}
+            <span className="flex items-center gap-1">
+              <MessageSquare className="w-4 h-4" />
+              {responses.length} questions
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {session.overall_score !== null && (
+            <div className="glass rounded-2xl px-6 py-4 flex items-center gap-3">
+              <Target className="w-6 h-6 text-primary" />
+              <div>
+                <p className={cn('text-2xl font-bold', getScoreColor(Number(session.overall_score)))}>
+                  {Number(session.overall_score).toFixed(1)}
+                </p>
+                <p className="text-xs text-muted-foreground">Overall Score</p>
+              </div>
+            </div>
+          )}
+          <Button variant="hero" onClick={() => navigate(getPracticePath(session.session_type))}>
+            <Play className="w-4 h-4" />
+            Practice Again
+          </Button>
+        </div>
+      </div>
+
+      {session.notes && (
+        <div className="glass rounded-2xl p-6">
+          <h2 className="text-sm font-medium text-muted-foreground mb-2">Notes</h2>
+          <p className="text-foreground whitespace-pre-wrap">{session.notes}</p>
+        </div>
+      )}
+
+      {/* Debrief */}
+      {isGenerating ? (
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Reviewing your transcript...</p>
+        </div>
+      ) : session.debrief ? (
+        <>
+          <DebriefReport debrief={session.debrief} questions={questions} />
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={runDebrief}>
+              <RefreshCw className="w-4 h-4" />
+              Regenerate Debrief
+            </Button>
+          </div>
+        </>
+      ) : session.session_type === 'voice' && hasAnswers ? (
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-4 text-center">
+          <Sparkles className="w-8 h-8 text-primary" />
+          <p className="text-muted-foreground">Get an AI review of your answers with concrete drills.</p>
+          <Button variant="hero" onClick={runDebrief}>
+            Generate Debrief
+          </Button>
+        </div>
+      ) : null}
+
+      {hasBodyData && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Body language timeline */}
+          <div className="lg:col-span-2 glass rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+              <Activity className="w-5 h-5 text-neon-cyan" />
+              Body Language Timeline
+            </h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={bodyTimeline}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 15%, 20%)" />
+                  <XAxis
+                    dataKey="turn"
+                    stroke="hsl(215, 20%, 65%)"
+                    fontSize={12}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    stroke="hsl(215, 20%, 65%)"
+                    fontSize={12}
+                    tickLine={false}
+                    domain={[0, 10]}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(220, 15%, 12%)',
+                      border: '1px solid hsl(220, 15%, 20%)',
+                      borderRadius: '12px',
+                      padding: '12px',
+                    }}
+                    labelStyle={{ color: 'hsl(210, 40%, 98%)' }}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="posture"
+                    name="Posture"
+                    stroke="hsl(180, 100%, 50%)"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="eyeContact"
+                    name="Eye Contact"
+                    stroke="hsl(280, 100%, 65%)"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Proctoring */}
+          <div className="glass rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-warning" />
+              Proctoring
+            </h3>
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {[
+                { label: 'Looked Away', value: proctoring.lookingAway, icon: EyeOff },
+                { label: 'Phone Detected', value: proctoring.phone, icon: Smartphone },
+                { label: 'Person Alerts', value: proctoring.personAlerts, icon: UserX },
+                { label: 'Nervous Moves', value: proctoring.nervous, icon: Hand },
+              ].map((stat) => (
+                <div key={stat.label} className="p-3 rounded-xl bg-muted/30">
+                  <div className="flex items-center gap-2 text-muted-foreground text-xs mb-1">
+                    <stat.icon className="w-3 h-3" />
+                    {stat.label}
+                  </div>
+                  <p className="text-xl font-bold text-foreground">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+            {proctoring.flaggedTurns.length > 0 ? (
+              <div className="space-y-2">
+                {proctoring.flaggedTurns.map((turn) => (
+                  <div key={turn.turn} className="text-sm p-2 rounded-lg bg-warning/10 border border-warning/20">
+                    <p className="text-foreground truncate">Q{turn.turn}. {turn.question}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        turn.lookingAway > 0 && `${turn.lookingAway} look-away`,
+                        turn.phone > 0 && `${turn.phone} phone`,
+                        turn.personAlerts > 0 && `${turn.personAlerts} person`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No integrity events were flagged.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {integritySummary && (
+        <IntegrityReport
+          summary={integritySummary}
+          events={proctoringEvents}
+          sessionStart={session.started_at || session.created_at}
+        />
+      )}
+
+      {/* Responses */}
+      {responses.length > 0 && (
+        <div className="glass rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Responses</h2>
+          <div className="space-y-4">
+            {responses.map((response, index) => {
+              const avgScore = getAverageScore(response);
+              const snapshot = response.body_language_metrics[0];
+
+              return (
+                <div key={response.id} className="p-4 rounded-xl bg-muted/30 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="text-sm font-medium text-foreground">
+                      {index + 1}. {response.question_text}
+                    </p>
+                    {avgScore !== null && (
+                      <span className={cn('text-lg font-bold shrink-0', getScoreColor(avgScore))}>
+                        {avgScore.toFixed(1)}
+                      </span>
+                    )}
+                  </div>
+
+                  <p className={cn(
+                    'text-sm pl-4 border-l-2 border-primary/30',
+                    response.response_text ? 'text-muted-foreground' : 'text-muted-foreground/60 italic'
+                  )}>
+                    {response.response_text || 'No answer'}
+                  </p>
+
+                  {audioSources[response.id] && (
+                    <div className="flex items-center gap-2">
+                      <Volume2 className="w-4 h-4 text-muted-foreground" />
+                      <audio controls preload="none" src={audioSources[response.id]} className="h-8 w-full max-w-md" />
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    {response.time_to_answer_seconds !== null && (
+                      <span className="flex items-center gap-1">
+                        <Timer className="w-3 h-3" />
+                        Started after {formatSeconds(Number(response.time_to_answer_seconds))}
+                      </span>
+                    )}
+                    {response.duration_seconds !== null && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        Spoke for {formatSeconds(response.duration_seconds)}
+                      </span>
+                    )}
+                    {response.words_per_minute !== null && <span>{Math.round(Number(response.words_per_minute))} wpm</span>}
+                    {response.filler_word_count !== null && <span>{response.filler_word_count} fillers</span>}
+                    {response.long_pause_count !== null && <span>{response.long_pause_count} long pauses</span>}
+                    {response.hedge_count !== null && <span>{response.hedge_count} hedges</span>}
+                    {response.clarity_score !== null && <span>Clarity {Number(response.clarity_score).toFixed(1)}</span>}
+                    {response.confidence_score !== null && <span>Confidence {Number(response.confidence_score).toFixed(1)}</span>}
+                    {response.relevance_score !== null && <span>Relevance {Number(response.relevance_score).toFixed(1)}</span>}
+                    {snapshot?.posture_score !== null && snapshot?.posture_score !== undefined && (
+                      <span>Posture {Number(snapshot.posture_score).toFixed(1)}</span>
+                    )}
+                    {snapshot?.eye_contact_score !== null && snapshot?.eye_contact_score !== undefined && (
+                      <span>Eye Contact {Number(snapshot.eye_contact_score).toFixed(1)}</span>
+                    )}
+                  </div>
+
+                  {response.ai_feedback && (
+                    <p className="text-sm text-foreground bg-primary/10 border border-primary/20 rounded-lg p-3">
+                      {response.ai_feedback}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {responses.length === 0 && !session.debrief && (
+        <div className="glass rounded-2xl p-8 text-center text-muted-foreground">
+          No responses were recorded for this session.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionDetail;
@@ -13,6 +13,16 @@ import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import ResumeSettings from '@/components/ResumeSettings';
+import GazeCalibration from '@/components/GazeCalibration';
+import { toGazeCalibration, type GazeCalibration as GazeCalibrationData } from '@/lib/gaze';
+import { SPEECH_LANGUAGES, DEFAULT_SPEECH_LANGUAGE, type SpeechToTextProviderId } from '@/lib/speechToText';
+import {
+  DEFAULT_PROCTORING_POLICY_ID,
+  PROCTORING_POLICIES,
+  getProctoringPolicy,
+  type ProctoringPolicyId,
+} from '@/lib/proctoringPolicies';
 import {
   User,
   Bell,
@@ -29,6 +39,7 @@ import {
   Loader2,
   Upload,
   Download,
+  Crosshair,
 } from 'lucide-react';
 
 interface Profile {
@@ -48,7 +59,9 @@ interface UserPreferences {
   defaultDifficulty: 'easy' | 'medium' | 'hard';
   sessionDuration: number;
   autoRecordSessions: boolean;
-  showCheatingAlerts: boolean;
+  proctoringPolicy: ProctoringPolicyId;
+  sttProvider: SpeechToTextProviderId;
+  sttLanguage: string;
 }
 
 const Settings = () => {
@@ -60,6 +73,9 @@ const Settings = () => {
   const [savingPreferences, setSavingPreferences] = useState(false);
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
   const [profile, setProfile] = useState<Profile | null>(null);
+  // Saved by the calibration itself, not with the other preferences
+  const [gazeCalibration, setGazeCalibration] = useState<GazeCalibrationData | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
   const [preferences, setPreferences] = useState<UserPreferences>({
     emailNotifications: true,
     practiceReminders: true,
@@ -68,7 +84,9 @@ const Settings = () => {
     defaultDifficulty: 'medium',
     sessionDuration: 30,
     autoRecordSessions: true,
-    showCheatingAlerts: true,
+    proctoringPolicy: DEFAULT_PROCTORING_POLICY_ID,
+    sttProvider: 'auto',
+    sttLanguage: DEFAULT_SPEECH_LANGUAGE,
   });
 
   // Email verification state
@@ -132,8 +150,11 @@ const Settings = () => {
             defaultDifficulty: prefsData.default_difficulty as 'easy' | 'medium' | 'hard',
             sessionDuration: prefsData.session_duration,
             autoRecordSessions: prefsData.auto_record_sessions,
-            showCheatingAlerts: prefsData.show_cheating_alerts,
+            proctoringPolicy: getProctoringPolicy(prefsData.proctoring_policy).id,
+            sttProvider: prefsData.stt_provider as SpeechToTextProviderId,
+            sttLanguage: prefsData.stt_language,
           });
+          setGazeCalibration(toGazeCalibration(prefsData.gaze_calibration));
         }
       } catch (error) {
         console.error('Error:', error);
@@ -258,7 +279,9 @@ const Settings = () => {
         default_difficulty: preferences.defaultDifficulty,
         session_duration: preferences.sessionDuration,
         auto_record_sessions: preferences.autoRecordSessions,
-        show_cheating_alerts: preferences.showCheatingAlerts,
+        proctoring_policy: preferences.proctoringPolicy,
+        stt_provider: preferences.sttProvider,
+        stt_language: preferences.sttLanguage,
       };
 
       const { error } = await supabase
@@ -815,6 +838,52 @@ const Settings = () => {
                     Default length for practice sessions
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Speech Recognition</Label>
+                  <Select
+                    value={preferences.sttProvider}
+                    onValueChange={(value: SpeechToTextProviderId) =>
+                      setPreferences((prev) => ({ ...prev, sttProvider: value }))
+                    }
+                  >
+                    <SelectTrigger className="glass">
+                      <SelectValue placeholder="Select engine" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Automatic</SelectItem>
+                      <SelectItem value="browser">Browser (Chrome, Edge)</SelectItem>
+                      <SelectItem value="server">Server transcription (any browser)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Automatic uses your browser and falls back to the server where it is unavailable
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Answer Language</Label>
+                  <Select
+                    value={preferences.sttLanguage}
+                    onValueChange={(value) =>
+                      setPreferences((prev) => ({ ...prev, sttLanguage: value }))
+                    }
+                  >
+                    <SelectTrigger className="glass">
+                      <SelectValue placeholder="Select language" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SPEECH_LANGUAGES.map((language) => (
+                        <SelectItem key={language.id} value={language.id}>
+                          {language.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The language you speak your answers in
+                  </p>
+                </div>
               </div>
 
               <Separator className="bg-border/50" />
@@ -837,19 +906,44 @@ const Settings = () => {
 
                 <Separator className="bg-border/50" />
 
-                <div className="flex items-center justify-between">
+                <div className="flex items-center justify-between gap-4">
                   <div>
-                    <p className="font-medium text-foreground">Cheating Detection Alerts</p>
+                    <p className="font-medium text-foreground">Proctoring Policy</p>
                     <p className="text-sm text-muted-foreground">
-                      Show alerts for tab switching and looking away
+                      {getProctoringPolicy(preferences.proctoringPolicy).description} Loops and mock
+                      interviews can set their own.
                     </p>
                   </div>
-                  <Switch
-                    checked={preferences.showCheatingAlerts}
-                    onCheckedChange={(checked) =>
-                      setPreferences((prev) => ({ ...prev, showCheatingAlerts: checked }))
+                  <Select
+                    value={preferences.proctoringPolicy}
+                    onValueChange={(value: ProctoringPolicyId) =>
+                      setPreferences((prev) => ({ ...prev, proctoringPolicy: value }))
                     }
-                  />
+                  >
+                    <SelectTrigger className="glass w-40 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROCTORING_POLICIES.map((policy) => (
+                        <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-foreground">Eye Contact Calibration</p>
+                    <p className="text-sm text-muted-foreground">
+                      {gazeCalibration
+                        ? `Calibrated ${new Date(gazeCalibration.calibratedAt).toLocaleDateString()}. Recalibrate if you move your camera or screen.`
+                        : 'Look at the corners of your screen and your camera once so eye contact is measured accurately'}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setShowCalibration(true)}>
+                    <Crosshair className="w-4 h-4" />
+                    {gazeCalibration ? 'Recalibrate' : 'Calibrate'}
+                  </Button>
                 </div>
               </div>
 
@@ -859,6 +953,13 @@ const Settings = () => {
               </Button>
             </CardContent>
           </Card>
+
+          <ResumeSettings />
+          <GazeCalibration
+            open={showCalibration}
+            onOpenChange={setShowCalibration}
+            onCalibrated={setGazeCalibration}
+          />
         </TabsContent>
 
         {/* Account Tab */}
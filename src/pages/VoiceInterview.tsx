@@ -1,13 +1,42 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useBodyLanguageAnalysis } from '@/hooks/useBodyLanguageAnalysis';
 import { useCheatingDetection } from '@/hooks/useCheatingDetection';
+import { useObjectDetection } from '@/hooks/useObjectDetection';
+import { useAnswerRecorder } from '@/hooks/useAnswerRecorder';
 import BodyLanguageCoach from '@/components/BodyLanguageCoach';
+import SpeechCoach from '@/components/SpeechCoach';
 import { CheatingAlert, CheatingAlertCompact } from '@/components/CheatingAlert';
+import GazeCalibration from '@/components/GazeCalibration';
+import { INTERVIEW_PERSONAS, DEFAULT_PERSONA_ID, getPersonaOption } from '@/lib/interviewPersonas';
+import { streamInterviewChat, splitCompleteSentences } from '@/lib/interviewChat';
+import { gradeResponse } from '@/lib/grading';
+import { getAutoRecordPreference, uploadAnswerAudio } from '@/lib/answerAudio';
+import { createSpeechTracker, toSpeechColumns, type SpeechMetrics } from '@/lib/speechMetrics';
+import { getJobTargetContext, type JobTargetContext } from '@/lib/jobTargets';
+import { getResumeInterviewContext, type ParsedResume } from '@/lib/resume';
+import { getLoopRun, getLoopRunPath, type LoopRound } from '@/lib/interviewLoops';
+import { saveProctoringReport } from '@/lib/proctoring';
+import { getGazeCalibration, type GazeCalibration as GazeCalibrationData } from '@/lib/gaze';
+import {
+  getDetectionOptions,
+  getEscalationNotice,
+  getProctoringPolicy,
+  getProctoringPolicyPreference,
+  getViolationWarning,
+} from '@/lib/proctoringPolicies';
+import { synthesizeSpeech, playAudioUrl, stopAudio, type TextToSpeechEngine } from '@/lib/textToSpeech';
+import {
+  createSpeechToText,
+  getSpeechToTextSettings,
+  DEFAULT_SPEECH_TO_TEXT_SETTINGS,
+  type SpeechToText,
+  type SpeechToTextSettings,
+} from '@/lib/speechToText';
 import {
   Mic,
   MicOff,
@@ -26,6 +55,11 @@ import {
   Shield,
   Settings,
   Play,
+  Target,
+  Briefcase,
+  FileText,
+  ListOrdered,
+  Crosshair,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -36,56 +70,60 @@ interface Message {
   content: string;
 }
 
-// SpeechRecognition types for browser API
-interface SpeechRecognitionResultItem {
-  transcript: string;
-  confidence: number;
-}
-
-interface SpeechRecognitionResult {
-  readonly length: number;
-  [index: number]: SpeechRecognitionResultItem;
-  isFinal: boolean;
+// One interviewer question and the candidate's answer to it
+interface VoiceTurn {
+  question: string;
+  answer: string | null;
+  durationSeconds: number | null;
+  timeToAnswerSeconds: number | null;
+  postureScore: number;
+  eyeContactScore: number;
+  nervousMovements: number;
+  lookAwayCount: number;
+  phoneDetectedCount: number;
+  audio: Promise<Blob | null> | null;
+  speech: SpeechMetrics | null;
 }
 
-interface SpeechRecognitionResultListCustom {
-  readonly length: number;
-  [index: number]: SpeechRecognitionResult;
+interface CandidateProfile {
+  industry?: string;
+  experience?: string;
+  focusAreas?: string[];
 }
 
-interface SpeechRecognitionEventCustom extends Event {
-  resultIndex: number;
-  results: SpeechRecognitionResultListCustom;
-}
-
-interface SpeechRecognitionErrorEventCustom extends Event {
-  error: string;
-}
-
-interface SpeechRecognitionInstance {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  onresult: ((event: SpeechRecognitionEventCustom) => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEventCustom) => void) | null;
-  onend: (() => void) | null;
-  start: () => void;
-  stop: () => void;
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const SpeechRecognitionAPI = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+const VOICE_PREVIEW_TEXT = "Hello, I'll be your interviewer today. Let's get started.";
 
 const VoiceInterview = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const drillQuestionId = searchParams.get('question');
+  const jobTargetId = searchParams.get('target');
+  // Set when this interview is a round of an interview loop
+  const loopRunId = searchParams.get('loop');
+  const loopRoundParam = searchParams.get('round');
+  // Set when joining a scheduled mock interview, which sets the rules
+  const mockSessionId = searchParams.get('mock');
 
   // Interview state
   const [isStarted, setIsStarted] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentTranscript, setCurrentTranscript] = useState('');
+  const [personaId, setPersonaId] = useState(DEFAULT_PERSONA_ID);
+  const [candidateProfile, setCandidateProfile] = useState<CandidateProfile | null>(null);
+  // A library question to drill instead of an open-ended interview
+  const [drillQuestion, setDrillQuestion] = useState<{ id: string; question_text: string } | null>(null);
+  const [jobTarget, setJobTarget] = useState<JobTargetContext | null>(null);
+  // Only set when the user has opted in to resume-aware interviews
+  const [resume, setResume] = useState<ParsedResume | null>(null);
+  const [loopRound, setLoopRound] = useState<{ runId: string; index: number; total: number; round: LoopRound } | null>(null);
+  const [mockSession, setMockSession] = useState<{ id: string } | null>(null);
+  // Loops and mock sessions bring their own policy; otherwise the user's applies
+  const [proctoringPolicy, setProctoringPolicy] = useState(() => getProctoringPolicy(null));
+  const [gazeCalibration, setGazeCalibration] = useState<GazeCalibrationData | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
   
   // Audio state
   const [isListening, setIsListening] = useState(false);
@@ -101,19 +139,41 @@ const VoiceInterview = () => {
   const [selectedVoiceUri, setSelectedVoiceUri] = useState<string>('');
   const [speechRate, setSpeechRate] = useState(1.0);
   const [speechPitch, setSpeechPitch] = useState(1.0);
+  const [ttsEngine, setTtsEngine] = useState<TextToSpeechEngine>('browser');
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
   
   // Metrics
   const [duration, setDuration] = useState(0);
   const [lookAwayCount, setLookAwayCount] = useState(0);
   const [questionCount, setQuestionCount] = useState(0);
+  const [speechMetrics, setSpeechMetrics] = useState<SpeechMetrics | null>(null);
+  const [speechSettings, setSpeechSettings] = useState<SpeechToTextSettings>(DEFAULT_SPEECH_TO_TEXT_SETTINGS);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+  const recognitionRef = useRef<SpeechToText | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingUtterancesRef = useRef(0);
+  // Premium audio is not queued by the browser, so sentences chain here
+  const serverSpeechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped when the interview ends so queued sentences know not to play
+  const speechGenerationRef = useRef(0);
+  // The interviewer reply being streamed, so ending the interview can stop it
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // Time running out and an escalated policy can both end the interview;
+  // only the first call saves it
+  const isEndingRef = useRef(false);
+
+  // Transcript and per-turn timing. These are refs because the speech
+  // recognition callbacks outlive the render they were created in.
+  const messagesRef = useRef<Message[]>([]);
+  const turnsRef = useRef<VoiceTurn[]>([]);
+  const questionAskedAtRef = useRef<number | null>(null);
+  const answerStartedAtRef = useRef<number | null>(null);
+  const speechTrackerRef = useRef(createSpeechTracker());
+  const turnBaselineRef = useRef({ nervousMovements: 0, lookAwayCount: 0, phoneDetectedCount: 0 });
 
   // Body language analysis
   const { 
@@ -121,28 +181,186 @@ const VoiceInterview = () => {
     metrics: bodyMetrics, 
     startAnalysis: startBodyAnalysis,
     stopAnalysis: stopBodyAnalysis 
-  } = useBodyLanguageAnalysis(videoRef.current);
+  } = useBodyLanguageAnalysis(videoRef.current, { gazeCalibration });
 
   // Cheating detection
   const {
     metrics: cheatingMetrics,
     updateEyeContact,
     updatePersonDetection,
+    updatePeopleCount,
+    reportPhoneDetected,
+    clearPhoneDetection,
     resetMetrics: resetCheatingMetrics,
+    getEventLog: getProctoringLog,
   } = useCheatingDetection({
-    eyeContactThreshold: 40,
-    lookAwayDurationMs: 2000,
-    onViolation: (event) => {
-      // Show toast for violations
-      if (event.type === 'tab_switch') {
-        toast({
-          variant: 'destructive',
-          title: 'Tab Switch Detected',
-          description: 'Please stay on the interview tab.',
-        });
+    ...getDetectionOptions(proctoringPolicy),
+    onViolation: (event, violationCount) => {
+      const warning = getViolationWarning(proctoringPolicy, event, violationCount);
+      if (warning) toast({ variant: 'destructive', ...warning });
+    },
+    onEscalate: () => {
+      toast({ variant: 'destructive', ...getEscalationNotice(proctoringPolicy) });
+      if (proctoringPolicy.autoEnd && isStarted) endInterviewRef.current();
+    },
+  });
+
+  // Phones and extra people, from the object detector running in a worker
+  const watchesCamera = proctoringPolicy.signals.some((type) =>
+    ['phone_detected', 'person_missing', 'multiple_people'].includes(type)
+  );
+  const { status: objectDetectionStatus } = useObjectDetection(videoRef, {
+    enabled: isStarted && videoEnabled && watchesCamera,
+    onResult: ({ people, phoneDetected }) => {
+      updatePersonDetection(people > 0);
+      updatePeopleCount(people);
+      if (phoneDetected) {
+        reportPhoneDetected();
+      } else {
+        clearPhoneDetection();
       }
     },
   });
+  const isObjectDetectionReady = objectDetectionStatus === 'ready';
+
+  // Answer audio recording, controlled by the auto-record preference
+  const answerRecorder = useAnswerRecorder();
+  const autoRecordRef = useRef(false);
+
+  // Keep the latest transcript and metrics available to speech callbacks
+  const bodyMetricsRef = useRef(bodyMetrics);
+  const cheatingMetricsRef = useRef(cheatingMetrics);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    bodyMetricsRef.current = bodyMetrics;
+  }, [bodyMetrics]);
+
+  useEffect(() => {
+    cheatingMetricsRef.current = cheatingMetrics;
+  }, [cheatingMetrics]);
+
+  // Load onboarding answers to tailor the interviewer
+  useEffect(() => {
+    if (!user) return;
+
+    const savedOnboarding = localStorage.getItem(`onboarding_${user.id}`);
+    if (savedOnboarding) {
+      const onboarding = JSON.parse(savedOnboarding);
+      if (!onboarding.skipped) {
+        setCandidateProfile({
+          industry: onboarding.industry,
+          experience: onboarding.experience,
+          focusAreas: onboarding.focusAreas,
+        });
+      }
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!drillQuestionId) {
+      setDrillQuestion(null);
+      return;
+    }
+
+    supabase
+      .from('interview_questions')
+      .select('id, question_text')
+      .eq('id', drillQuestionId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading drill question:', error);
+        setDrillQuestion(data);
+      });
+  }, [drillQuestionId]);
+
+  useEffect(() => {
+    if (!jobTargetId) {
+      setJobTarget(null);
+      return;
+    }
+
+    getJobTargetContext(jobTargetId)
+      .then(setJobTarget)
+      .catch((error) => console.error('Error loading job target:', error));
+  }, [jobTargetId]);
+
+  useEffect(() => {
+    const index = Number(loopRoundParam);
+    if (!loopRunId || !Number.isInteger(index)) {
+      setLoopRound(null);
+      return;
+    }
+
+    getLoopRun(loopRunId)
+      .then((run) => {
+        const round = run?.plan.rounds[index];
+        if (!run || round?.type !== 'voice') return;
+
+        setLoopRound({ runId: run.id, index, total: run.plan.rounds.length, round });
+        setProctoringPolicy(getProctoringPolicy(run.plan.proctoringPolicy));
+        if (round.personaId) setPersonaId(round.personaId);
+      })
+      .catch((error) => console.error('Error loading interview loop:', error));
+  }, [loopRunId, loopRoundParam]);
+
+  useEffect(() => {
+    if (!mockSessionId) {
+      setMockSession(null);
+      return;
+    }
+
+    supabase
+      .from('interview_sessions')
+      .select('id, proctoring_policy')
+      .eq('id', mockSessionId)
+      .eq('session_type', 'mock')
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading mock session:', error);
+        if (!data) return;
+
+        setMockSession({ id: data.id });
+        setProctoringPolicy(getProctoringPolicy(data.proctoring_policy));
+      });
+  }, [mockSessionId]);
+
+  useEffect(() => {
+    if (!user || loopRunId || mockSessionId) return;
+
+    getProctoringPolicyPreference(user.id).then(setProctoringPolicy);
+  }, [user, loopRunId, mockSessionId]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getGazeCalibration(user.id).then(setGazeCalibration);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getResumeInterviewContext(user.id)
+      .then(setResume)
+      .catch((error) => console.error('Error loading resume:', error));
+  }, [user]);
+
+  // Answers are only recorded when the user has auto-record turned on
+  useEffect(() => {
+    if (!user) return;
+
+    getAutoRecordPreference(user.id).then((enabled) => {
+      autoRecordRef.current = enabled && answerRecorder.isSupported;
+    });
+  }, [user, answerRecorder.isSupported]);
+
+  useEffect(() => {
+    if (!user) return;
+    getSpeechToTextSettings(user.id).then(setSpeechSettings);
+  }, [user]);
 
   // Load available voices
   useEffect(() => {
@@ -178,10 +396,20 @@ const VoiceInterview = () => {
   useEffect(() => {
     if (isBodyAnalyzing) {
       updateEyeContact(bodyMetrics.eyeContactScore);
-      // Simple person detection based on posture score (if 0, person not detected)
-      updatePersonDetection(bodyMetrics.postureScore > 20);
+      // Until the object detector is counting people (or if it can't load),
+      // fall back to the posture score: 0 means no person in view
+      if (!isObjectDetectionReady) {
+        updatePersonDetection(bodyMetrics.postureScore > 20);
+      }
     }
-  }, [isBodyAnalyzing, bodyMetrics.eyeContactScore, bodyMetrics.postureScore, updateEyeContact, updatePersonDetection]);
+  }, [
+    isBodyAnalyzing,
+    isObjectDetectionReady,
+    bodyMetrics.eyeContactScore,
+    bodyMetrics.postureScore,
+    updateEyeContact,
+    updatePersonDetection,
+  ]);
 
   // Initialize video stream and body language analysis
   useEffect(() => {
@@ -215,6 +443,13 @@ const VoiceInterview = () => {
     };
   }, [isStarted, videoEnabled, startBodyAnalysis, stopBodyAnalysis, toast]);
 
+  // Don't leave a reply streaming or speaking after leaving the page
+  useEffect(() => () => {
+    chatAbortRef.current?.abort();
+    speechGenerationRef.current += 1;
+    if (audioRef.current) stopAudio(audioRef.current);
+  }, []);
+
   // Duration timer
   useEffect(() => {
     if (isStarted) {
@@ -232,75 +467,113 @@ const VoiceInterview = () => {
 
   // Initialize speech recognition
   const initSpeechRecognition = useCallback(() => {
-    if (!SpeechRecognitionAPI) {
+    const recognition = createSpeechToText(speechSettings.provider, {
+      lang: speechSettings.lang,
+      onResult: ({ transcript, isFinal }) => {
+        setCurrentTranscript(transcript);
+
+        speechTrackerRef.current.recordActivity();
+        setSpeechMetrics(speechTrackerRef.current.getMetrics(transcript));
+
+        // First words of the answer mark the end of the thinking time
+        if (!answerStartedAtRef.current && transcript.trim()) {
+          answerStartedAtRef.current = Date.now();
+        }
+
+        if (isFinal) {
+          handleUserMessage(transcript);
+        }
+      },
+      onError: (error) => {
+        console.error('Speech recognition error:', error);
+        if (error !== 'no-speech') {
+          setIsListening(false);
+        }
+      },
+      onEnd: () => {
+        if (isListening && !isSpeaking && !isProcessing) {
+          recognitionRef.current?.start();
+        }
+      },
+    });
+
+    if (!recognition) {
       toast({
         variant: 'destructive',
         title: 'Not Supported',
-        description: 'Speech recognition is not supported in your browser. Try Chrome.',
+        description: 'Your browser cannot capture speech. Check microphone access or try another browser.',
       });
       return null;
     }
 
-    const recognition = new SpeechRecognitionAPI() as SpeechRecognitionInstance;
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = 'en-US';
-
-    recognition.onresult = (event: SpeechRecognitionEventCustom) => {
-      let interimTranscript = '';
-      let finalTranscript = '';
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          finalTranscript += transcript;
-        } else {
-          interimTranscript += transcript;
-        }
-      }
-
-      setCurrentTranscript(interimTranscript || finalTranscript);
-
-      if (finalTranscript) {
-        handleUserMessage(finalTranscript);
-      }
-    };
-
-    recognition.onerror = (event: SpeechRecognitionErrorEventCustom) => {
-      console.error('Speech recognition error:', event.error);
-      if (event.error !== 'no-speech') {
-        setIsListening(false);
-      }
+    return recognition;
+  }, [isListening, isSpeaking, isProcessing, speechSettings, toast]);
+
+  // Called once the interviewer has finished asking a question
+  const markQuestionAsked = () => {
+    questionAskedAtRef.current = Date.now();
+    answerStartedAtRef.current = null;
+    speechTrackerRef.current.reset();
+    turnBaselineRef.current = {
+      nervousMovements: bodyMetricsRef.current.handMovementCount,
+      lookAwayCount: cheatingMetricsRef.current.lookAwayCount,
+      phoneDetectedCount: cheatingMetricsRef.current.phoneDetectedCount,
     };
 
-    recognition.onend = () => {
-      if (isListening && !isSpeaking && !isProcessing) {
-        recognition.start();
-      }
-    };
+    if (autoRecordRef.current) {
+      answerRecorder.start();
+    }
+  };
 
-    return recognition;
-  }, [isListening, isSpeaking, isProcessing, toast]);
+  // Record the turn that the candidate's answer completes
+  const recordTurn = (question: string, answer: string | null) => {
+    const now = Date.now();
+    const askedAt = questionAskedAtRef.current;
+    const startedAt = answerStartedAtRef.current ?? (answer ? now : null);
+    const body = bodyMetricsRef.current;
+    const cheating = cheatingMetricsRef.current;
+    const baseline = turnBaselineRef.current;
+    const audio = autoRecordRef.current ? answerRecorder.stop() : null;
+
+    turnsRef.current.push({
+      question,
+      answer,
+      durationSeconds: startedAt ? Math.round((now - startedAt) / 1000) : null,
+      timeToAnswerSeconds: askedAt && startedAt ? Math.round((startedAt - askedAt) / 100) / 10 : null,
+      postureScore: body.postureScore,
+      eyeContactScore: body.eyeContactScore,
+      nervousMovements: Math.max(0, body.handMovementCount - baseline.nervousMovements),
+      lookAwayCount: Math.max(0, cheating.lookAwayCount - baseline.lookAwayCount),
+      phoneDetectedCount: Math.max(0, cheating.phoneDetectedCount - baseline.phoneDetectedCount),
+      audio: answer ? audio : null,
+      speech: answer ? speechTrackerRef.current.getMetrics(answer) : null,
+    });
+  };
 
   // Start interview
   const startInterview = async () => {
     setIsConnecting(true);
+    // Only what happens during the interview goes in its integrity report
+    resetCheatingMetrics();
     
     try {
-      // Get initial AI response
-      const { data, error } = await supabase.functions.invoke('interview-chat', {
-        body: { isStart: true, messages: [] }
-      });
-
-      if (error) throw error;
-
-      const aiMessage: Message = { role: 'assistant', content: data.response };
-      setMessages([aiMessage]);
-      setQuestionCount(1);
+      // Stream the opening question, speaking it as sentences arrive
       setIsStarted(true);
-      
-      // Play AI response
-      await playAudioResponse(data.response);
+      const reply = await streamAssistantReply(
+        {
+          isStart: true,
+          messages: [],
+          personaId,
+          candidateProfile,
+          jobTarget,
+          resume,
+          focusQuestion: drillQuestion?.question_text || loopRound?.round.focus || undefined,
+        },
+        []
+      );
+      if (reply === null) return;
+      setQuestionCount(1);
+      markQuestionAsked();
 
       // Initialize and start listening
       const recognition = initSpeechRecognition();
@@ -312,6 +585,8 @@ const VoiceInterview = () => {
 
     } catch (error) {
       console.error('Failed to start interview:', error);
+      setIsStarted(false);
+      setMessages([]);
       const errorMessage = error instanceof Error ? error.message : 'Could not start the interview.';
       toast({
         variant: 'destructive',
@@ -336,23 +611,30 @@ const VoiceInterview = () => {
       setIsListening(false);
     }
 
+    const previousMessages = messagesRef.current;
+    const lastQuestion = [...previousMessages].reverse().find((m) => m.role === 'assistant');
+    recordTurn(lastQuestion?.content || '', text);
+
     const userMessage: Message = { role: 'user', content: text };
-    const updatedMessages = [...messages, userMessage];
+    const updatedMessages = [...previousMessages, userMessage];
     setMessages(updatedMessages);
 
     try {
-      const { data, error } = await supabase.functions.invoke('interview-chat', {
-        body: { messages: updatedMessages, isStart: false }
-      });
-
-      if (error) throw error;
-
-      const aiMessage: Message = { role: 'assistant', content: data.response };
-      setMessages([...updatedMessages, aiMessage]);
+      const reply = await streamAssistantReply(
+        {
+          messages: updatedMessages,
+          isStart: false,
+          personaId,
+          candidateProfile,
+          jobTarget,
+          resume,
+          focusQuestion: drillQuestion?.question_text || loopRound?.round.focus || undefined,
+        },
+        updatedMessages
+      );
+      if (reply === null) return;
       setQuestionCount(prev => prev + 1);
-      
-      // Play AI response
-      await playAudioResponse(data.response);
+      markQuestionAsked();
 
       // Resume listening
       if (recognitionRef.current && micEnabled) {
@@ -379,21 +661,81 @@ const VoiceInterview = () => {
     }
   };
 
-  // Play audio response using browser's built-in Web Speech API (free)
-  const playAudioResponse = async (text: string) => {
-    setIsSpeaking(true);
+  // Stream the interviewer's reply into the transcript and speak each sentence
+  // as soon as it is complete, instead of waiting for the whole response.
+  // Resolves to null if the interview ended while the reply was streaming.
+  const streamAssistantReply = async (body: Record<string, unknown>, baseMessages: Message[]) => {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+
+    chatAbortRef.current?.abort();
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    let fullText = '';
+    let pendingText = '';
+    const speechQueue: Promise<void>[] = [];
+
+    setMessages([...baseMessages, { role: 'assistant', content: '' }]);
 
     try {
-      // Check if speech synthesis is available
-      if (!('speechSynthesis' in window)) {
-        console.warn('Speech synthesis not supported');
-        setIsSpeaking(false);
-        return;
-      }
+      await streamInterviewChat({
+        body,
+        onDelta: (chunk) => {
+          fullText += chunk;
+          setMessages([...baseMessages, { role: 'assistant', content: fullText }]);
+
+          pendingText += chunk;
+          const { sentences, rest } = splitCompleteSentences(pendingText);
+          pendingText = rest;
+          sentences.forEach((sentence) => speechQueue.push(playAudioResponse(sentence)));
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return null;
+      // Drop the empty interviewer bubble if nothing arrived
+      if (!fullText) setMessages(baseMessages);
+      throw error;
+    }
 
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel();
+    if (pendingText.trim()) {
+      speechQueue.push(playAudioResponse(pendingText.trim()));
+    }
+
+    if (!fullText) {
+      throw new Error('No response from AI');
+    }
+
+    // Wait for the interviewer to finish talking before listening again
+    await Promise.all(speechQueue);
+    return controller.signal.aborted ? null : fullText;
+  };
+
+  const finishUtterance = () => {
+    pendingUtterancesRef.current = Math.max(0, pendingUtterancesRef.current - 1);
+    if (pendingUtterancesRef.current === 0) {
+      setIsSpeaking(false);
+    }
+  };
+
+  // Speak text using browser's built-in Web Speech API (free). Utterances are
+  // queued by the browser, so the promise resolves when this chunk finishes.
+  const speakWithBrowser = (text: string) => new Promise<void>((resolve) => {
+    // Check if speech synthesis is available
+    if (!('speechSynthesis' in window)) {
+      console.warn('Speech synthesis not supported');
+      resolve();
+      return;
+    }
+
+    const finish = () => {
+      finishUtterance();
+      resolve();
+    };
 
+    try {
       const utterance = new SpeechSynthesisUtterance(text);
       
       // Use selected voice or find a good default
@@ -414,29 +756,64 @@ const VoiceInterview = () => {
       utterance.pitch = speechPitch;
       utterance.volume = 1.0;
 
-      utterance.onend = () => {
-        setIsSpeaking(false);
-      };
+      utterance.onend = finish;
 
       utterance.onerror = (event) => {
         console.error('Speech synthesis error:', event);
-        setIsSpeaking(false);
+        finish();
       };
 
+      pendingUtterancesRef.current += 1;
+      setIsSpeaking(true);
       window.speechSynthesis.speak(utterance);
 
     } catch (error) {
       console.error('TTS error:', error);
-      setIsSpeaking(false);
+      finish();
     }
+  });
+
+  // Speak one sentence with the chosen engine. Premium audio is requested
+  // straight away but played behind earlier sentences; if the server or
+  // playback fails, that sentence is spoken by the browser voice instead.
+  const playAudioResponse = (text: string): Promise<void> => {
+    if (ttsEngine !== 'server') return speakWithBrowser(text);
+
+    const audioUrl = synthesizeSpeech(text, getPersonaOption(personaId).ttsVoiceId);
+    // Handled when its turn comes; this only silences the early rejection
+    audioUrl.catch(() => undefined);
+
+    pendingUtterancesRef.current += 1;
+    setIsSpeaking(true);
+
+    const generation = speechGenerationRef.current;
+    const isCancelled = () => generation !== speechGenerationRef.current;
+
+    const turn = serverSpeechQueueRef.current.then(async () => {
+      try {
+        const url = await audioUrl;
+        if (isCancelled()) return;
+        if (!audioRef.current) audioRef.current = new Audio();
+        await playAudioUrl(audioRef.current, url, speechRate);
+      } catch (error) {
+        if (isCancelled()) return;
+        console.error('Premium voice failed, using browser voice:', error);
+        await speakWithBrowser(text);
+      } finally {
+        finishUtterance();
+      }
+    });
+
+    serverSpeechQueueRef.current = turn;
+    return turn;
   };
 
   // Preview selected voice
-  const previewVoice = () => {
+  const previewBrowserVoice = () => {
     if (!('speechSynthesis' in window)) return;
     
     window.speechSynthesis.cancel();
-    const utterance = new SpeechSynthesisUtterance("Hello, I'll be your interviewer today. Let's get started.");
+    const utterance = new SpeechSynthesisUtterance(VOICE_PREVIEW_TEXT);
     
     const voices = window.speechSynthesis.getVoices();
     const selectedVoice = voices.find(v => v.voiceURI === selectedVoiceUri);
@@ -451,14 +828,110 @@ const VoiceInterview = () => {
     window.speechSynthesis.speak(utterance);
   };
 
+  const previewVoice = async () => {
+    if (ttsEngine !== 'server') {
+      previewBrowserVoice();
+      return;
+    }
+
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+
+    try {
+      const audioUrl = await synthesizeSpeech(VOICE_PREVIEW_TEXT, getPersonaOption(personaId).ttsVoiceId);
+      if (!audioRef.current) audioRef.current = new Audio();
+      stopAudio(audioRef.current);
+      await playAudioUrl(audioRef.current, audioUrl, speechRate);
+    } catch (error) {
+      console.error('Premium voice preview failed:', error);
+      toast({
+        title: 'Premium voice unavailable',
+        description: 'Using the browser voice instead.',
+        variant: 'destructive',
+      });
+      previewBrowserVoice();
+    }
+  };
+
+  // Persist every turn as an interview_responses row with its body language snapshot
+  const saveTranscript = async (sessionId: string, turns: VoiceTurn[]) => {
+    if (turns.length === 0) return;
+
+    const { data: responses, error } = await supabase
+      .from('interview_responses')
+      .insert(turns.map((turn, index) => ({
+        session_id: sessionId,
+        turn_index: index,
+        // The opening turn of a drill asks the library question
+        question_id: index === 0 && drillQuestion ? drillQuestion.id : null,
+        question_text: turn.question,
+        response_text: turn.answer,
+        duration_seconds: turn.durationSeconds,
+        time_to_answer_seconds: turn.timeToAnswerSeconds,
+        ...(turn.speech ? toSpeechColumns(turn.speech) : {}),
+      })))
+      .select('id, turn_index, response_text');
+
+    if (error) throw error;
+
+    // Scores are stored on a 0-10 scale
+    const { error: metricsError } = await supabase
+      .from('body_language_metrics')
+      .insert(responses.map((response) => {
+        const turn = turns[response.turn_index ?? 0];
+        return {
+          response_id: response.id,
+          posture_score: Math.round(turn.postureScore) / 10,
+          eye_contact_score: Math.round(turn.eyeContactScore) / 10,
+          nervous_movements: turn.nervousMovements,
+          looking_away_count: turn.lookAwayCount,
+          phone_detected_count: turn.phoneDetectedCount,
+        };
+      }));
+
+    if (metricsError) console.error('Failed to save body language metrics:', metricsError);
+
+    // Upload recorded answers so they can be replayed from the session page
+    await Promise.all(responses.map(async (response) => {
+      const audio = await turns[response.turn_index ?? 0].audio;
+      if (!audio || !user) return;
+
+      try {
+        await uploadAnswerAudio(user.id, response.id, audio);
+      } catch (uploadError) {
+        console.error('Failed to upload answer audio:', uploadError);
+      }
+    }));
+
+    // Grade answered turns in the background
+    responses
+      .filter((response) => response.response_text)
+      .forEach((response) => {
+        gradeResponse(response.id).catch((gradeError) => {
+          console.error('Error grading response:', gradeError);
+        });
+      });
+  };
+
   // End interview
   const endInterview = async () => {
-    // Stop all media
+    if (isEndingRef.current) return;
+    isEndingRef.current = true;
+
+    // Stop the interviewer mid-reply and all media
+    chatAbortRef.current?.abort();
     if (recognitionRef.current) {
-      recognitionRef.current.stop();
+      recognitionRef.current.release();
     }
+    // Queued sentences check the generation before they play
+    speechGenerationRef.current += 1;
+    serverSpeechQueueRef.current = Promise.resolve();
     if (audioRef.current) {
-      audioRef.current.pause();
+      stopAudio(audioRef.current);
+    }
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
     }
     if (mediaStreamRef.current) {
       mediaStreamRef.current.getTracks().forEach(track => track.stop());
@@ -472,23 +945,61 @@ const VoiceInterview = () => {
     const bodyScore = bodyMetrics.overallScore;
     const combinedScore = Math.round((bodyScore * 0.3) + (Math.max(5, 10 - lookAwayCount * 0.5) * 10 * 0.7));
 
-    // Save session to database
+    // The last question may still be waiting for an answer
+    const lastMessage = messagesRef.current[messagesRef.current.length - 1];
+    if (lastMessage?.role === 'assistant' && lastMessage.content) {
+      recordTurn(lastMessage.content, null);
+    }
+    answerRecorder.release();
+    const proctoringLog = getProctoringLog();
+    const startedAt = new Date(Date.now() - duration * 1000).toISOString();
+
+    // Save session to database. A mock interview completes its scheduled
+    // session instead of adding another one.
+    let savedSessionId: string | null = null;
     if (user) {
       try {
-        const { error } = await supabase.from('interview_sessions').insert({
-          user_id: user.id,
-          session_type: 'voice',
+        const result = {
           status: 'completed',
           duration_minutes: Math.ceil(duration / 60),
-          started_at: new Date(Date.now() - duration * 1000).toISOString(),
+          started_at: startedAt,
           ended_at: new Date().toISOString(),
           overall_score: combinedScore / 10,
-        });
-
-        if (error) console.error('Failed to save session:', error);
+        };
+        const { data: session, error } = mockSession
+          ? await supabase
+            .from('interview_sessions')
+            .update(result)
+            .eq('id', mockSession.id)
+            .select('id')
+            .single()
+          : await supabase
+            .from('interview_sessions')
+            .insert({
+              user_id: user.id,
+              session_type: 'voice',
+              ...result,
+              parent_session_id: loopRound?.runId,
+              loop_round: loopRound?.index,
+            })
+            .select('id')
+            .single();
+
+        if (error) throw error;
+
+        savedSessionId = session.id;
+        await saveTranscript(session.id, turnsRef.current);
       } catch (err) {
         console.error('Session save error:', err);
       }
+
+      if (savedSessionId) {
+        try {
+          await saveProctoringReport(savedSessionId, user.id, startedAt, duration, proctoringLog, proctoringPolicy);
+        } catch (err) {
+          console.error('Failed to save proctoring report:', err);
+        }
+      }
     }
 
     toast({
@@ -496,9 +1007,27 @@ const VoiceInterview = () => {
       description: `Great job! You answered ${questionCount} questions in ${Math.floor(duration / 60)}:${(duration % 60).toString().padStart(2, '0')}.`,
     });
 
-    navigate('/dashboard');
+    // Open the session report, where the debrief is generated. Loop rounds
+    // go back to the loop for the break and the next round.
+    if (loopRound) {
+      navigate(getLoopRunPath(loopRound.runId));
+    } else {
+      navigate(savedSessionId ? `/sessions/${savedSessionId}` : '/dashboard');
+    }
   };
 
+  // Loop rounds end on their own when their time is up
+  const endInterviewRef = useRef(endInterview);
+  endInterviewRef.current = endInterview;
+  const roundSecondsLeft = loopRound ? loopRound.round.minutes * 60 - duration : null;
+
+  useEffect(() => {
+    if (!isStarted || roundSecondsLeft === null || roundSecondsLeft > 0) return;
+
+    toast({ title: "Time's up", description: 'This round has ended.' });
+    endInterviewRef.current();
+  }, [isStarted, roundSecondsLeft, toast]);
+
   // Toggle microphone
   const toggleMic = () => {
     if (micEnabled) {
@@ -522,6 +1051,8 @@ const VoiceInterview = () => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const selectedPersona = getPersonaOption(personaId);
+
   // Pre-interview screen
   if (!isStarted) {
     return (
@@ -534,11 +1065,43 @@ const VoiceInterview = () => {
           <div>
             <h1 className="text-3xl font-bold text-foreground mb-3">AI Voice Interview</h1>
             <p className="text-muted-foreground">
-              Experience a realistic stress interview with our AI interviewer. 
-              The AI will challenge your answers and press for details, just like a real interview.
+              Experience a realistic interview with our AI interviewer. 
+              Pick who you want to face, and the AI will challenge your answers just like a real interview.
             </p>
           </div>
 
+          {/* Persona Selection */}
+          <div className="text-left">
+            <p className="text-sm font-medium text-foreground mb-3">Choose your interviewer</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {INTERVIEW_PERSONAS.map((persona) => {
+                const Icon = persona.icon;
+                return (
+                  <button
+                    key={persona.id}
+                    onClick={() => setPersonaId(persona.id)}
+                    className={cn(
+                      'glass rounded-xl p-4 flex items-start gap-3 text-left transition-all',
+                      personaId === persona.id
+                        ? 'ring-2 ring-primary bg-primary/10'
+                        : 'hover:bg-secondary/50'
+                    )}
+                  >
+                    <Icon className={cn(
+                      'w-5 h-5 flex-shrink-0 mt-0.5',
+                      persona.intensity === 'high' ? 'text-neon-magenta' :
+                      persona.intensity === 'medium' ? 'text-neon-purple' : 'text-neon-cyan'
+                    )} />
+                    <div>
+                      <p className="text-sm font-medium text-foreground">{persona.name}</p>
+                      <p className="text-xs text-muted-foreground">{persona.description}</p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
           <div className="grid grid-cols-3 gap-4 text-center">
             <div className="glass rounded-xl p-4">
               <Mic className="w-6 h-6 text-neon-cyan mx-auto mb-2" />
@@ -574,10 +1137,35 @@ const VoiceInterview = () => {
 
             {showVoiceSettings && (
               <div className="mt-4 space-y-4 animate-fade-in">
+                {/* Voice Engine */}
+                <div>
+                  <label className="text-sm text-muted-foreground mb-2 block">
+                    Voice Engine
+                  </label>
+                  <Select
+                    value={ttsEngine}
+                    onValueChange={(value) => setTtsEngine(value as TextToSpeechEngine)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="browser">Browser voice (free)</SelectItem>
+                      <SelectItem value="server">Premium voice (ElevenLabs)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {ttsEngine === 'server' && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      The {selectedPersona.name} speaks as {selectedPersona.ttsVoiceName}. If the premium voice
+                      is unavailable, the browser voice below is used.
+                    </p>
+                  )}
+                </div>
+
                 {/* Voice Selection */}
                 <div>
                   <label className="text-sm text-muted-foreground mb-2 block">
-                    Interviewer Voice
+                    {ttsEngine === 'server' ? 'Fallback Voice' : 'Interviewer Voice'}
                   </label>
                   <div className="flex gap-2">
                     <Select 
@@ -641,13 +1229,92 @@ const VoiceInterview = () => {
             )}
           </div>
 
+          {resume && (
+            <div className="glass rounded-xl p-4 flex items-start gap-3 text-left">
+              <FileText className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Resume-aware interview</p>
+                <p className="text-xs text-muted-foreground">
+                  Expect questions about specific roles and claims on your resume. You can turn this off in Settings.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {jobTarget && (
+            <div className="glass rounded-xl p-4 flex items-start gap-3 text-left">
+              <Briefcase className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">{jobTarget.title} at {jobTarget.company}</p>
+                <p className="text-xs text-muted-foreground">
+                  {jobTarget.packQuestions.length > 0
+                    ? `The interviewer will draw on your ${jobTarget.packQuestions.length}-question pack for this job.`
+                    : 'The interviewer will tailor questions to this job.'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {loopRound && (
+            <div className="glass rounded-xl p-4 flex items-start gap-3 text-left">
+              <ListOrdered className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  Round {loopRound.index + 1} of {loopRound.total}: {loopRound.round.title}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {loopRound.round.minutes} minutes. The interview ends on its own when time is up.
+                  {loopRound.round.focus && ` ${loopRound.round.focus}`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {drillQuestion && (
+            <div className="glass rounded-xl p-4 flex items-start gap-3 text-left">
+              <Target className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Single-question drill</p>
+                <p className="text-xs text-muted-foreground">{drillQuestion.question_text}</p>
+              </div>
+            </div>
+          )}
+
+          {(mockSession || proctoringPolicy.warningsBeforeEscalation !== null) && (
+            <div className="glass rounded-xl p-4 flex items-start gap-3 text-left">
+              <Shield className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  {mockSession ? 'Mock interview' : 'Proctored interview'}: {proctoringPolicy.name} rules
+                </p>
+                <p className="text-xs text-muted-foreground">{proctoringPolicy.description}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="glass rounded-xl p-4 flex items-center gap-3 text-left">
+            <Crosshair className="w-5 h-5 text-primary flex-shrink-0" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-foreground">Eye contact</p>
+              <p className="text-xs text-muted-foreground">
+                {gazeCalibration
+                  ? `Measured against your camera. Calibrated ${new Date(gazeCalibration.calibratedAt).toLocaleDateString()}.`
+                  : 'Calibrate once so eye contact is measured against your camera, not just the middle of the frame.'}
+              </p>
+            </div>
+            <Button variant="glass" size="sm" onClick={() => setShowCalibration(true)}>
+              {gazeCalibration ? 'Recalibrate' : 'Calibrate'}
+            </Button>
+          </div>
+
           <div className="bg-warning/10 border border-warning/20 rounded-xl p-4 flex items-start gap-3 text-left">
             <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
             <div>
-              <p className="text-sm font-medium text-foreground">Prepare for a Challenge</p>
+              <p className="text-sm font-medium text-foreground">
+                {selectedPersona.intensity === 'high' ? 'Prepare for a Challenge' : `Interviewing with the ${selectedPersona.name}`}
+              </p>
               <p className="text-xs text-muted-foreground">
-                This is a stress interview simulation. The AI will be skeptical and press for details. 
-                Stay calm and answer confidently!
+                {selectedPersona.briefing}
               </p>
             </div>
           </div>
@@ -667,11 +1334,17 @@ const VoiceInterview = () => {
             ) : (
               <>
                 <Sparkles className="w-5 h-5" />
-                Start Interview
+                {drillQuestion ? 'Start Drill' : 'Start Interview'}
               </>
             )}
           </Button>
         </div>
+
+        <GazeCalibration
+          open={showCalibration}
+          onOpenChange={setShowCalibration}
+          onCalibrated={setGazeCalibration}
+        />
       </div>
     );
   }
@@ -684,12 +1357,23 @@ const VoiceInterview = () => {
         <div className="flex items-center gap-4">
           <div className="glass rounded-xl px-4 py-2 flex items-center gap-2">
             <Clock className="w-4 h-4 text-neon-cyan" />
-            <span className="font-mono text-foreground">{formatDuration(duration)}</span>
+            <span
+              className={cn('font-mono text-foreground', roundSecondsLeft !== null && roundSecondsLeft <= 60 && 'text-destructive')}
+              title={roundSecondsLeft !== null ? 'Time left in this round' : undefined}
+            >
+              {formatDuration(roundSecondsLeft !== null ? Math.max(roundSecondsLeft, 0) : duration)}
+            </span>
           </div>
           <div className="glass rounded-xl px-4 py-2 flex items-center gap-2">
             <MessageSquare className="w-4 h-4 text-neon-purple" />
             <span className="text-foreground">{questionCount} questions</span>
           </div>
+          {answerRecorder.isRecording && (
+            <div className="glass rounded-xl px-4 py-2 flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-destructive animate-pulse" />
+              <span className="text-foreground text-sm">Recording</span>
+            </div>
+          )}
           {isBodyAnalyzing && (
             <div className="glass rounded-xl px-4 py-2 flex items-center gap-2">
               <Activity className="w-4 h-4 text-neon-green" />
@@ -697,7 +1381,7 @@ const VoiceInterview = () => {
             </div>
           )}
           {/* Cheating Detection Indicator */}
-          <CheatingAlertCompact metrics={cheatingMetrics} />
+          {proctoringPolicy.showAlerts && <CheatingAlertCompact metrics={cheatingMetrics} />}
         </div>
 
         <div className="flex items-center gap-2">
@@ -714,18 +1398,20 @@ const VoiceInterview = () => {
             </div>
           )}
           {/* Integrity Status */}
-          <div className={cn(
-            "glass rounded-xl px-4 py-2 flex items-center gap-2",
-            cheatingMetrics.suspicionLevel === 'high' && 'border-destructive/50',
-            cheatingMetrics.suspicionLevel === 'medium' && 'border-warning/50'
-          )}>
-            <Shield className={cn(
-              "w-4 h-4",
-              cheatingMetrics.suspicionLevel === 'low' ? 'text-neon-green' :
-              cheatingMetrics.suspicionLevel === 'medium' ? 'text-warning' : 'text-destructive'
-            )} />
-            <span className="text-sm text-foreground capitalize">{cheatingMetrics.suspicionLevel}</span>
-          </div>
+          {proctoringPolicy.showAlerts && (
+            <div className={cn(
+              "glass rounded-xl px-4 py-2 flex items-center gap-2",
+              cheatingMetrics.suspicionLevel === 'high' && 'border-destructive/50',
+              cheatingMetrics.suspicionLevel === 'medium' && 'border-warning/50'
+            )}>
+              <Shield className={cn(
+                "w-4 h-4",
+                cheatingMetrics.suspicionLevel === 'low' ? 'text-neon-green' :
+                cheatingMetrics.suspicionLevel === 'medium' ? 'text-warning' : 'text-destructive'
+              )} />
+              <span className="text-sm text-foreground capitalize">{cheatingMetrics.suspicionLevel}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -755,8 +1441,8 @@ const VoiceInterview = () => {
             </div>
           )}
 
-          {/* Processing indicator */}
-          {isProcessing && (
+          {/* Processing indicator (until the interviewer starts talking) */}
+          {isProcessing && !isSpeaking && (
             <div className="absolute inset-0 bg-background/50 backdrop-blur-sm flex items-center justify-center">
               <div className="glass rounded-2xl p-6 flex flex-col items-center gap-3">
                 <Loader2 className="w-8 h-8 animate-spin text-neon-magenta" />
@@ -773,10 +1459,13 @@ const VoiceInterview = () => {
             isAnalyzing={isBodyAnalyzing} 
             compact
           />
-          <CheatingAlert 
-            metrics={cheatingMetrics}
-            showDetails={true}
-          />
+          <SpeechCoach metrics={speechMetrics} isListening={isListening} />
+          {proctoringPolicy.showAlerts && (
+            <CheatingAlert 
+              metrics={cheatingMetrics}
+              showDetails={true}
+            />
+          )}
         </div>
 
         {/* Chat/Transcript Panel */}
@@ -799,7 +1488,11 @@ const VoiceInterview = () => {
                 <p className="text-xs font-medium mb-1 text-muted-foreground">
                   {msg.role === 'assistant' ? '🎙️ Interviewer' : '👤 You'}
                 </p>
-                <p>{msg.content}</p>
+                {msg.content ? (
+                  <p>{msg.content}</p>
+                ) : (
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,83 @@
+import { FaceLandmarker } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_module_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_module_internal.wasm?url';
+
+// Runs the Face Landmarker off the main thread for gaze estimation. Sends
+// back the landmarks (with irises) and the face's transformation matrix,
+// or no face; the gaze itself is worked out on the main thread.
+
+export type FaceLandmarkerRequest =
+  | { type: 'init'; modelPath: string }
+  | { type: 'detect'; frame: ImageBitmap };
+
+export type FaceLandmarkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | {
+    type: 'result';
+    face: { landmarks: { x: number; y: number }[]; matrix: number[] } | null;
+    inferenceMs: number;
+  };
+
+const ctx = self as unknown as {
+  postMessage: (message: FaceLandmarkerResponse) => void;
+  onmessage: ((event: MessageEvent<FaceLandmarkerRequest>) => void) | null;
+};
+
+let landmarker: FaceLandmarker | null = null;
+
+const init = async (modelPath: string) => {
+  try {
+    landmarker = await FaceLandmarker.createFromOptions(
+      { wasmLoaderPath, wasmBinaryPath },
+      {
+        baseOptions: { modelAssetPath: modelPath, delegate: 'CPU' },
+        runningMode: 'IMAGE',
+        numFaces: 1,
+        outputFacialTransformationMatrixes: true,
+      }
+    );
+    ctx.postMessage({ type: 'ready' });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const detect = (frame: ImageBitmap) => {
+  if (!landmarker) {
+    frame.close();
+    return;
+  }
+
+  const started = performance.now();
+  try {
+    const { faceLandmarks, facialTransformationMatrixes } = landmarker.detect(frame);
+    const landmarks = faceLandmarks[0];
+    const matrix = facialTransformationMatrixes?.[0];
+
+    ctx.postMessage({
+      type: 'result',
+      face: landmarks && matrix
+        ? {
+          // In pixels, so distances along x and y compare fairly
+          landmarks: landmarks.map(({ x, y }) => ({ x: x * frame.width, y: y * frame.height })),
+          matrix: Array.from(matrix.data),
+        }
+        : null,
+      inferenceMs: Math.round(performance.now() - started),
+    });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    frame.close();
+  }
+};
+
+ctx.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    init(message.modelPath);
+  } else {
+    detect(message.frame);
+  }
+};
@@ -0,0 +1,77 @@
+import { ObjectDetector } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_module_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_module_internal.wasm?url';
+
+// Runs the COCO object detector off the main thread so the interview UI
+// never waits on inference. Frames arrive as ImageBitmaps and only the
+// counts the proctor cares about are sent back.
+
+export type ObjectDetectorRequest =
+  | { type: 'init'; modelPath: string }
+  | { type: 'detect'; frame: ImageBitmap };
+
+export type ObjectDetectorResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'result'; people: number; phones: number; inferenceMs: number };
+
+// Lower than a typical default: a phone held low in frame scores poorly
+const SCORE_THRESHOLD = 0.4;
+
+const ctx = self as unknown as {
+  postMessage: (message: ObjectDetectorResponse) => void;
+  onmessage: ((event: MessageEvent<ObjectDetectorRequest>) => void) | null;
+};
+
+let detector: ObjectDetector | null = null;
+
+const init = async (modelPath: string) => {
+  try {
+    detector = await ObjectDetector.createFromOptions(
+      { wasmLoaderPath, wasmBinaryPath },
+      {
+        baseOptions: { modelAssetPath: modelPath, delegate: 'CPU' },
+        runningMode: 'IMAGE',
+        scoreThreshold: SCORE_THRESHOLD,
+        categoryAllowlist: ['person', 'cell phone'],
+      }
+    );
+    ctx.postMessage({ type: 'ready' });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const detect = (frame: ImageBitmap) => {
+  if (!detector) {
+    frame.close();
+    return;
+  }
+
+  const started = performance.now();
+  try {
+    const { detections } = detector.detect(frame);
+    const count = (name: string) =>
+      detections.filter((d) => d.categories.some((c) => c.categoryName === name)).length;
+
+    ctx.postMessage({
+      type: 'result',
+      people: count('person'),
+      phones: count('cell phone'),
+      inferenceMs: Math.round(performance.now() - started),
+    });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    frame.close();
+  }
+};
+
+ctx.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    init(message.modelPath);
+  } else {
+    detect(message.frame);
+  }
+};
@@ -98,9 +98,21 @@ serve(async (req) => {
       } else {
         console.log("Deleted interview responses");
       }
+
+      // 5. Delete proctoring events for these sessions
+      const { error: proctoringError } = await supabaseAdmin
+        .from("proctoring_events")
+        .delete()
+        .in("session_id", sessionIds);
+
+      if (proctoringError) {
+        console.error("Error deleting proctoring events:", proctoringError);
+      } else {
+        console.log("Deleted proctoring events");
+      }
     }
 
-    // 5. Delete mock interview invites
+    // 6. Delete mock interview invites
     const { error: invitesError } = await supabaseAdmin
       .from("mock_interview_invites")
       .delete()
@@ -112,7 +124,7 @@ serve(async (req) => {
       console.log("Deleted mock interview invites");
     }
 
-    // 6. Delete interview sessions
+    // 7. Delete interview sessions
     const { error: deleteSessionsError } = await supabaseAdmin
       .from("interview_sessions")
       .delete()
@@ -124,7 +136,19 @@ serve(async (req) => {
       console.log("Deleted interview sessions");
     }
 
-    // 7. Delete user devices
+    // 8. Delete interview loops (their runs went with the sessions)
+    const { error: loopsError } = await supabaseAdmin
+      .from("interview_loops")
+      .delete()
+      .eq("user_id", userId);
+
+    if (loopsError) {
+      console.error("Error deleting interview loops:", loopsError);
+    } else {
+      console.log("Deleted interview loops");
+    }
+
+    // 9. Delete user devices
     const { error: devicesError } = await supabaseAdmin
       .from("user_devices")
       .delete()
@@ -136,7 +160,60 @@ serve(async (req) => {
       console.log("Deleted user devices");
     }
 
-    // 8. Delete user preferences
+    // 10. Delete flashcard review history
+    const { error: reviewsError } = await supabaseAdmin
+      .from("flashcard_reviews")
+      .delete()
+      .eq("user_id", userId);
+
+    if (reviewsError) {
+      console.error("Error deleting flashcard reviews:", reviewsError);
+    } else {
+      console.log("Deleted flashcard reviews");
+    }
+
+    // 11. Delete private question notes
+    const { error: notesError } = await supabaseAdmin
+      .from("question_notes")
+      .delete()
+      .eq("user_id", userId);
+
+    if (notesError) {
+      console.error("Error deleting question notes:", notesError);
+    } else {
+      console.log("Deleted question notes");
+    }
+
+    // 12. Delete job targets (before their pack decks)
+    const { error: targetsError } = await supabaseAdmin
+      .from("job_targets")
+      .delete()
+      .eq("user_id", userId);
+
+    if (targetsError) {
+      console.error("Error deleting job targets:", targetsError);
+    } else {
+      console.log("Deleted job targets");
+    }
+
+    // 13. Delete question decks and authored questions (deck items cascade)
+    const { error: decksError } = await supabaseAdmin
+      .from("question_decks")
+      .delete()
+      .eq("user_id", userId);
+
+    const { error: questionsError } = await supabaseAdmin
+      .from("interview_questions")
+      .delete()
+      .eq("user_id", userId);
+
+    if (decksError || questionsError) {
+      console.error("Error deleting question bank:", decksError || questionsError);
+    } else {
+      console.log("Deleted question decks and authored questions");
+    }
+
+    // 14. Delete user preferences
     const { error: prefsError } = await supabaseAdmin
       .from("user_preferences")
       .delete()
@@ -148,7 +225,19 @@ serve(async (req) => {
       console.log("Deleted user preferences");
     }
 
-    // 9. Delete user profile
+    // 15. Delete parsed resume
+    const { error: resumeError } = await supabaseAdmin
+      .from("resumes")
+      .delete()
+      .eq("user_id", userId);
+
+    if (resumeError) {
+      console.error("Error deleting resume:", resumeError);
+    } else {
+      console.log("Deleted resume");
+    }
+
+    // 16. Delete user profile
     const { error: profileError } = await supabaseAdmin
       .from("profiles")
       .delete()
@@ -160,7 +249,7 @@ serve(async (req) => {
       console.log("Deleted user profile");
     }
 
-    // 10. Delete avatar from storage
+    // 17. Delete avatar from storage
     const { data: avatarFiles } = await supabaseAdmin.storage
       .from("avatars")
       .list(userId);
@@ -175,7 +264,22 @@ serve(async (req) => {
       }
     }
 
-    // 11. Finally, delete the auth user
+    // 18. Delete recorded answers from storage
+    const { data: recordingFiles } = await supabaseAdmin.storage
+      .from("answer-recordings")
+      .list(userId, { limit: 1000 });
+
+    if (recordingFiles && recordingFiles.length > 0) {
+      const filesToDelete = recordingFiles.map(f => `${userId}/${f.name}`);
+      const { error: storageError } = await supabaseAdmin.storage.from("answer-recordings").remove(filesToDelete);
+      if (storageError) {
+        console.error("Error deleting answer recordings:", storageError);
+      } else {
+        console.log("Deleted answer recordings");
+      }
+    }
+
+    // 19. Finally, delete the auth user
     const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(userId);
 
     if (deleteError) {
@@ -105,6 +105,82 @@ serve(async (req) => {
     
     exportData.mockInterviewInvitesSent = sentInvites || [];
 
+    // 7. Get uploaded resume and what was parsed from it
+    const { data: resume } = await supabaseAdmin
+      .from("resumes")
+      .select("file_name, raw_text, parsed, use_in_interviews, parsed_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    exportData.resume = resume;
+
+    // 8. Get interview loops (each run is already among the sessions)
+    const { data: interviewLoops } = await supabaseAdmin
+      .from("interview_loops")
+      .select("name, rounds, proctoring_policy, created_at")
+      .eq("user_id", userId);
+
+    exportData.interviewLoops = interviewLoops || [];
+
+    // 9. Get proctoring events flagged during sessions
+    const { data: proctoringEvents } = await supabaseAdmin
+      .from("proctoring_events")
+      .select("session_id, event_type, message, occurred_at, duration_ms")
+      .eq("user_id", userId)
+      .order("occurred_at", { ascending: true });
+
+    exportData.proctoringEvents = proctoringEvents || [];
+
+    // 10. Get flashcard review history
+    const { data: flashcardReviews } = await supabaseAdmin
+      .from("flashcard_reviews")
+      .select("question_id, ease_factor, interval_days, repetitions, lapses, last_grade, last_reviewed_at, due_at")
+      .eq("user_id", userId);
+
+    exportData.flashcardReviews = flashcardReviews || [];
+
+    // 11. Get authored questions and question decks with their items
+    const { data: authoredQuestions } = await supabaseAdmin
+      .from("interview_questions")
+      .select("id, question_text, difficulty, category_id, tips, sample_answer, created_at, updated_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    exportData.authoredQuestions = authoredQuestions || [];
+
+    const { data: questionDecks } = await supabaseAdmin
+      .from("question_decks")
+      .select("id, name, description, share_token, created_at, updated_at")
+      .eq("user_id", userId);
+
+    exportData.questionDecks = questionDecks || [];
+
+    if (questionDecks && questionDecks.length > 0) {
+      const deckIds = questionDecks.map(d => d.id);
+      const { data: deckItems } = await supabaseAdmin
+        .from("question_deck_items")
+        .select("deck_id, question_id, created_at")
+        .in("deck_id", deckIds);
+
+      exportData.questionDeckItems = deckItems || [];
+    }
+
+    // 12. Get private question notes
+    const { data: questionNotes } = await supabaseAdmin
+      .from("question_notes")
+      .select("question_id, content, created_at, updated_at")
+      .eq("user_id", userId);
+
+    exportData.questionNotes = questionNotes || [];
+
+    // 13. Get job targets (their pack decks are among the question decks)
+    const { data: jobTargets } = await supabaseAdmin
+      .from("job_targets")
+      .select("company, title, level, job_description, deck_id, pack_generated_at, created_at")
+      .eq("user_id", userId);
+
+    exportData.jobTargets = jobTargets || [];
+
     // Calculate summary statistics
     const interviewSessions = exportData.interviewSessions as { overall_score?: number | null }[] | undefined;
     const sessionsWithScores = interviewSessions?.filter((s) => s.overall_score !== null) ?? [];
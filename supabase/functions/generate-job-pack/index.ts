@@ -0,0 +1,205 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SYSTEM_PROMPT = `You are a hiring manager preparing an interview loop for a specific job opening. You will receive the company, job title, seniority level and, when available, the job description.
+
+Write interview questions this company would realistically ask a candidate for this role:
+
+- Ground each question in the job description: the responsibilities, tools, domain and values it mentions. Do not write generic questions that would fit any job.
+- Mix behavioral questions (past experience, STAR-style) with role-specific technical or situational questions, roughly half and half.
+- Calibrate difficulty to the seniority level. Senior and above should face more hard questions about scope, ambiguity and leadership.
+- For each question add short coaching tips on what the interviewer is listening for, and a concise model answer outline the candidate can adapt.
+- Do not repeat or rephrase any of the questions the candidate already has in their pack.`;
+
+const PACK_TOOL = {
+  type: 'function',
+  function: {
+    name: 'submit_questions',
+    description: 'Submit the tailored interview questions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        questions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              question_text: { type: 'string' },
+              difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+              tips: { type: 'string' },
+              sample_answer: { type: 'string' },
+            },
+            required: ['question_text', 'difficulty', 'tips', 'sample_answer'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['questions'],
+      additionalProperties: false,
+    },
+  },
+};
+
+const MAX_QUESTIONS = 20;
+// Long postings are trimmed so the prompt stays within budget
+const MAX_JOB_DESCRIPTION_CHARS = 8000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { jobTargetId, count = 10, existingQuestions: rawExistingQuestions = [] } = await req.json();
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY is not configured');
+    }
+
+    if (!jobTargetId) {
+      return new Response(JSON.stringify({ error: 'jobTargetId is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!Array.isArray(rawExistingQuestions)) {
+      return new Response(JSON.stringify({ error: 'existingQuestions must be an array' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const existingQuestions = rawExistingQuestions
+      .filter((q: unknown): q is string => typeof q === 'string' && q.trim() !== '');
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('job_targets')
+      .select('company, title, level, job_description')
+      .eq('id', jobTargetId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (targetError) throw targetError;
+
+    if (!target) {
+      return new Response(JSON.stringify({ error: 'Job target not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const questionCount = Math.min(MAX_QUESTIONS, Math.max(1, Number(count) || 10));
+    console.log('Job pack request:', { jobTargetId, questionCount, existing: existingQuestions.length });
+
+    const prompt = [
+      `Company: ${target.company}`,
+      `Job title: ${target.title}`,
+      `Level: ${target.level}`,
+      target.job_description
+        ? `Job description:\n${target.job_description.slice(0, MAX_JOB_DESCRIPTION_CHARS)}`
+        : 'No job description was provided. Use what is publicly known about the company and role.',
+      existingQuestions.length > 0
+        ? `Questions already in the pack:\n${existingQuestions.slice(0, 50).map((q) => `- ${q}`).join('\n')}`
+        : null,
+      `Write ${questionCount} questions.`,
+    ].filter(Boolean).join('\n\n');
+
+    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+        tools: [PACK_TOOL],
+        tool_choice: { type: 'function', function: { name: 'submit_questions' } },
+      }),
+    });
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error('AI Gateway error:', aiResponse.status, errorText);
+
+      if (aiResponse.status === 429) {
+        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please wait a moment and try again.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (aiResponse.status === 402) {
+        return new Response(JSON.stringify({ error: 'Usage limit reached. Please add credits to continue.' }), {
+          status: 402,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      throw new Error(`AI Gateway error: ${aiResponse.status}`);
+    }
+
+    const data = await aiResponse.json();
+    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
+
+    if (!toolCall?.function?.arguments) {
+      throw new Error('No questions returned by AI');
+    }
+
+    const { questions } = JSON.parse(toolCall.function.arguments);
+    const cleaned = (Array.isArray(questions) ? questions : [])
+      .filter((q) => typeof q?.question_text === 'string' && q.question_text.trim().length >= 10)
+      .slice(0, questionCount)
+      .map((q) => ({
+        question_text: q.question_text.trim(),
+        difficulty: ['easy', 'medium', 'hard'].includes(q.difficulty) ? q.difficulty : 'medium',
+        tips: q.tips?.trim() || null,
+        sample_answer: q.sample_answer?.trim() || null,
+      }));
+
+    console.log('Job pack generated successfully:', cleaned.length);
+
+    return new Response(JSON.stringify({ questions: cleaned }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('Generate job pack error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to generate question pack';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,204 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SYSTEM_PROMPT = `You are an experienced interview coach grading a candidate's answer to a single interview question.
+
+Score the answer on three dimensions, each from 0 to 10 (one decimal place allowed):
+
+1. **Clarity**: Is the answer well structured and easy to follow? Does it use a clear narrative (e.g. STAR: Situation, Task, Action, Result) where appropriate?
+2. **Confidence**: Does the candidate speak with ownership and conviction? Penalize excessive hedging, filler and vague language.
+3. **Relevance**: Does the answer actually address the question asked? Does it include specific details, metrics or examples?
+
+If a reference answer or coaching tips are provided, use them as a guide for what a strong answer covers, but do not require the candidate to match them word for word.
+
+Write feedback of 2-4 sentences addressed to the candidate: one thing they did well and the most important thing to improve.
+
+Very short, empty or off-topic answers should score low on every dimension.`;
+
+const GRADING_TOOL = {
+  type: 'function',
+  function: {
+    name: 'grade_answer',
+    description: 'Record the rubric scores and feedback for the candidate answer.',
+    parameters: {
+      type: 'object',
+      properties: {
+        clarity_score: { type: 'number', minimum: 0, maximum: 10 },
+        confidence_score: { type: 'number', minimum: 0, maximum: 10 },
+        relevance_score: { type: 'number', minimum: 0, maximum: 10 },
+        feedback: { type: 'string' },
+      },
+      required: ['clarity_score', 'confidence_score', 'relevance_score', 'feedback'],
+      additionalProperties: false,
+    },
+  },
+};
+
+// Scores are stored as NUMERIC(3,1), so clamp to 0-10 with one decimal
+const normalizeScore = (value: unknown): number => {
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(num)) return 0;
+  return Math.round(Math.min(10, Math.max(0, num)) * 10) / 10;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { responseId } = await req.json();
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY is not configured');
+    }
+
+    if (!responseId) {
+      return new Response(JSON.stringify({ error: 'responseId is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    // Verify the caller owns the response being graded
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: response, error: responseError } = await supabaseAdmin
+      .from('interview_responses')
+      .select('id, question_id, question_text, response_text, interview_sessions!inner(user_id)')
+      .eq('id', responseId)
+      .eq('interview_sessions.user_id', user.id)
+      .maybeSingle();
+
+    if (responseError) throw responseError;
+
+    if (!response) {
+      return new Response(JSON.stringify({ error: 'Response not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let sampleAnswer: string | null = null;
+    let tips: string | null = null;
+
+    if (response.question_id) {
+      const { data: question } = await supabaseAdmin
+        .from('interview_questions')
+        .select('sample_answer, tips')
+        .eq('id', response.question_id)
+        .maybeSingle();
+
+      sampleAnswer = question?.sample_answer ?? null;
+      tips = question?.tips ?? null;
+    }
+
+    console.log('Grading response:', { responseId, hasReference: !!sampleAnswer, hasTips: !!tips });
+
+    const gradingInput = [
+      `Question: ${response.question_text}`,
+      sampleAnswer ? `Reference answer: ${sampleAnswer}` : null,
+      tips ? `Coaching tips: ${tips}` : null,
+      `Candidate answer: ${response.response_text?.trim() || '(no answer given)'}`,
+    ].filter(Boolean).join('\n\n');
+
+    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: gradingInput },
+        ],
+        tools: [GRADING_TOOL],
+        tool_choice: { type: 'function', function: { name: 'grade_answer' } },
+      }),
+    });
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error('AI Gateway error:', aiResponse.status, errorText);
+
+      if (aiResponse.status === 429) {
+        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please wait a moment and try again.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (aiResponse.status === 402) {
+        return new Response(JSON.stringify({ error: 'Usage limit reached. Please add credits to continue.' }), {
+          status: 402,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      throw new Error(`AI Gateway error: ${aiResponse.status}`);
+    }
+
+    const data = await aiResponse.json();
+    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
+
+    if (!toolCall?.function?.arguments) {
+      throw new Error('No grading returned by AI');
+    }
+
+    const grading = JSON.parse(toolCall.function.arguments);
+    const scores = {
+      clarity_score: normalizeScore(grading.clarity_score),
+      confidence_score: normalizeScore(grading.confidence_score),
+      relevance_score: normalizeScore(grading.relevance_score),
+      ai_feedback: typeof grading.feedback === 'string' ? grading.feedback.trim() : null,
+    };
+
+    const { error: updateError } = await supabaseAdmin
+      .from('interview_responses')
+      .update(scores)
+      .eq('id', responseId);
+
+    if (updateError) throw updateError;
+
+    console.log('Response graded successfully');
+
+    return new Response(JSON.stringify(scores), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('Grade response error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to grade response';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,48 +1,39 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildSystemPrompt, getPersona } from "./personas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const SYSTEM_PROMPT = `You are a skeptical senior interviewer conducting a high-stakes stress interview. Your role is to:
-
-1. **Be skeptical and challenging**: Question everything the candidate says. Ask for specific details, metrics, and examples.
-2. **Press for details**: If the candidate gives vague answers, push back. Ask "What specifically?" or "Can you quantify that?"
-3. **Create pressure**: Use follow-up questions that challenge their statements. "That seems unlikely. Can you explain how?"
-4. **Show tonal variation**: Be stern when pressing, slightly warmer when they give good answers, impatient with vague responses.
-5. **Keep it realistic**: Ask common behavioral and situational interview questions.
-6. **Be concise**: Keep your responses to 1-3 sentences typically. Don't lecture.
-
-Start by introducing yourself briefly and asking the first challenging question. Focus on behavioral questions using the STAR method expectations.
-
-Example tough follow-ups:
-- "Walk me through the exact steps you took."
-- "What was YOUR specific contribution, not the team's?"
-- "That timeline seems ambitious. How did you actually achieve that?"
-- "I'm not convinced. What evidence do you have?"
-
-Remember: You're testing their composure under pressure, not being cruel. Be professional but demanding.`;
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { messages, isStart } = await req.json();
+    const { messages, isStart, personaId, candidateProfile, jobTarget, resume, focusQuestion, stream = false } = await req.json();
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY is not configured');
     }
 
-    console.log('Interview chat request:', { messageCount: messages?.length, isStart });
+    const persona = getPersona(personaId);
+    console.log('Interview chat request:', { messageCount: messages?.length, isStart, stream, persona: persona.id, drill: !!focusQuestion, jobTarget: !!jobTarget, resume: !!resume });
+
+    // A drill keeps the whole conversation on one question from the library
+    const drillInstructions = focusQuestion
+      ? `\n\nThis is a focused drill on a single question: "${focusQuestion}". Open with that question, then keep every follow-up on the same topic, probing for specifics the answer left out.`
+      : '';
+    const systemMessage = { role: 'system', content: buildSystemPrompt(persona.id, candidateProfile, jobTarget, resume) + drillInstructions };
 
-    const systemMessage = { role: 'system', content: SYSTEM_PROMPT };
+    const openingRequest = focusQuestion
+      ? 'Start the drill. Introduce yourself in one sentence and ask me the drill question.'
+      : 'Start the interview. Introduce yourself briefly and ask me your first question.';
     
     const chatMessages = isStart 
-      ? [systemMessage, { role: 'user', content: 'Start the interview. Introduce yourself briefly and ask me a challenging behavioral question.' }]
+      ? [systemMessage, { role: 'user', content: openingRequest }]
       : [systemMessage, ...messages];
 
     const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
@@ -55,6 +46,7 @@ serve(async (req) => {
         model: 'google/gemini-2.5-flash',
         messages: chatMessages,
         max_tokens: 300,
+        stream,
       }),
     });
 
@@ -77,6 +69,13 @@ serve(async (req) => {
       throw new Error(`AI Gateway error: ${response.status}`);
     }
 
+    // Streaming mode: relay the gateway's server-sent events straight to the client
+    if (stream) {
+      return new Response(response.body, {
+        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' },
+      });
+    }
+
     const data = await response.json();
     const aiResponse = data.choices?.[0]?.message?.content;
 
@@ -0,0 +1,224 @@
+export interface InterviewPersona {
+  id: string;
+  name: string;
+  prompt: string;
+}
+
+export interface CandidateProfile {
+  industry?: string;
+  experience?: string;
+  focusAreas?: string[];
+}
+
+// A specific job the candidate is preparing for
+export interface JobTarget {
+  company: string;
+  title: string;
+  level?: string;
+  jobDescription?: string | null;
+  packQuestions?: string[];
+}
+
+// Facts parsed from the candidate's resume, shared only with their opt-in
+export interface ResumeFacts {
+  summary?: string;
+  roles?: { company: string; title: string; dates?: string; highlights?: string[] }[];
+  projects?: { name: string; description: string }[];
+  claims?: { claim: string; context?: string }[];
+  skills?: string[];
+}
+
+const MAX_JOB_DESCRIPTION_CHARS = 4000;
+const MAX_RESUME_ROLES = 6;
+const MAX_RESUME_CLAIMS = 15;
+
+const SHARED_RULES = `General rules:
+- Keep your responses to 1-3 sentences typically. Don't lecture.
+- Ask one question at a time and wait for the answer.
+- Never break character or mention that you are an AI.`;
+
+export const PERSONAS: Record<string, InterviewPersona> = {
+  'friendly-recruiter': {
+    id: 'friendly-recruiter',
+    name: 'Friendly Recruiter',
+    prompt: `You are a warm, upbeat recruiter running a first-round phone screen. Your role is to:
+
+1. **Put the candidate at ease**: Be encouraging and conversational, but still professional.
+2. **Screen for fit**: Ask about their background, motivation for the role, salary expectations, availability and what they are looking for next.
+3. **Probe lightly**: If an answer is vague, ask a gentle follow-up such as "Could you give me an example of that?"
+4. **Keep it moving**: Cover several topics briefly rather than drilling deep into one.
+
+Start by introducing yourself as a recruiter, thanking them for their time and asking them to walk you through their background.`,
+  },
+  'hiring-manager': {
+    id: 'hiring-manager',
+    name: 'Hiring Manager',
+    prompt: `You are the hiring manager for the team the candidate would join. Your role is to:
+
+1. **Assess real-world fit**: Ask how they would handle the day-to-day responsibilities, priorities and stakeholders of the role.
+2. **Dig into past impact**: Ask for concrete examples of projects they owned, decisions they made and the results they delivered.
+3. **Check working style**: Ask about collaboration, feedback, handling ambiguity and managing up.
+4. **Be direct but fair**: Follow up when an answer lacks ownership or outcomes. "What was the result?" "What would you do differently?"
+
+Start by introducing yourself as the hiring manager, briefly describing what the team does and asking why they are interested in this role.`,
+  },
+  'bar-raiser': {
+    id: 'bar-raiser',
+    name: 'Bar Raiser',
+    prompt: `You are a skeptical senior interviewer conducting a high-stakes stress interview. Your role is to:
+
+1. **Be skeptical and challenging**: Question everything the candidate says. Ask for specific details, metrics, and examples.
+2. **Press for details**: If the candidate gives vague answers, push back. Ask "What specifically?" or "Can you quantify that?"
+3. **Create pressure**: Use follow-up questions that challenge their statements. "That seems unlikely. Can you explain how?"
+4. **Show tonal variation**: Be stern when pressing, slightly warmer when they give good answers, impatient with vague responses.
+5. **Keep it realistic**: Ask common behavioral and situational interview questions.
+
+Start by introducing yourself briefly and asking the first challenging question. Focus on behavioral questions using the STAR method expectations.
+
+Example tough follow-ups:
+- "Walk me through the exact steps you took."
+- "What was YOUR specific contribution, not the team's?"
+- "That timeline seems ambitious. How did you actually achieve that?"
+- "I'm not convinced. What evidence do you have?"
+
+Remember: You're testing their composure under pressure, not being cruel. Be professional but demanding.`,
+  },
+  'technical-lead': {
+    id: 'technical-lead',
+    name: 'Technical Lead',
+    prompt: `You are a pragmatic technical lead assessing the candidate's hands-on expertise. Your role is to:
+
+1. **Test depth, not trivia**: Ask about systems, tools and techniques they have actually used in their field, and why they made the choices they did.
+2. **Explore trade-offs**: Ask "What were the alternatives?" and "What broke, and how did you fix it?"
+3. **Pose realistic scenarios**: Describe a practical problem from their domain and ask them to reason through it out loud.
+4. **Follow the thread**: Build each question on their previous answer, going one level deeper each time.
+
+Start by introducing yourself as the technical lead and asking them to describe a recent technical problem they solved.`,
+  },
+  panel: {
+    id: 'panel',
+    name: 'Interview Panel',
+    prompt: `You are moderating a three-person interview panel: Alex (hiring manager), Priya (senior peer) and Sam (cross-functional partner). Your role is to:
+
+1. **Rotate voices**: Each turn, speak as exactly one panelist and prefix the turn with their name, e.g. "Priya: ...".
+2. **Vary perspective**: Alex asks about ownership and results, Priya about craft and technical depth, Sam about collaboration and communication.
+3. **Reference each other**: Panelists can build on or challenge what the candidate told another panelist.
+4. **Keep pressure moderate**: Be professional and curious, pushing for specifics when answers are vague.
+
+Start with Alex briefly introducing the panel and asking the first question.`,
+  },
+};
+
+export const DEFAULT_PERSONA_ID = 'bar-raiser';
+
+const INDUSTRY_LABELS: Record<string, string> = {
+  tech: 'Technology',
+  finance: 'Finance',
+  consulting: 'Consulting',
+  healthcare: 'Healthcare',
+  marketing: 'Marketing',
+};
+
+const EXPERIENCE_LABELS: Record<string, string> = {
+  student: 'a student or fresh graduate',
+  junior: 'a junior professional (0-2 years of experience)',
+  mid: 'a mid-level professional (3-5 years of experience)',
+  senior: 'a senior professional (6+ years of experience)',
+  executive: 'an executive or senior leader',
+};
+
+const FOCUS_AREA_LABELS: Record<string, string> = {
+  behavioral: 'behavioral questions',
+  technical: 'technical skills',
+  'case-study': 'case studies',
+  communication: 'communication',
+  leadership: 'leadership',
+  'problem-solving': 'problem solving',
+};
+
+const buildCandidateContext = (profile?: CandidateProfile): string | null => {
+  if (!profile) return null;
+
+  const lines: string[] = [];
+  const industry = profile.industry && INDUSTRY_LABELS[profile.industry];
+  const experience = profile.experience && EXPERIENCE_LABELS[profile.experience];
+  const focusAreas = (profile.focusAreas || [])
+    .map((area) => FOCUS_AREA_LABELS[area])
+    .filter(Boolean);
+
+  if (industry) lines.push(`- They are interviewing for roles in ${industry}. Tailor scenarios and terminology to this industry.`);
+  if (experience) lines.push(`- They are ${experience}. Calibrate the seniority and scope of your questions to this level.`);
+  if (focusAreas.length > 0) lines.push(`- They want to practice ${focusAreas.join(', ')}. Weight your questions towards these areas.`);
+
+  return lines.length > 0 ? `About the candidate:\n${lines.join('\n')}` : null;
+};
+
+const buildJobTargetContext = (target?: JobTarget): string | null => {
+  if (!target?.company || !target?.title) return null;
+
+  const lines = [
+    `The candidate is interviewing for ${target.level ? `a ${target.level} ` : 'the '}${target.title} position at ${target.company}. Interview as if you work at ${target.company}, and refer to the company and role by name.`,
+  ];
+  if (target.jobDescription) {
+    lines.push(`Job description:\n${target.jobDescription.slice(0, MAX_JOB_DESCRIPTION_CHARS)}`);
+  }
+  if (target.packQuestions && target.packQuestions.length > 0) {
+    lines.push(`Draw most of your questions from this prepared pack, rephrasing naturally and following up where answers are thin:\n${target.packQuestions.map((q) => `- ${q}`).join('\n')}`);
+  }
+
+  return `About the job:\n${lines.join('\n\n')}`;
+};
+
+const buildResumeContext = (resume?: ResumeFacts): string | null => {
+  if (!resume) return null;
+
+  const sections: string[] = [];
+  if (resume.summary) sections.push(resume.summary);
+
+  const roles = (resume.roles || []).slice(0, MAX_RESUME_ROLES);
+  if (roles.length > 0) {
+    sections.push(`Roles:\n${roles.map((role) => {
+      const highlights = (role.highlights || []).slice(0, 4).map((h) => `    - ${h}`).join('\n');
+      return `- ${role.title} at ${role.company}${role.dates ? ` (${role.dates})` : ''}${highlights ? `\n${highlights}` : ''}`;
+    }).join('\n')}`);
+  }
+
+  const projects = resume.projects || [];
+  if (projects.length > 0) {
+    sections.push(`Projects:\n${projects.map((p) => `- ${p.name}: ${p.description}`).join('\n')}`);
+  }
+
+  const claims = (resume.claims || []).slice(0, MAX_RESUME_CLAIMS);
+  if (claims.length > 0) {
+    sections.push(`Claims to probe:\n${claims.map((c) => `- "${c.claim}"${c.context ? ` (${c.context})` : ''}`).join('\n')}`);
+  }
+
+  if ((resume.skills || []).length > 0) sections.push(`Skills: ${resume.skills!.join(', ')}`);
+  if (sections.length === 0) return null;
+
+  return `From the candidate's resume:\n${sections.join('\n\n')}\n\nAsk about specific bullets and claims by name, for example "You say you cut latency by 40% at Acme. Walk me through how." Press for the candidate's personal contribution, the numbers behind a claim and what they would do differently. Do not read the resume back to them.`;
+};
+
+// The id comes from the client, so only the table's own keys count, never
+// inherited ones like "constructor"
+export const getPersona = (personaId?: string): InterviewPersona =>
+  (typeof personaId === 'string' && Object.hasOwn(PERSONAS, personaId) && PERSONAS[personaId])
+  || PERSONAS[DEFAULT_PERSONA_ID];
+
+export const buildSystemPrompt = (
+  personaId?: string,
+  profile?: CandidateProfile,
+  jobTarget?: JobTarget,
+  resume?: ResumeFacts
+): string => {
+  const persona = getPersona(personaId);
+  return [
+    persona.prompt,
+    buildCandidateContext(profile),
+    buildResumeContext(resume),
+    buildJobTargetContext(jobTarget),
+    SHARED_RULES,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+};
@@ -0,0 +1,263 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SYSTEM_PROMPT = `You are a senior interview coach writing a debrief after a mock interview. You will receive the full transcript as numbered turns, each with the interviewer's question and the candidate's answer.
+
+Produce a structured report:
+
+1. **Per-answer STAR check**: For every answered turn, mark whether the answer covered the Situation, Task, Action and Result, and add a one-sentence note on what was missing or strong.
+2. **Strongest and weakest answers**: Pick the turn numbers of the single strongest and single weakest answer and explain why in one or two sentences.
+3. **Challenged claims**: List vague or unsupported claims the candidate made that the interviewer pushed back on (or should have), quoting the claim briefly.
+4. **Drills**: Recommend exactly three concrete practice drills the candidate can do before their next interview. Each drill must be specific and actionable.
+5. **Overall**: A 2-3 sentence summary and an overall content score from 0 to 10.
+
+Be honest and specific. Refer to what the candidate actually said.`;
+
+const DEBRIEF_TOOL = {
+  type: 'function',
+  function: {
+    name: 'submit_debrief',
+    description: 'Submit the structured interview debrief.',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        overall_score: { type: 'number', minimum: 0, maximum: 10 },
+        answers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              turn: { type: 'integer' },
+              situation: { type: 'boolean' },
+              task: { type: 'boolean' },
+              action: { type: 'boolean' },
+              result: { type: 'boolean' },
+              note: { type: 'string' },
+            },
+            required: ['turn', 'situation', 'task', 'action', 'result', 'note'],
+            additionalProperties: false,
+          },
+        },
+        strongest_answer: {
+          type: 'object',
+          properties: {
+            turn: { type: 'integer' },
+            reason: { type: 'string' },
+          },
+          required: ['turn', 'reason'],
+          additionalProperties: false,
+        },
+        weakest_answer: {
+          type: 'object',
+          properties: {
+            turn: { type: 'integer' },
+            reason: { type: 'string' },
+          },
+          required: ['turn', 'reason'],
+          additionalProperties: false,
+        },
+        challenged_claims: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              turn: { type: 'integer' },
+              claim: { type: 'string' },
+              challenge: { type: 'string' },
+            },
+            required: ['turn', 'claim', 'challenge'],
+            additionalProperties: false,
+          },
+        },
+        drills: {
+          type: 'array',
+          minItems: 3,
+          maxItems: 3,
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              description: { type: 'string' },
+            },
+            required: ['title', 'description'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['summary', 'overall_score', 'answers', 'strongest_answer', 'weakest_answer', 'challenged_claims', 'drills'],
+      additionalProperties: false,
+    },
+  },
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId } = await req.json();
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY is not configured');
+    }
+
+    if (!sessionId) {
+      return new Response(JSON.stringify({ error: 'sessionId is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from('interview_sessions')
+      .select('id, overall_score, debrief')
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (sessionError) throw sessionError;
+
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: turns, error: turnsError } = await supabaseAdmin
+      .from('interview_responses')
+      .select('turn_index, question_text, response_text')
+      .eq('session_id', sessionId)
+      .order('turn_index', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (turnsError) throw turnsError;
+
+    const answeredTurns = (turns || []).filter((t) => t.response_text?.trim());
+    if (answeredTurns.length === 0) {
+      return new Response(JSON.stringify({ error: 'This session has no answers to debrief' }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log('Debrief request:', { sessionId, turnCount: turns?.length });
+
+    const transcript = (turns || [])
+      .map((t, i) => `Turn ${i + 1}\nInterviewer: ${t.question_text}\nCandidate: ${t.response_text?.trim() || '(no answer)'}`)
+      .join('\n\n');
+
+    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: transcript },
+        ],
+        tools: [DEBRIEF_TOOL],
+        tool_choice: { type: 'function', function: { name: 'submit_debrief' } },
+      }),
+    });
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error('AI Gateway error:', aiResponse.status, errorText);
+
+      if (aiResponse.status === 429) {
+        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please wait a moment and try again.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (aiResponse.status === 402) {
+        return new Response(JSON.stringify({ error: 'Usage limit reached. Please add credits to continue.' }), {
+          status: 402,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      throw new Error(`AI Gateway error: ${aiResponse.status}`);
+    }
+
+    const data = await aiResponse.json();
+    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
+
+    if (!toolCall?.function?.arguments) {
+      throw new Error('No debrief returned by AI');
+    }
+
+    const report = JSON.parse(toolCall.function.arguments);
+    const contentScore = Math.round(Math.min(10, Math.max(0, Number(report.overall_score) || 0)) * 10) / 10;
+
+    // Keep the original delivery (body language) score across regenerations
+    const previousDebrief = session.debrief as { delivery_score?: number | null } | null;
+    const deliveryScore = previousDebrief?.delivery_score ?? session.overall_score ?? null;
+
+    const debrief = {
+      ...report,
+      overall_score: contentScore,
+      delivery_score: deliveryScore,
+      generated_at: new Date().toISOString(),
+    };
+
+    const combinedScore = deliveryScore !== null
+      ? Math.round((contentScore * 0.7 + Number(deliveryScore) * 0.3) * 10) / 10
+      : contentScore;
+
+    const { error: updateError } = await supabaseAdmin
+      .from('interview_sessions')
+      .update({ debrief, overall_score: combinedScore })
+      .eq('id', sessionId);
+
+    if (updateError) throw updateError;
+
+    console.log('Debrief generated successfully');
+
+    return new Response(JSON.stringify({ debrief, overall_score: combinedScore }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('Interview debrief error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to generate debrief';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
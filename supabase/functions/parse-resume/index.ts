@@ -0,0 +1,187 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SYSTEM_PROMPT = `You extract structured facts from a candidate's resume so an interviewer can ask about them.
+
+From the resume text, extract:
+
+1. **Summary**: One or two sentences on who the candidate is professionally.
+2. **Roles**: Each job, with company, title, dates as written, and the bullet points as short highlights.
+3. **Projects**: Named projects, side projects or notable initiatives, with a one-sentence description.
+4. **Claims**: Specific, checkable claims an interviewer should probe: metrics ("cut latency by 40%"), scope ("led a team of 12"), ownership ("designed the billing system") and outcomes. Quote the claim closely and note which role or project it belongs to.
+5. **Skills**: Technologies, tools and methods listed.
+
+Only use what the resume says. Do not invent companies, dates or numbers. Skip contact details.`;
+
+const RESUME_TOOL = {
+  type: 'function',
+  function: {
+    name: 'submit_resume',
+    description: 'Submit the structured resume facts.',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        roles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              company: { type: 'string' },
+              title: { type: 'string' },
+              dates: { type: 'string' },
+              highlights: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['company', 'title', 'dates', 'highlights'],
+            additionalProperties: false,
+          },
+        },
+        projects: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              description: { type: 'string' },
+            },
+            required: ['name', 'description'],
+            additionalProperties: false,
+          },
+        },
+        claims: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              claim: { type: 'string' },
+              context: { type: 'string' },
+            },
+            required: ['claim', 'context'],
+            additionalProperties: false,
+          },
+        },
+        skills: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['summary', 'roles', 'projects', 'claims', 'skills'],
+      additionalProperties: false,
+    },
+  },
+};
+
+// Resumes are short; anything beyond this is almost certainly not a resume
+const MAX_RESUME_CHARS = 30000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { text } = await req.json();
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY is not configured');
+    }
+
+    if (typeof text !== 'string' || text.trim().length < 100) {
+      return new Response(JSON.stringify({ error: 'Not enough text found in the resume' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log('Resume parse request:', { length: text.length });
+
+    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: text.slice(0, MAX_RESUME_CHARS) },
+        ],
+        tools: [RESUME_TOOL],
+        tool_choice: { type: 'function', function: { name: 'submit_resume' } },
+      }),
+    });
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error('AI Gateway error:', aiResponse.status, errorText);
+
+      if (aiResponse.status === 429) {
+        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please wait a moment and try again.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (aiResponse.status === 402) {
+        return new Response(JSON.stringify({ error: 'Usage limit reached. Please add credits to continue.' }), {
+          status: 402,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      throw new Error(`AI Gateway error: ${aiResponse.status}`);
+    }
+
+    const data = await aiResponse.json();
+    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
+
+    if (!toolCall?.function?.arguments) {
+      throw new Error('No resume facts returned by AI');
+    }
+
+    const resume = JSON.parse(toolCall.function.arguments);
+
+    console.log('Resume parsed successfully:', {
+      roles: resume.roles?.length,
+      projects: resume.projects?.length,
+      claims: resume.claims?.length,
+    });
+
+    return new Response(JSON.stringify({ resume }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('Parse resume error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to parse resume';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
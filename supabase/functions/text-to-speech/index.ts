@@ -1,28 +1,97 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { encode as hexEncode } from "https://deno.land/std@0.168.0/encoding/hex.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const CACHE_BUCKET = 'tts-cache';
+const MODEL_ID = 'eleven_turbo_v2_5';
+const DEFAULT_VOICE_ID = 'onwK4e9ZLuTAKqWW03F9'; // Daniel voice - professional male
+// The app sends one sentence at a time; anything longer is not ours
+const MAX_TEXT_LENGTH = 1000;
+
+// Cache key for a line of speech. The model is part of the key so switching
+// models never serves stale audio.
+const getCacheKey = async (text: string, voiceId: string) => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${MODEL_ID}:${voiceId}:${text}`)
+  );
+  return `${voiceId}/${new TextDecoder().decode(hexEncode(new Uint8Array(digest)))}.mp3`;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { text, voiceId = 'onwK4e9ZLuTAKqWW03F9' } = await req.json(); // Daniel voice - professional male
+    const { text: rawText, voiceId = DEFAULT_VOICE_ID } = await req.json();
     const ELEVENLABS_API_KEY = Deno.env.get('ELEVENLABS_API_KEY');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
     if (!ELEVENLABS_API_KEY) {
       throw new Error('ELEVENLABS_API_KEY is not configured');
     }
 
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase is not configured');
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only signed-in users may spend ElevenLabs credits or fill the cache
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const text = typeof rawText === 'string' ? rawText.trim() : '';
     if (!text) {
       throw new Error('Text is required');
     }
 
+    if (text.length > MAX_TEXT_LENGTH) {
+      return new Response(JSON.stringify({ error: `Text must be at most ${MAX_TEXT_LENGTH} characters` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (typeof voiceId !== 'string' || !/^[A-Za-z0-9]+$/.test(voiceId)) {
+      throw new Error('Invalid voice');
+    }
+
+    const cacheKey = await getCacheKey(text, voiceId);
+    const { data: cached } = await supabaseAdmin.storage.from(CACHE_BUCKET).download(cacheKey);
+    if (cached) {
+      console.log('TTS cache hit:', cacheKey);
+      return new Response(JSON.stringify({
+        audioContent: base64Encode(await cached.arrayBuffer()),
+        cached: true,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     console.log('TTS request for text length:', text.length);
 
     const response = await fetch(
@@ -35,7 +104,7 @@ serve(async (req) => {
         },
         body: JSON.stringify({
           text,
-          model_id: 'eleven_turbo_v2_5',
+          model_id: MODEL_ID,
           output_format: 'mp3_44100_128',
           voice_settings: {
             stability: 0.6,
@@ -58,7 +127,16 @@ serve(async (req) => {
 
     console.log('TTS audio generated successfully');
 
-    return new Response(JSON.stringify({ audioContent: base64Audio }), {
+    // The cache is best effort: a failed upload still returns the audio
+    const { error: cacheError } = await supabaseAdmin.storage
+      .from(CACHE_BUCKET)
+      .upload(cacheKey, audioBuffer, { contentType: 'audio/mpeg', upsert: true });
+
+    if (cacheError) {
+      console.error('Error caching TTS audio:', cacheError);
+    }
+
+    return new Response(JSON.stringify({ audioContent: base64Audio, cached: false }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
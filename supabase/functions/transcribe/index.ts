@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Whisper-compatible APIs reject uploads over 25 MB
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// Accepts the same multipart body as OpenAI's /audio/transcriptions (file,
+// language, prompt) and forwards it to any compatible server. Point
+// STT_API_URL at a local whisper server to run without an API key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const STT_API_URL = (Deno.env.get('STT_API_URL') || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const STT_API_KEY = Deno.env.get('STT_API_KEY');
+    const STT_MODEL = Deno.env.get('STT_MODEL') || 'whisper-1';
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    // Only signed-in users may send audio to the paid STT endpoint
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const language = formData.get('language');
+    const prompt = formData.get('prompt');
+
+    if (!(file instanceof File) || file.size === 0) {
+      return new Response(JSON.stringify({ error: 'Audio file is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (file.size > MAX_AUDIO_BYTES) {
+      return new Response(JSON.stringify({ error: 'Audio file is too large' }), {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log('Transcription request:', { bytes: file.size, type: file.type, language });
+
+    const upstreamBody = new FormData();
+    upstreamBody.append('file', file, file.name || 'speech.webm');
+    upstreamBody.append('model', STT_MODEL);
+    upstreamBody.append('response_format', 'json');
+    if (typeof language === 'string' && language) upstreamBody.append('language', language);
+    if (typeof prompt === 'string' && prompt) upstreamBody.append('prompt', prompt);
+
+    const response = await fetch(`${STT_API_URL}/audio/transcriptions`, {
+      method: 'POST',
+      headers: STT_API_KEY ? { 'Authorization': `Bearer ${STT_API_KEY}` } : {},
+      body: upstreamBody,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Transcription API error:', response.status, errorText);
+
+      if (response.status === 429) {
+        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please wait a moment and try again.' }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      throw new Error(`Transcription API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const text = typeof data.text === 'string' ? data.text.trim() : '';
+
+    return new Response(JSON.stringify({ text }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('Transcription error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Transcription failed';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
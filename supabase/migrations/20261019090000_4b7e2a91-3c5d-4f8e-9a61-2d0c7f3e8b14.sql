@@ -0,0 +1,7 @@
+-- Track conversation order and answer timing for voice interview turns
+ALTER TABLE public.interview_responses
+  ADD COLUMN turn_index INTEGER,
+  ADD COLUMN time_to_answer_seconds NUMERIC(6,1);
+
+CREATE INDEX idx_interview_responses_session_turn
+  ON public.interview_responses (session_id, turn_index);
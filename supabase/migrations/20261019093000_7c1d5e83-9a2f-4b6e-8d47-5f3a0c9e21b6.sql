@@ -0,0 +1,3 @@
+-- Store the structured AI debrief generated after a voice interview
+ALTER TABLE public.interview_sessions
+  ADD COLUMN debrief JSONB;
@@ -0,0 +1,27 @@
+-- Create private bucket for recorded interview answers
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('answer-recordings', 'answer-recordings', false);
+
+-- Create policy for listening to recordings (owner only)
+CREATE POLICY "Users can view their own answer recordings"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'answer-recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Create policy for uploading recordings
+CREATE POLICY "Users can upload their own answer recordings"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'answer-recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Create policy for updating recordings
+CREATE POLICY "Users can update their own answer recordings"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'answer-recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Create policy for deleting recordings
+CREATE POLICY "Users can delete their own answer recordings"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'answer-recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
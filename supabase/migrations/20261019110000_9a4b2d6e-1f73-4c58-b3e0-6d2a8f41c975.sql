@@ -0,0 +1,7 @@
+-- Store speech delivery metrics for each spoken answer
+ALTER TABLE public.interview_responses
+  ADD COLUMN word_count INTEGER,
+  ADD COLUMN words_per_minute NUMERIC(5,1),
+  ADD COLUMN filler_word_count INTEGER,
+  ADD COLUMN long_pause_count INTEGER,
+  ADD COLUMN hedge_count INTEGER;
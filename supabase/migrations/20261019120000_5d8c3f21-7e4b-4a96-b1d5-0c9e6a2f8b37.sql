@@ -0,0 +1,4 @@
+-- Let users choose the speech-to-text backend and recognition language
+ALTER TABLE public.user_preferences
+  ADD COLUMN stt_provider TEXT NOT NULL DEFAULT 'auto',
+  ADD COLUMN stt_language TEXT NOT NULL DEFAULT 'en-US';
@@ -0,0 +1,5 @@
+-- Create private bucket for cached interviewer speech. Only the
+-- text-to-speech edge function reads and writes it, using the service role,
+-- so no user-facing policies are needed.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tts-cache', 'tts-cache', false);
@@ -0,0 +1,183 @@
+-- User-authored questions live alongside the curated set. Curated rows have
+-- no owner and stay read-only; authored rows belong to their creator.
+ALTER TABLE public.interview_questions
+ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX idx_interview_questions_user_id ON public.interview_questions (user_id);
+
+CREATE TRIGGER update_interview_questions_updated_at
+BEFORE UPDATE ON public.interview_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Named groups of questions. A deck is private until it gets a share token,
+-- which is what the share link carries.
+CREATE TABLE public.question_decks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  share_token UUID UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.question_deck_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deck_id UUID NOT NULL REFERENCES public.question_decks(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.interview_questions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (deck_id, question_id)
+);
+
+CREATE INDEX idx_question_decks_user_id ON public.question_decks (user_id);
+CREATE INDEX idx_question_deck_items_deck_id ON public.question_deck_items (deck_id);
+
+CREATE TRIGGER update_question_decks_updated_at
+BEFORE UPDATE ON public.question_decks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.question_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_deck_items ENABLE ROW LEVEL SECURITY;
+
+-- Questions: curated ones are public, authored ones are owner-only. Shared
+-- decks are read through get_shared_deck_questions below.
+DROP POLICY "Anyone can view questions" ON public.interview_questions;
+
+CREATE POLICY "Users can view curated and their own questions"
+ON public.interview_questions
+FOR SELECT
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own questions"
+ON public.interview_questions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own questions"
+ON public.interview_questions
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own questions"
+ON public.interview_questions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Decks
+CREATE POLICY "Users can view their own decks"
+ON public.question_decks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own decks"
+ON public.question_decks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own decks"
+ON public.question_decks
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own decks"
+ON public.question_decks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Deck items follow their deck's owner
+CREATE POLICY "Users can view items in their own decks"
+ON public.question_deck_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.question_decks
+    WHERE question_decks.id = question_deck_items.deck_id
+    AND question_decks.user_id = auth.uid()
+  )
+);
+
+-- Only curated questions and the user's own can go in, otherwise sharing the
+-- deck would hand out someone else's private questions
+CREATE POLICY "Users can add items to their own decks"
+ON public.question_deck_items
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.question_decks
+    WHERE question_decks.id = question_deck_items.deck_id
+    AND question_decks.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.interview_questions q
+    WHERE q.id = question_deck_items.question_id
+    AND (q.user_id IS NULL OR q.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can remove items from their own decks"
+ON public.question_deck_items
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.question_decks
+    WHERE question_decks.id = question_deck_items.deck_id
+    AND question_decks.user_id = auth.uid()
+  )
+);
+
+-- Shared decks are opened by token, so they never show up in any listing
+CREATE OR REPLACE FUNCTION public.get_shared_deck(_share_token UUID)
+RETURNS TABLE (id UUID, name TEXT, description TEXT, question_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id, d.name, d.description, COUNT(i.id)
+  FROM public.question_decks d
+  LEFT JOIN public.question_deck_items i ON i.deck_id = d.id
+  WHERE d.share_token = _share_token
+  GROUP BY d.id;
+$$;
+
+-- Leaves out user_id so a shared link never reveals who wrote a question
+CREATE OR REPLACE FUNCTION public.get_shared_deck_questions(_share_token UUID)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  difficulty TEXT,
+  industry TEXT,
+  role TEXT,
+  tips TEXT,
+  sample_answer TEXT,
+  category_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.difficulty,
+    q.industry,
+    q.role,
+    q.tips,
+    q.sample_answer,
+    q.category_id,
+    q.created_at,
+    q.updated_at
+  FROM public.interview_questions q
+  JOIN public.question_deck_items i ON i.question_id = q.id
+  JOIN public.question_decks d ON d.id = i.deck_id
+  WHERE d.share_token = _share_token
+  ORDER BY i.created_at;
+$$;
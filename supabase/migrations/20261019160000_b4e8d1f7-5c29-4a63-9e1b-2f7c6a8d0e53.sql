@@ -0,0 +1,136 @@
+-- Full-text search over the question library. The question itself weighs
+-- most, then the sample answer, then tips.
+ALTER TABLE public.interview_questions
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(question_text, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(sample_answer, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(tips, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_interview_questions_search ON public.interview_questions USING GIN (search_vector);
+CREATE INDEX idx_interview_questions_difficulty ON public.interview_questions (difficulty);
+
+-- Ranked, filtered and paginated search. Runs as the caller, so RLS still
+-- limits results to curated questions and the caller's own. Matches are
+-- wrapped in chr(2)/chr(3) so the client can highlight them without HTML.
+CREATE OR REPLACE FUNCTION public.search_questions(
+  _query TEXT DEFAULT NULL,
+  _difficulty TEXT DEFAULT NULL,
+  _industry TEXT DEFAULT NULL,
+  _role TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _question_ids UUID[] DEFAULT NULL,
+  _owner_only BOOLEAN DEFAULT false,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  difficulty TEXT,
+  industry TEXT,
+  role TEXT,
+  tips TEXT,
+  sample_answer TEXT,
+  category_id UUID,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  question_headline TEXT,
+  answer_headline TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN nullif(trim(_query), '') IS NULL THEN NULL
+      ELSE websearch_to_tsquery('english', _query)
+    END AS query
+  ),
+  matches AS (
+    SELECT
+      q.*,
+      CASE WHEN s.query IS NULL THEN 0 ELSE ts_rank_cd(q.search_vector, s.query) END AS rank,
+      s.query
+    FROM public.interview_questions q, search s
+    WHERE (s.query IS NULL OR q.search_vector @@ s.query)
+      AND (_difficulty IS NULL OR q.difficulty = _difficulty)
+      AND (_industry IS NULL OR q.industry = _industry)
+      AND (_role IS NULL OR q.role = _role)
+      AND (_category_id IS NULL OR q.category_id = _category_id)
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+      AND (NOT _owner_only OR q.user_id = auth.uid())
+  ),
+  page AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.created_at DESC, m.id
+    LIMIT least(greatest(_limit, 1), 5000)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    p.id,
+    p.question_text,
+    p.difficulty,
+    p.industry,
+    p.role,
+    p.tips,
+    p.sample_answer,
+    p.category_id,
+    p.user_id,
+    p.created_at,
+    p.rank::REAL,
+    CASE WHEN p.query IS NULL THEN p.question_text
+      ELSE ts_headline('english', p.question_text, p.query,
+        'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    END,
+    CASE WHEN p.query IS NULL OR p.sample_answer IS NULL OR NOT (to_tsvector('english', p.sample_answer) @@ p.query) THEN NULL
+      ELSE ts_headline('english', p.sample_answer, p.query,
+        'MaxFragments=1, MaxWords=25, MinWords=10, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    END,
+    p.total_count
+  FROM page p
+  ORDER BY p.rank DESC, p.created_at DESC, p.id;
+$$;
+
+-- Questions sharing the most terms with the given one, best match first
+CREATE OR REPLACE FUNCTION public.similar_questions(_question_id UUID, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (id UUID, question_text TEXT, difficulty TEXT, category_id UUID, rank REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH source AS (
+    -- Lexemes are already stemmed, so the query uses the 'simple' config
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS query
+    FROM public.interview_questions q, unnest(tsvector_to_array(
+      to_tsvector('english', q.question_text)
+    )) AS lexeme
+    WHERE q.id = _question_id
+  )
+  SELECT q.id, q.question_text, q.difficulty, q.category_id, ts_rank_cd(q.search_vector, s.query)::REAL AS rank
+  FROM public.interview_questions q, source s
+  WHERE q.id <> _question_id
+    AND s.query IS NOT NULL
+    AND q.search_vector @@ s.query
+  ORDER BY rank DESC, q.id
+  LIMIT least(greatest(_limit, 1), 20);
+$$;
+
+-- Distinct industries and roles for the search filters
+CREATE OR REPLACE FUNCTION public.question_facets()
+RETURNS TABLE (facet TEXT, value TEXT, question_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 'industry', industry, COUNT(*) FROM public.interview_questions
+  WHERE industry IS NOT NULL AND industry <> '' GROUP BY industry
+  UNION ALL
+  SELECT 'role', role, COUNT(*) FROM public.interview_questions
+  WHERE role IS NOT NULL AND role <> '' GROUP BY role
+  ORDER BY 1, 3 DESC, 2;
+$$;
@@ -0,0 +1,38 @@
+-- Private notes a user keeps against a library question
+CREATE TABLE public.question_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.interview_questions(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.question_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own question notes"
+ON public.question_notes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own question notes"
+ON public.question_notes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own question notes"
+ON public.question_notes
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own question notes"
+ON public.question_notes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_question_notes_updated_at
+BEFORE UPDATE ON public.question_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
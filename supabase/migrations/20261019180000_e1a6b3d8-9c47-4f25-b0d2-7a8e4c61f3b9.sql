@@ -0,0 +1,44 @@
+-- Jobs the user is preparing for, each with a tailored question pack
+CREATE TABLE public.job_targets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company TEXT NOT NULL,
+  title TEXT NOT NULL,
+  level TEXT NOT NULL DEFAULT 'mid',
+  job_description TEXT,
+  -- The generated pack is an ordinary deck, so Practice and Quiz can use it
+  deck_id UUID REFERENCES public.question_decks(id) ON DELETE SET NULL,
+  pack_generated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_job_targets_user ON public.job_targets (user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.job_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job targets"
+ON public.job_targets
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job targets"
+ON public.job_targets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own job targets"
+ON public.job_targets
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job targets"
+ON public.job_targets
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_job_targets_updated_at
+BEFORE UPDATE ON public.job_targets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,41 @@
+-- One parsed resume per user. The interviewer only sees it when the user
+-- opts in with use_in_interviews.
+CREATE TABLE public.resumes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  raw_text TEXT NOT NULL,
+  parsed JSONB NOT NULL DEFAULT '{}'::jsonb,
+  use_in_interviews BOOLEAN NOT NULL DEFAULT false,
+  parsed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.resumes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own resume"
+ON public.resumes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own resume"
+ON public.resumes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own resume"
+ON public.resumes
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own resume"
+ON public.resumes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_resumes_updated_at
+BEFORE UPDATE ON public.resumes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,55 @@
+-- Quiz sessions keep their progress so a reload can pick up where it left off
+ALTER TABLE public.interview_sessions
+  ADD COLUMN quiz_state JSONB,
+  ADD COLUMN last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Existing rows have been idle since they started
+UPDATE public.interview_sessions
+SET last_activity_at = COALESCE(ended_at, started_at, created_at);
+
+-- Mock interviews are 'scheduled' until their invite is accepted and
+-- 'confirmed' after, so the rewritten check keeps those too
+ALTER TABLE public.interview_sessions DROP CONSTRAINT interview_sessions_status_check;
+ALTER TABLE public.interview_sessions
+  ADD CONSTRAINT interview_sessions_status_check
+  CHECK (status IN ('pending', 'scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'abandoned'));
+
+CREATE INDEX idx_interview_sessions_open_quiz
+ON public.interview_sessions (user_id, last_activity_at DESC)
+WHERE status = 'in_progress' AND session_type = 'quiz';
+
+-- Close quiz sessions nobody has touched for a while. The session ends at
+-- its last activity, not when the job happens to run.
+CREATE OR REPLACE FUNCTION public.close_stale_quiz_sessions(_max_idle INTERVAL DEFAULT INTERVAL '24 hours')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  closed_count INTEGER;
+BEGIN
+  UPDATE public.interview_sessions
+  SET
+    status = 'abandoned',
+    ended_at = last_activity_at,
+    duration_minutes = CEIL(COALESCE((quiz_state->>'elapsedSeconds')::NUMERIC, 0) / 60)
+  WHERE status = 'in_progress'
+    AND session_type = 'quiz'
+    AND last_activity_at < now() - _max_idle;
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+  RETURN closed_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_stale_quiz_sessions(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Run the cleanup every hour
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-stale-quiz-sessions',
+  '0 * * * *',
+  $$SELECT public.close_stale_quiz_sessions()$$
+);
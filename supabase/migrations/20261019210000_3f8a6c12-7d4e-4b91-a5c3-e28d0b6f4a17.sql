@@ -0,0 +1,102 @@
+-- Interview loops: an ordered set of timed rounds run end to end
+CREATE TABLE public.interview_loops (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Round definitions in order: type, title, minutes and the break after
+  rounds JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_interview_loops_user ON public.interview_loops (user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.interview_loops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own interview loops"
+ON public.interview_loops
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own interview loops"
+ON public.interview_loops
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own interview loops"
+ON public.interview_loops
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own interview loops"
+ON public.interview_loops
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_interview_loops_updated_at
+BEFORE UPDATE ON public.interview_loops
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A loop run is a 'loop' session. Each round is its own session pointing
+-- back at the run, so it keeps its normal report.
+ALTER TABLE public.interview_sessions DROP CONSTRAINT interview_sessions_session_type_check;
+ALTER TABLE public.interview_sessions ADD CONSTRAINT interview_sessions_session_type_check
+CHECK (session_type = ANY (ARRAY['practice'::text, 'mock'::text, 'voice'::text, 'quiz'::text, 'loop'::text]));
+
+ALTER TABLE public.interview_sessions
+  ADD COLUMN loop_id UUID REFERENCES public.interview_loops(id) ON DELETE SET NULL,
+  -- Snapshot of the loop when the run started, so later edits don't change it
+  ADD COLUMN loop_plan JSONB,
+  ADD COLUMN parent_session_id UUID REFERENCES public.interview_sessions(id) ON DELETE CASCADE,
+  ADD COLUMN loop_round INTEGER;
+
+CREATE INDEX idx_interview_sessions_parent ON public.interview_sessions (parent_session_id);
+
+-- A session may only point at the user's own loop and own loop run
+DROP POLICY "Users can insert their own sessions" ON public.interview_sessions;
+DROP POLICY "Users can update their own sessions" ON public.interview_sessions;
+
+CREATE POLICY "Users can insert their own sessions" ON public.interview_sessions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      loop_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.interview_loops l
+        WHERE l.id = interview_sessions.loop_id
+        AND l.user_id = auth.uid()
+      )
+    )
+    AND (
+      parent_session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.interview_sessions p
+        WHERE p.id = interview_sessions.parent_session_id
+        AND p.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own sessions" ON public.interview_sessions
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      loop_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.interview_loops l
+        WHERE l.id = interview_sessions.loop_id
+        AND l.user_id = auth.uid()
+      )
+    )
+    AND (
+      parent_session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.interview_sessions p
+        WHERE p.id = interview_sessions.parent_session_id
+        AND p.user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,42 @@
+-- Proctoring events: every integrity flag raised during a session, with
+-- when it started and how long it lasted
+CREATE TABLE public.proctoring_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.interview_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('tab_switch', 'looking_away', 'phone_detected', 'person_missing')),
+  message TEXT NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Null when the episode never ended cleanly
+  duration_ms INTEGER CHECK (duration_ms >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_proctoring_events_session ON public.proctoring_events (session_id, occurred_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.proctoring_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own proctoring events"
+ON public.proctoring_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own proctoring events"
+ON public.proctoring_events
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.interview_sessions
+    WHERE id = session_id AND user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own proctoring events"
+ON public.proctoring_events
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Integrity summary generated from the events when the session is saved
+ALTER TABLE public.interview_sessions ADD COLUMN integrity_summary JSONB;
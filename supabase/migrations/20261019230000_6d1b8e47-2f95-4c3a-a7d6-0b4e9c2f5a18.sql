@@ -0,0 +1,4 @@
+-- The object detector also flags other people in the camera view
+ALTER TABLE public.proctoring_events DROP CONSTRAINT proctoring_events_event_type_check;
+ALTER TABLE public.proctoring_events ADD CONSTRAINT proctoring_events_event_type_check
+CHECK (event_type IN ('tab_switch', 'looking_away', 'phone_detected', 'person_missing', 'multiple_people'));
@@ -0,0 +1,11 @@
+-- Quiz integrity signals: pastes, typing bursts, devtools, leaving full
+-- screen and a second display
+ALTER TABLE public.proctoring_events DROP CONSTRAINT proctoring_events_event_type_check;
+ALTER TABLE public.proctoring_events ADD CONSTRAINT proctoring_events_event_type_check
+CHECK (event_type IN (
+  'tab_switch', 'looking_away', 'phone_detected', 'person_missing', 'multiple_people',
+  'paste', 'typing_burst', 'devtools_open', 'fullscreen_exit', 'second_display'
+));
+
+-- Measurements behind an event, e.g. how many characters were pasted
+ALTER TABLE public.proctoring_events ADD COLUMN details JSONB;
@@ -0,0 +1,44 @@
+-- Named proctoring policies: which signals are watched, how strict the
+-- thresholds are, how many warnings come before escalation and whether the
+-- session ends itself. Replaces the single cheating-alerts switch.
+ALTER TABLE public.user_preferences
+ADD COLUMN proctoring_policy TEXT NOT NULL DEFAULT 'coaching'
+CHECK (proctoring_policy IN ('off', 'coaching', 'strict', 'exam'));
+
+UPDATE public.user_preferences SET proctoring_policy = 'off' WHERE show_cheating_alerts = false;
+
+ALTER TABLE public.user_preferences DROP COLUMN show_cheating_alerts;
+
+-- Set on a mock session to enforce it, and recorded on every session run
+-- under a policy
+ALTER TABLE public.interview_sessions
+ADD COLUMN proctoring_policy TEXT
+CHECK (proctoring_policy IN ('off', 'coaching', 'strict', 'exam'));
+
+-- Every round of a loop runs under the loop's policy
+ALTER TABLE public.interview_loops
+ADD COLUMN proctoring_policy TEXT NOT NULL DEFAULT 'coaching'
+CHECK (proctoring_policy IN ('off', 'coaching', 'strict', 'exam'));
+
+-- A mock interview's policy is the one it was scheduled with. The candidate
+-- joins with the same row, so the policy is locked from then on; sessions
+-- scheduled before policies existed may still record the one they ran under.
+CREATE OR REPLACE FUNCTION public.lock_mock_session_proctoring_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.session_type = 'mock' AND (
+    NEW.session_type IS DISTINCT FROM OLD.session_type
+    OR (OLD.proctoring_policy IS NOT NULL AND NEW.proctoring_policy IS DISTINCT FROM OLD.proctoring_policy)
+  ) THEN
+    RAISE EXCEPTION 'The proctoring policy of a scheduled mock interview cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_mock_session_proctoring_policy
+  BEFORE UPDATE OF proctoring_policy, session_type ON public.interview_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.lock_mock_session_proctoring_policy();
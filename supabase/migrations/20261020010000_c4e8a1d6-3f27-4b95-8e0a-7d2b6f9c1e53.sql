@@ -0,0 +1,3 @@
+-- Where the user's gaze lands when looking at their camera and at the
+-- screen's corners, measured once so eye contact can be scored per user
+ALTER TABLE public.user_preferences ADD COLUMN gaze_calibration JSONB;